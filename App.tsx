@@ -1,32 +1,77 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { dbService } from './services/db';
-import { generateDailyInsight } from './services/geminiService';
-import { Note, Habit, AppView, AIInsight } from './types';
-import { 
-  PencilSquareIcon, 
-  CheckCircleIcon, 
-  SparklesIcon, 
+import { runScheduledReflections } from './services/reflections';
+import { syncEngine } from './services/syncService';
+import { serviceWorkerUpdates } from './services/serviceWorker';
+import { refreshReminderSchedule, startForegroundReminders } from './services/reminders';
+import { parseRoute, router } from './services/router';
+import ConflictResolver from './components/ConflictResolver';
+import NoteHistory from './components/NoteHistory';
+import MoodTrends from './components/MoodTrends';
+import LockScreen from './components/LockScreen';
+import JournalSwitcher from './components/JournalSwitcher';
+import JournalForm from './components/JournalForm';
+import { useSettings } from './components/SettingsContext';
+import JournalPage, { NEW_NOTE_DRAFT_ID, NewNote } from './pages/JournalPage';
+import HabitsPage from './pages/HabitsPage';
+import InsightsPage from './pages/InsightsPage';
+import SettingsPage from './pages/SettingsPage';
+import { vault } from './services/crypto';
+import { DEFAULT_AUTO_LOCK_MINUTES, getAutoLockMinutes, setAutoLockMinutes } from './services/encryption';
+import { todayKey, toggleCompletion, toggleSkip } from './services/habitEngine';
+import { createAttachment } from './services/attachments';
+import { DEFAULT_JOURNAL, DEFAULT_JOURNAL_ID, createJournal, journalIdOf, notesInJournal, sortJournals } from './services/journals';
+import { Attachment, AttachmentKind, Journal, Note, Habit, HabitSchedule, ChatMessage, Reflection, Route, SyncStatus, NoteConflict, NoteRevision } from './types';
+import {
+  PencilSquareIcon,
+  CheckCircleIcon,
+  SparklesIcon,
   Cog6ToothIcon,
   WifiIcon,
   SignalSlashIcon,
-  PlusIcon,
-  TrashIcon,
-  ArrowPathIcon
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  ArrowUturnLeftIcon,
+  ChartBarIcon
 } from '@heroicons/react/24/outline';
 
+const UNDO_DELETE_MS = 6000;
+const ACTIVITY_CHECK_MS = 15000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart'];
+
+interface PendingDelete {
+  note: Note;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Holds the journal's data and the chrome around it; the page in the URL decides what
+// shows in between, see services/router.ts
 const App: React.FC = () => {
-  const [view, setView] = useState<AppView>('notes');
+  const [route, setRoute] = useState<Route>(router.current);
   const [notes, setNotes] = useState<Note[]>([]);
   const [habits, setHabits] = useState<Habit[]>([]);
+  const [journals, setJournals] = useState<Journal[]>([DEFAULT_JOURNAL]);
+  const [editingJournal, setEditingJournal] = useState<Journal | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [loading, setLoading] = useState(false);
-  const [aiResult, setAiResult] = useState<AIInsight | null>(null);
+  const [reflections, setReflections] = useState<Reflection[]>([]);
+  const { settings, updateSettings } = useSettings();
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [installPrompt, setInstallPrompt] = useState<any>(null);
-
-  // Note creation state
-  const [newNoteTitle, setNewNoteTitle] = useState('');
-  const [newNoteContent, setNewNoteContent] = useState('');
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [conflicts, setConflicts] = useState<NoteConflict[]>([]);
+  const [activeConflict, setActiveConflict] = useState<NoteConflict | null>(null);
+  const [historyNote, setHistoryNote] = useState<Note | null>(null);
+  const [dbError, setDbError] = useState<string | null>(null);
+  const [vaultState, setVaultState] = useState({ enabled: vault.enabled, locked: vault.locked });
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+  const pendingDeleteRef = useRef<PendingDelete | null>(null);
+  pendingDeleteRef.current = pendingDelete;
+  // The linked entry whose journal has already been switched to
+  const followedNoteId = useRef<string | null>(null);
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -40,95 +85,284 @@ const App: React.FC = () => {
     window.addEventListener('offline', handleOffline);
     window.addEventListener('beforeinstallprompt', handleInstallPrompt);
 
-    loadData();
+    getAutoLockMinutes().then(setAutoLockMinutesState);
+    const unsubscribeRoute = router.subscribe(setRoute);
+    const unsubscribeVault = vault.subscribe(() => setVaultState({ enabled: vault.enabled, locked: vault.locked }));
+    const unsubscribeUpdates = serviceWorkerUpdates.subscribe(setUpdateAvailable);
+
+    // Deletes are held back for the undo window; commit one if the app is closed before it ends
+    const handlePageHide = () => {
+      const pending = pendingDeleteRef.current;
+      if (pending) dbService.deleteNote(pending.note.id);
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
+    // Reload after the service worker drained the outbox or checked off a habit from a notification,
+    // and open the page a tapped notification points to
+    const handleWorkerMessage = (e: MessageEvent) => {
+      if (e.data?.type === 'sync-complete' || e.data?.type === 'data-changed') loadData();
+      if (e.data?.type === 'navigate') {
+        const url = new URL(e.data.url, location.origin);
+        router.navigate(parseRoute(url.pathname, url.search));
+      }
+    };
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+
+    const stopSync = syncEngine.start();
+    const unsubscribe = syncEngine.subscribe(setSyncStatus);
+    const stopReminders = startForegroundReminders();
 
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
       window.removeEventListener('beforeinstallprompt', handleInstallPrompt);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+      window.removeEventListener('pagehide', handlePageHide);
+      stopSync();
+      unsubscribe();
+      stopReminders();
+      unsubscribeRoute();
+      unsubscribeVault();
+      unsubscribeUpdates();
     };
   }, []);
 
+  // Decrypted text only lives in memory while unlocked; the pages unmount while locked,
+  // which drops the state they hold
+  useEffect(() => {
+    if (vaultState.locked) {
+      setNotes([]);
+      setAttachments([]);
+      setConflicts([]);
+      setActiveConflict(null);
+      setHistoryNote(null);
+      setReflections([]);
+      setChatMessages([]);
+      return;
+    }
+    loadData().then(() => runScheduledReflections()).then(created => {
+      if (created.length > 0) loadReflections();
+    });
+  }, [vaultState.locked]);
+
+  // Everything below the header shows one journal at a time
+  const activeJournal = journals.find(j => j.id === settings.journalId)
+    ?? journals.find(j => j.id === DEFAULT_JOURNAL_ID)
+    ?? DEFAULT_JOURNAL;
+  const journalNotes = notesInJournal(notes, activeJournal.id, journals);
+  const linkedNoteId = route.page === 'journal' ? route.noteId : undefined;
+
+  // A conversation in one journal doesn't carry over to another
+  useEffect(() => setChatMessages([]), [activeJournal.id]);
+
+  // A link to an entry opens the journal it is in, once the entry has loaded; switching
+  // journals afterwards is left to the switcher
+  useEffect(() => {
+    if (!linkedNoteId) {
+      followedNoteId.current = null;
+      return;
+    }
+    const note = notes.find(n => n.id === linkedNoteId);
+    if (!note || followedNoteId.current === linkedNoteId) return;
+    followedNoteId.current = linkedNoteId;
+    const journalId = journalIdOf(note, journals);
+    if (journalId !== activeJournal.id) updateSettings({ journalId });
+  }, [linkedNoteId, notes]);
+
+  // Auto-lock after a period without input. Checked on an interval against the last
+  // activity so that time spent in the background counts too.
+  useEffect(() => {
+    if (!vaultState.enabled || vaultState.locked || autoLockMinutes === 0) return;
+    let lastActivity = Date.now();
+    const handleActivity = () => {
+      lastActivity = Date.now();
+    };
+    const check = () => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60 * 1000) vault.lock();
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', check);
+    const timer = setInterval(check, ACTIVITY_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', check);
+      clearInterval(timer);
+    };
+  }, [vaultState.enabled, vaultState.locked, autoLockMinutes]);
+
+  // Pick up acknowledged and pulled changes after every successful sync
+  useEffect(() => {
+    if (syncStatus?.lastSyncedAt) loadData();
+  }, [syncStatus?.lastSyncedAt]);
+
   const loadData = async () => {
-    await dbService.init();
-    const [fetchedNotes, fetchedHabits] = await Promise.all([
+    try {
+      await dbService.init();
+    } catch (err) {
+      console.error(err);
+      setDbError(err instanceof Error ? err.message : 'Your journal could not be opened.');
+      return;
+    }
+    const [fetchedNotes, fetchedHabits, fetchedJournals, fetchedConflicts, fetchedReflections, fetchedAttachments] = await Promise.all([
       dbService.getAllNotes(),
-      dbService.getAllHabits()
+      dbService.getAllHabits(),
+      dbService.getJournals(),
+      dbService.getAllConflicts(),
+      dbService.getReflections(),
+      dbService.getAttachments()
     ]);
-    setNotes(fetchedNotes.sort((a, b) => b.createdAt - a.createdAt));
+    const hidden = pendingDeleteRef.current?.note.id;
+    setNotes(fetchedNotes.filter(n => n.id !== hidden).sort((a, b) => b.createdAt - a.createdAt));
     setHabits(fetchedHabits);
+    setJournals(sortJournals(fetchedJournals));
+    setAttachments(fetchedAttachments);
+    setConflicts(fetchedConflicts);
+    setReflections(fetchedReflections);
+  };
+
+  const loadReflections = async () => {
+    const fetched = await dbService.getReflections();
+    if (!vault.locked) setReflections(fetched);
   };
 
-  const handleAddNote = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newNoteTitle.trim()) return;
-    
+  const handleAddNote = async (fields: NewNote) => {
+    const now = Date.now();
     const note: Note = {
+      ...fields,
       id: crypto.randomUUID(),
-      title: newNoteTitle,
-      content: newNoteContent,
-      createdAt: Date.now(),
-      synced: isOnline
+      journalId: activeJournal.id,
+      createdAt: now,
+      updatedAt: now,
+      revision: 0,
+      synced: false
     };
 
-    await dbService.saveNote(note);
-    setNotes([note, ...notes]);
-    setNewNoteTitle('');
-    setNewNoteContent('');
+    const saved = await dbService.saveNote(note);
+    await dbService.moveAttachments(NEW_NOTE_DRAFT_ID, note.id);
+    setAttachments(prev => prev.map(a => (a.noteId === NEW_NOTE_DRAFT_ID ? { ...a, noteId: note.id } : a)));
+    setNotes(prev => [saved, ...prev]);
   };
 
-  const handleDeleteNote = async (id: string) => {
-    await dbService.deleteNote(id);
-    setNotes(notes.filter(n => n.id !== id));
+  // An entry open from a link belongs to the journal being left, so it closes
+  const selectJournal = (id: string) => {
+    updateSettings({ journalId: id });
+    if (linkedNoteId) router.navigate({ page: 'journal' });
   };
 
-  const handleToggleHabit = async (habitId: string) => {
-    const today = new Date().toISOString().split('T')[0];
-    const newHabits = habits.map(h => {
-      if (h.id === habitId) {
-        const completed = h.completedDays.includes(today);
-        const nextDays = completed 
-          ? h.completedDays.filter(d => d !== today)
-          : [...h.completedDays, today];
-        
-        return { ...h, completedDays: nextDays, streak: nextDays.length };
-      }
-      return h;
-    });
-    
+  const saveJournal = async (journal: Journal) => {
+    await dbService.saveJournal(journal);
+    setJournals(prev => sortJournals([...prev.filter(j => j.id !== journal.id), journal]));
+    if (!journals.some(j => j.id === journal.id)) selectJournal(journal.id);
+    setEditingJournal(null);
+  };
+
+  // Its entries move to the default journal, see dbService.deleteJournal
+  const deleteJournal = async (id: string) => {
+    await dbService.deleteJournal(id);
+    if (activeJournal.id === id) updateSettings({ journalId: DEFAULT_JOURNAL_ID });
+    setEditingJournal(null);
+    await loadData();
+  };
+
+  const replaceNote = (saved: Note) => {
+    setNotes(prev => prev.map(n => n.id === saved.id ? saved : n));
+  };
+
+  const handleSaveNote = async (note: Note) => {
+    const saved = await dbService.saveNote(note);
+    replaceNote(saved);
+    return saved;
+  };
+
+  const addAttachment = (noteId: string) => async (kind: AttachmentKind, blob: Blob, duration?: number) => {
+    const attachment = await createAttachment(noteId, kind, blob, duration);
+    setAttachments(prev => [...prev, attachment]);
+  };
+
+  const removeAttachment = async (attachment: Attachment) => {
+    await dbService.deleteAttachment(attachment.id);
+    setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+  };
+
+  const handleDeleteNote = (note: Note) => {
+    if (pendingDelete) {
+      clearTimeout(pendingDelete.timer);
+      dbService.deleteNote(pendingDelete.note.id);
+    }
+    const timer = setTimeout(() => {
+      dbService.deleteNote(note.id);
+      setPendingDelete(null);
+    }, UNDO_DELETE_MS);
+    setPendingDelete({ note, timer });
+    setNotes(notes.filter(n => n.id !== note.id));
+    if (linkedNoteId === note.id) router.navigate({ page: 'journal' }, true);
+  };
+
+  const handleUndoDelete = () => {
+    if (!pendingDelete) return;
+    clearTimeout(pendingDelete.timer);
+    const { note } = pendingDelete;
+    setNotes(prev => [note, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+    setPendingDelete(null);
+  };
+
+  const handleRestoreRevision = async (revision: NoteRevision) => {
+    const saved = await dbService.restoreRevision(revision);
+    if (saved) {
+      replaceNote(saved);
+      setHistoryNote(saved);
+    }
+  };
+
+  const handleResolveConflict = async (resolved: Pick<Note, 'title' | 'content'>, source: NoteRevision['source']) => {
+    if (!activeConflict) return;
+    const saved = await dbService.resolveConflict(activeConflict, resolved, source);
+    replaceNote(saved);
+    setConflicts(conflicts.filter(c => c.noteId !== activeConflict.noteId));
+    setActiveConflict(null);
+  };
+
+  const updateHabit = async (habitId: string, change: (habit: Habit) => Habit) => {
+    const newHabits = habits.map(h => h.id === habitId ? change(h) : h);
     const updated = newHabits.find(h => h.id === habitId);
     if (updated) await dbService.saveHabit(updated);
     setHabits(newHabits);
+    return newHabits;
+  };
+
+  const handleToggleHabit = (habitId: string, day?: string) => updateHabit(habitId, h => toggleCompletion(h, day, settings.weekStartsOn));
+
+  const handleSkipHabit = (habitId: string) => updateHabit(habitId, h => toggleSkip(h, todayKey(), settings.weekStartsOn));
+
+  const handleHabitReminder = async (habitId: string, reminderTime: string | null) => {
+    const newHabits = await updateHabit(habitId, h => ({ ...h, reminderTime: reminderTime ?? undefined }));
+    refreshReminderSchedule(newHabits);
   };
 
-  const createHabit = async () => {
-    const name = prompt("Enter habit name:");
-    if (!name) return;
+  const createHabit = async (name: string, schedule: HabitSchedule) => {
     const habit: Habit = {
       id: crypto.randomUUID(),
       name,
       completedDays: [],
-      streak: 0
+      skippedDays: [],
+      schedule,
+      streak: 0,
+      synced: false
     };
     await dbService.saveHabit(habit);
     setHabits([...habits, habit]);
   };
 
-  const getAIInsights = async () => {
-    if (!isOnline) {
-      alert("AI insights require an internet connection.");
-      return;
-    }
-    setLoading(true);
-    try {
-      const insight = await generateDailyInsight(notes);
-      setAiResult(insight);
-    } catch (err) {
-      console.error(err);
-      alert("Failed to generate insights.");
-    } finally {
-      setLoading(false);
-    }
+  const deleteReflection = async (id: string) => {
+    await dbService.deleteReflection(id);
+    setReflections(reflections.filter(r => r.id !== id));
+  };
+
+  const openNote = (id: string) => router.navigate({ page: 'journal', noteId: id });
+
+  const updateAutoLock = async (minutes: number) => {
+    setAutoLockMinutesState(minutes);
+    await setAutoLockMinutes(minutes);
   };
 
   const handleInstall = async () => {
@@ -139,17 +373,53 @@ const App: React.FC = () => {
     }
   };
 
+  const journalReflections = reflections.filter(r => journalIdOf(r, journals) === activeJournal.id);
+  const noteCounts: Record<string, number> = {};
+  notes.forEach(note => {
+    const id = journalIdOf(note, journals);
+    noteCounts[id] = (noteCounts[id] ?? 0) + 1;
+  });
+
+  if (dbError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-6">
+        <div className="bg-white rounded-3xl border p-8 max-w-sm text-center space-y-4">
+          <ExclamationTriangleIcon className="h-12 w-12 mx-auto text-amber-500" />
+          <h1 className="text-lg font-bold text-gray-800">Can't open your journal</h1>
+          <p className="text-sm text-gray-500">{dbError}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="bg-indigo-600 text-white px-6 py-2 rounded-xl font-medium hover:bg-indigo-700 transition"
+          >
+            Reload
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (vaultState.locked) {
+    return <LockScreen />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col pb-20">
       {/* Top Header */}
       <header className="bg-white border-b px-6 py-4 flex justify-between items-center sticky top-0 z-30">
         <div>
           <h1 className="text-xl font-bold text-indigo-600">ZenMind</h1>
-          <p className="text-xs text-gray-400">PWA Journaling</p>
+          <JournalSwitcher
+            journals={journals}
+            active={activeJournal}
+            counts={noteCounts}
+            onSelect={selectJournal}
+            onEdit={setEditingJournal}
+            onNew={() => setEditingJournal(createJournal())}
+          />
         </div>
         <div className="flex items-center gap-4">
           {installPrompt && (
-            <button 
+            <button
               onClick={handleInstall}
               className="bg-indigo-600 text-white px-3 py-1 rounded-full text-xs font-medium"
             >
@@ -171,194 +441,154 @@ const App: React.FC = () => {
 
       {/* Main Content Area */}
       <main className="flex-1 overflow-y-auto px-6 py-6 max-w-2xl mx-auto w-full">
-        {view === 'notes' && (
-          <section className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <form onSubmit={handleAddNote} className="bg-white rounded-2xl shadow-sm border p-4 space-y-3">
-              <input 
-                type="text" 
-                placeholder="Entry Title..." 
-                className="w-full text-lg font-semibold focus:outline-none"
-                value={newNoteTitle}
-                onChange={(e) => setNewNoteTitle(e.target.value)}
-              />
-              <textarea 
-                placeholder="How are you feeling today?" 
-                rows={3}
-                className="w-full text-gray-600 focus:outline-none resize-none"
-                value={newNoteContent}
-                onChange={(e) => setNewNoteContent(e.target.value)}
-              />
-              <div className="flex justify-end">
-                <button 
-                  type="submit"
-                  className="bg-indigo-600 text-white rounded-xl p-2 hover:bg-indigo-700 transition"
-                >
-                  <PlusIcon className="h-6 w-6" />
-                </button>
-              </div>
-            </form>
-
-            <div className="space-y-4">
-              <h2 className="text-sm font-bold text-gray-500 uppercase tracking-wider">Recent Entries</h2>
-              {notes.length === 0 ? (
-                <div className="text-center py-12 text-gray-400">
-                  <PencilSquareIcon className="h-12 w-12 mx-auto mb-2 opacity-20" />
-                  <p>Your journey begins with a single note.</p>
-                </div>
-              ) : (
-                notes.map(note => (
-                  <div key={note.id} className="bg-white p-5 rounded-2xl border shadow-sm relative group">
-                    <button 
-                      onClick={() => handleDeleteNote(note.id)}
-                      className="absolute top-4 right-4 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition"
-                    >
-                      <TrashIcon className="h-5 w-5" />
-                    </button>
-                    <div className="text-xs text-indigo-400 font-medium mb-1">
-                      {new Date(note.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
-                    </div>
-                    <h3 className="font-bold text-gray-800 mb-2">{note.title}</h3>
-                    <p className="text-gray-600 text-sm whitespace-pre-wrap">{note.content}</p>
-                  </div>
-                ))
-              )}
-            </div>
-          </section>
+        {route.page === 'journal' && (
+          <JournalPage
+            notes={journalNotes}
+            journal={activeJournal}
+            journals={journals}
+            attachments={attachments}
+            conflicts={conflicts}
+            editingNoteId={route.noteId}
+            compose={!!route.compose}
+            shared={route.shared}
+            isOnline={isOnline}
+            onCreate={handleAddNote}
+            onSave={handleSaveNote}
+            onDelete={handleDeleteNote}
+            onShowHistory={setHistoryNote}
+            onShowConflict={setActiveConflict}
+            onAddAttachment={addAttachment}
+            onRemoveAttachment={removeAttachment}
+          />
         )}
 
-        {view === 'habits' && (
-          <section className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <div className="flex justify-between items-center">
-              <h2 className="text-xl font-bold text-gray-800">Habit Tracker</h2>
-              <button 
-                onClick={createHabit}
-                className="bg-indigo-50 text-indigo-600 p-2 rounded-xl"
-              >
-                <PlusIcon className="h-6 w-6" />
-              </button>
-            </div>
-            
-            <div className="grid grid-cols-1 gap-4">
-              {habits.map(habit => {
-                const isCompletedToday = habit.completedDays.includes(new Date().toISOString().split('T')[0]);
-                return (
-                  <div key={habit.id} className="bg-white p-4 rounded-2xl border flex items-center justify-between">
-                    <div>
-                      <h3 className="font-bold text-gray-800">{habit.name}</h3>
-                      <p className="text-xs text-indigo-500 font-medium">🔥 {habit.streak} day streak</p>
-                    </div>
-                    <button 
-                      onClick={() => handleToggleHabit(habit.id)}
-                      className={`h-10 w-10 rounded-full flex items-center justify-center transition ${
-                        isCompletedToday ? 'bg-indigo-600 text-white' : 'border-2 border-indigo-100 text-indigo-200'
-                      }`}
-                    >
-                      <CheckCircleIcon className="h-6 w-6" />
-                    </button>
-                  </div>
-                );
-              })}
-              {habits.length === 0 && (
-                <div className="text-center py-12 text-gray-400">
-                   <p>Track your daily wins.</p>
-                </div>
-              )}
-            </div>
-          </section>
+        {route.page === 'habits' && (
+          <HabitsPage
+            habits={habits}
+            selectedHabitId={route.habitId}
+            onToggle={handleToggleHabit}
+            onSkip={handleSkipHabit}
+            onChangeReminder={handleHabitReminder}
+            onCreate={createHabit}
+          />
         )}
 
-        {view === 'ai' && (
-          <section className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <div className="bg-gradient-to-br from-indigo-600 to-purple-600 rounded-3xl p-8 text-white text-center shadow-lg">
-              <SparklesIcon className="h-12 w-12 mx-auto mb-4 opacity-80" />
-              <h2 className="text-2xl font-bold mb-2">AI Daily Reflection</h2>
-              <p className="text-indigo-100 text-sm mb-6">Let Gemini analyze your journal and provide personalized growth insights.</p>
-              <button 
-                onClick={getAIInsights}
-                disabled={loading || !isOnline}
-                className="bg-white text-indigo-600 px-8 py-3 rounded-2xl font-bold shadow-sm hover:bg-indigo-50 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 mx-auto"
-              >
-                {loading ? <ArrowPathIcon className="h-5 w-5 animate-spin" /> : <SparklesIcon className="h-5 w-5" />}
-                {loading ? 'Analyzing...' : 'Generate Insights'}
-              </button>
-            </div>
-
-            {aiResult && (
-              <div className="space-y-4">
-                <div className="bg-white p-6 rounded-2xl border shadow-sm">
-                  <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-3">Reflective Summary</h3>
-                  <p className="text-gray-700 leading-relaxed italic">"{aiResult.summary}"</p>
-                </div>
-                <div className="grid grid-cols-1 gap-4">
-                  {aiResult.suggestions.map((suggestion, i) => (
-                    <div key={i} className="bg-white p-4 rounded-xl border flex gap-4 items-start">
-                      <div className="bg-indigo-100 text-indigo-600 h-6 w-6 rounded-full flex items-center justify-center text-xs font-bold shrink-0">
-                        {i + 1}
-                      </div>
-                      <p className="text-sm text-gray-600 font-medium">{suggestion}</p>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
+        {route.page === 'trends' && (
+          <section className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <MoodTrends notes={journalNotes} habits={habits} onOpenNote={openNote} />
           </section>
         )}
 
-        {view === 'settings' && (
-          <section className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <h2 className="text-xl font-bold text-gray-800">Settings</h2>
-            <div className="bg-white rounded-2xl border overflow-hidden">
-               <div className="p-4 border-b flex justify-between items-center">
-                  <span>Push Notifications</span>
-                  <div className="w-10 h-5 bg-indigo-600 rounded-full relative">
-                    <div className="absolute right-1 top-1 w-3 h-3 bg-white rounded-full"></div>
-                  </div>
-               </div>
-               <div className="p-4 border-b flex justify-between items-center">
-                  <span>Dark Mode</span>
-                  <div className="w-10 h-5 bg-gray-200 rounded-full relative">
-                    <div className="absolute left-1 top-1 w-3 h-3 bg-white rounded-full"></div>
-                  </div>
-               </div>
-               <div className="p-4 flex justify-between items-center">
-                  <span>Cloud Sync</span>
-                  <span className="text-xs font-bold text-indigo-600">PREMIUM</span>
-               </div>
-            </div>
-            <div className="bg-indigo-50 p-6 rounded-2xl text-center">
-              <h3 className="font-bold text-indigo-800 mb-1">Local Data Powered</h3>
-              <p className="text-indigo-600 text-xs">Your data is stored securely on this device using IndexedDB. No server needed for core features.</p>
-            </div>
-          </section>
+        {route.page === 'insights' && (
+          <InsightsPage
+            journal={activeJournal}
+            notes={journalNotes}
+            allNotes={notes}
+            habits={habits}
+            reflections={journalReflections}
+            chatMessages={chatMessages}
+            onChatMessagesChange={setChatMessages}
+            isOnline={isOnline}
+            onReflectionCreated={loadReflections}
+            onDeleteReflection={deleteReflection}
+            onOpenNote={openNote}
+          />
+        )}
+
+        {route.page === 'settings' && (
+          <SettingsPage
+            vaultEnabled={vaultState.enabled}
+            autoLockMinutes={autoLockMinutes}
+            onChangeAutoLock={updateAutoLock}
+            attachments={attachments}
+            syncStatus={syncStatus}
+            onImported={loadData}
+          />
         )}
       </main>
 
+      {editingJournal && (
+        <JournalForm
+          journal={editingJournal}
+          isNew={!journals.some(j => j.id === editingJournal.id)}
+          defaultName={journals.find(j => j.id === DEFAULT_JOURNAL_ID)?.name ?? DEFAULT_JOURNAL.name}
+          onSave={saveJournal}
+          onDelete={editingJournal.id !== DEFAULT_JOURNAL_ID && journals.some(j => j.id === editingJournal.id)
+            ? () => deleteJournal(editingJournal.id)
+            : undefined}
+          onClose={() => setEditingJournal(null)}
+        />
+      )}
+
+      {updateAvailable && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-sm rounded-2xl px-4 py-3 shadow-lg flex items-center gap-4 z-50">
+          <span>A new version is available</span>
+          <button onClick={() => serviceWorkerUpdates.applyUpdate()} className="font-bold text-indigo-300 flex items-center gap-1">
+            <ArrowPathIcon className="h-4 w-4" />
+            Reload
+          </button>
+        </div>
+      )}
+
+      {pendingDelete && (
+        <div className="fixed bottom-20 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-sm rounded-2xl px-4 py-3 shadow-lg flex items-center gap-4 z-40">
+          <span>Entry deleted</span>
+          <button onClick={handleUndoDelete} className="font-bold text-indigo-300 flex items-center gap-1">
+            <ArrowUturnLeftIcon className="h-4 w-4" />
+            Undo
+          </button>
+        </div>
+      )}
+
+      {activeConflict && (
+        <ConflictResolver
+          conflict={activeConflict}
+          onResolve={handleResolveConflict}
+          onClose={() => setActiveConflict(null)}
+        />
+      )}
+
+      {historyNote && (
+        <NoteHistory
+          note={historyNote}
+          onRestore={handleRestoreRevision}
+          onClose={() => setHistoryNote(null)}
+        />
+      )}
+
       {/* Bottom Navigation */}
       <nav className="bg-white/80 backdrop-blur-md border-t fixed bottom-0 left-0 right-0 flex justify-around items-center safe-bottom h-16 z-40">
-        <button 
-          onClick={() => setView('notes')}
-          className={`flex flex-col items-center gap-1 transition ${view === 'notes' ? 'text-indigo-600' : 'text-gray-400'}`}
+        <button
+          onClick={() => router.navigate({ page: 'journal' })}
+          className={`flex flex-col items-center gap-1 transition ${route.page === 'journal' ? 'text-indigo-600' : 'text-gray-400'}`}
         >
           <PencilSquareIcon className="h-6 w-6" />
           <span className="text-[10px] font-bold">Journal</span>
         </button>
-        <button 
-          onClick={() => setView('habits')}
-          className={`flex flex-col items-center gap-1 transition ${view === 'habits' ? 'text-indigo-600' : 'text-gray-400'}`}
+        <button
+          onClick={() => router.navigate({ page: 'habits' })}
+          className={`flex flex-col items-center gap-1 transition ${route.page === 'habits' ? 'text-indigo-600' : 'text-gray-400'}`}
         >
           <CheckCircleIcon className="h-6 w-6" />
           <span className="text-[10px] font-bold">Habits</span>
         </button>
-        <button 
-          onClick={() => setView('ai')}
-          className={`flex flex-col items-center gap-1 transition ${view === 'ai' ? 'text-indigo-600' : 'text-gray-400'}`}
+        <button
+          onClick={() => router.navigate({ page: 'trends' })}
+          className={`flex flex-col items-center gap-1 transition ${route.page === 'trends' ? 'text-indigo-600' : 'text-gray-400'}`}
+        >
+          <ChartBarIcon className="h-6 w-6" />
+          <span className="text-[10px] font-bold">Trends</span>
+        </button>
+        <button
+          onClick={() => router.navigate({ page: 'insights' })}
+          className={`flex flex-col items-center gap-1 transition ${route.page === 'insights' ? 'text-indigo-600' : 'text-gray-400'}`}
         >
           <SparklesIcon className="h-6 w-6" />
           <span className="text-[10px] font-bold">AI Insight</span>
         </button>
-        <button 
-          onClick={() => setView('settings')}
-          className={`flex flex-col items-center gap-1 transition ${view === 'settings' ? 'text-indigo-600' : 'text-gray-400'}`}
+        <button
+          onClick={() => router.navigate({ page: 'settings' })}
+          className={`flex flex-col items-center gap-1 transition ${route.page === 'settings' ? 'text-indigo-600' : 'text-gray-400'}`}
         >
           <Cog6ToothIcon className="h-6 w-6" />
           <span className="text-[10px] font-bold">Settings</span>
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { AIConfig } from '../types';
+import { AI_PROVIDERS } from '../services/insights';
+import { DEFAULT_GEMINI_MODEL } from '../services/geminiService';
+import { DEFAULT_LOCAL_EMBEDDING_MODEL, DEFAULT_OPENAI_ENDPOINT, DEFAULT_OPENAI_MODEL, DEFAULT_REMOTE_EMBEDDING_MODEL, isLocalEndpoint } from '../services/openAIProvider';
+
+interface AISettingsProps {
+  config: AIConfig;
+  onChange: (changes: Partial<AIConfig>) => void;
+}
+
+const AISettings: React.FC<AISettingsProps> = ({ config, onChange }) => {
+  // Text fields are edited locally and saved on blur, like the other settings
+  const [draft, setDraft] = useState(config);
+  useEffect(() => setDraft(config), [config]);
+
+  const inputClass = 'w-full text-sm border rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-300';
+  const field = (key: 'apiKey' | 'endpoint' | 'model' | 'embeddingModel') => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, [key]: e.target.value }),
+    onBlur: () => { if (draft[key] !== config[key]) onChange({ [key]: draft[key] }); }
+  });
+  const provider = AI_PROVIDERS.find(p => p.id === config.provider);
+
+  return (
+    <div className="p-4 border-b space-y-3">
+      <div className="flex justify-between items-center">
+        <div>
+          <span>AI Insights</span>
+          <p className="text-xs text-gray-400">{provider?.description}</p>
+        </div>
+        <select
+          className="border rounded-lg px-2 py-1 bg-white text-sm"
+          value={config.provider}
+          onChange={(e) => onChange({ provider: e.target.value as AIConfig['provider'] })}
+        >
+          {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+      </div>
+
+      {config.provider === 'openai' && (
+        <input type="url" placeholder={`Endpoint ${DEFAULT_OPENAI_ENDPOINT}`} className={inputClass} {...field('endpoint')} />
+      )}
+      {config.provider !== 'local' && (
+        <>
+          <input
+            type="password"
+            autoComplete="off"
+            placeholder={config.provider === 'gemini' ? 'Gemini API key' : 'API key (not needed for local servers)'}
+            className={inputClass}
+            {...field('apiKey')}
+          />
+          <input
+            type="text"
+            placeholder={`Model (default ${config.provider === 'gemini' ? DEFAULT_GEMINI_MODEL : DEFAULT_OPENAI_MODEL})`}
+            className={inputClass}
+            {...field('model')}
+          />
+          {config.provider === 'openai' && (
+            <input
+              type="text"
+              placeholder={`Embedding model for journal chat (default ${isLocalEndpoint(config.endpoint || DEFAULT_OPENAI_ENDPOINT) ? DEFAULT_LOCAL_EMBEDDING_MODEL : DEFAULT_REMOTE_EMBEDDING_MODEL})`}
+              className={inputClass}
+              {...field('embeddingModel')}
+            />
+          )}
+          <p className="text-[10px] text-gray-400">
+            Your key stays on this device. Recent entries are sent to the provider when you generate insights.
+          </p>
+        </>
+      )}
+      <div className="flex gap-4">
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          <input type="checkbox" checked={config.autoDaily} onChange={(e) => onChange({ autoDaily: e.target.checked })} />
+          Daily reflection
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          <input type="checkbox" checked={config.autoWeekly} onChange={(e) => onChange({ autoWeekly: e.target.checked })} />
+          Weekly reflection
+        </label>
+        {config.provider === 'gemini' && (
+          <label className="flex items-center gap-2 text-xs text-gray-500">
+            <input type="checkbox" checked={config.writingPrompts} onChange={(e) => onChange({ writingPrompts: e.target.checked })} />
+            Writing prompts
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AISettings;
@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AttachmentKind } from '../types';
+import { AttachmentError, MAX_RECORDING_SECONDS, compressPhoto, formatDuration, recordingType } from '../services/attachments';
+import { CameraIcon, MicrophoneIcon, StopIcon } from '@heroicons/react/24/outline';
+
+interface AttachmentControlsProps {
+  onAdd: (kind: AttachmentKind, blob: Blob, duration?: number) => Promise<void>;
+}
+
+interface Recording {
+  recorder: MediaRecorder;
+  startedAt: number;
+}
+
+// Buttons to take a photo (the camera on phones, a file picker elsewhere) and to record a voice memo
+const AttachmentControls: React.FC<AttachmentControlsProps> = ({ onAdd }) => {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const photoInput = useRef<HTMLInputElement>(null);
+  const canRecord = recordingType() !== null && !!navigator.mediaDevices?.getUserMedia;
+
+  const add = async (kind: AttachmentKind, blob: Blob, duration?: number) => {
+    setError(null);
+    try {
+      await onAdd(kind, blob, duration);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof AttachmentError ? err.message : `Could not save the ${kind === 'photo' ? 'photo' : 'recording'}.`);
+    }
+  };
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    for (const file of files) await add('photo', await compressPhoto(file));
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setError('Microphone access was denied. Allow it in your browser settings to record voice memos.');
+      return;
+    }
+    const type = recordingType();
+    const recorder = new MediaRecorder(stream, type ? { mimeType: type } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      setRecording(null);
+      const blob = new Blob(chunks, { type: recorder.mimeType || type || 'audio/webm' });
+      if (blob.size > 0) add('audio', blob, Math.round((Date.now() - startedAt) / 1000));
+    };
+    recorder.start();
+    setElapsed(0);
+    setRecording({ recorder, startedAt });
+  };
+
+  // Tick the timer and stop at the length limit
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => {
+      const seconds = Math.floor((Date.now() - recording.startedAt) / 1000);
+      setElapsed(seconds);
+      if (seconds >= MAX_RECORDING_SECONDS) recording.recorder.stop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Don't keep the microphone open after the editor closes
+  useEffect(() => () => {
+    if (recording?.recorder.state === 'recording') recording.recorder.stop();
+  }, [recording]);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        <input ref={photoInput} type="file" accept="image/*" capture="environment" multiple hidden onChange={handlePhoto} />
+        <button
+          type="button"
+          onClick={() => photoInput.current?.click()}
+          className="text-gray-400 hover:text-indigo-500 p-1"
+          title="Add a photo"
+        >
+          <CameraIcon className="h-5 w-5" />
+        </button>
+        {canRecord && (recording ? (
+          <button
+            type="button"
+            onClick={() => recording.recorder.stop()}
+            className="text-red-500 p-1 flex items-center gap-1 text-xs font-medium"
+            title="Stop recording"
+          >
+            <StopIcon className="h-5 w-5 animate-pulse" />
+            {formatDuration(elapsed)}
+          </button>
+        ) : (
+          <button type="button" onClick={startRecording} className="text-gray-400 hover:text-indigo-500 p-1" title="Record a voice memo">
+            <MicrophoneIcon className="h-5 w-5" />
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-[10px] text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default AttachmentControls;
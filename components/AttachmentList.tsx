@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Attachment } from '../types';
+import { attachmentPath, formatDuration } from '../services/attachments';
+import { dbService } from '../services/db';
+import { vault } from '../services/crypto';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove?: (attachment: Attachment) => void;
+}
+
+// Service worker URLs when one controls the page, otherwise blob URLs for as long as they're
+// shown. A worker from before attachments existed can't serve them, so a failed load also
+// switches to blob URLs. With encryption on the worker refuses them, and each attachment is
+// decrypted here instead.
+const useAttachmentUrls = (attachments: Attachment[]) => {
+  const [failed, setFailed] = useState(false);
+  const useBlobs = failed || !navigator.serviceWorker?.controller || vault.enabled;
+  const [blobUrls, setBlobUrls] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    if (!useBlobs) return;
+    let cancelled = false;
+    const urls = new Map<string, string>();
+    Promise.all(attachments.map(async attachment => {
+      try {
+        // Sealed ones are read again, as a passphrase change may have resealed them since
+        const blob = attachment.sealed ? await dbService.openAttachment(attachment.id) : attachment.blob;
+        if (blob && !cancelled) urls.set(attachment.id, URL.createObjectURL(blob));
+      } catch (err) {
+        console.error(err);
+      }
+    })).then(() => {
+      if (!cancelled) setBlobUrls(new Map(urls));
+    });
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [useBlobs, attachments.map(a => a.id).join()]);
+
+  const urlOf = (attachment: Attachment) => (useBlobs ? blobUrls.get(attachment.id) : attachmentPath(attachment.id));
+  return { urlOf, onError: () => setFailed(true) };
+};
+
+const stop = (e: React.MouseEvent) => e.stopPropagation();
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove }) => {
+  const { urlOf, onError } = useAttachmentUrls(attachments);
+  if (attachments.length === 0) return null;
+  const photos = attachments.filter(a => a.kind === 'photo');
+  const recordings = attachments.filter(a => a.kind === 'audio');
+
+  const removeButton = (attachment: Attachment) => onRemove && (
+    <button
+      type="button"
+      onClick={(e) => { stop(e); onRemove(attachment); }}
+      className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-0.5 hover:bg-red-500"
+      title="Remove"
+    >
+      <XMarkIcon className="h-3.5 w-3.5" />
+    </button>
+  );
+
+  return (
+    <div className="space-y-2" onClick={stop}>
+      {photos.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {photos.map(photo => (
+            <div key={photo.id} className="relative aspect-square rounded-xl overflow-hidden bg-gray-100">
+              {urlOf(photo) && (
+                <a href={urlOf(photo)} target="_blank" rel="noopener noreferrer">
+                  <img src={urlOf(photo)} alt="Attached photo" loading="lazy" onError={onError} className="w-full h-full object-cover" />
+                </a>
+              )}
+              {removeButton(photo)}
+            </div>
+          ))}
+        </div>
+      )}
+      {recordings.map(recording => (
+        <div key={recording.id} className="relative flex items-center gap-2 bg-gray-50 rounded-xl p-2 pr-8">
+          {urlOf(recording) && <audio controls preload="metadata" src={urlOf(recording)} onError={onError} className="flex-1 h-8" />}
+          {recording.duration !== undefined && <span className="text-[10px] text-gray-400">{formatDuration(recording.duration)}</span>}
+          {removeButton(recording)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { BackupError, ImportReport, exportHabitsCsv, exportJson, exportMarkdown, importFiles } from '../services/backup';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, FolderOpenIcon } from '@heroicons/react/24/outline';
+
+interface BackupSettingsProps {
+  onImported: () => void;
+}
+
+const BackupSettings: React.FC<BackupSettingsProps> = ({ onImported }) => {
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Files of an encrypted backup, held while asking for its passphrase
+  const [lockedFiles, setLockedFiles] = useState<File[] | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+  const folderInput = useRef<HTMLInputElement>(null);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof BackupError ? err.message : 'Something went wrong. Your journal was not changed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runImport = (files: File[], withPassphrase?: string) => run(async () => {
+    try {
+      setReport(await importFiles(files, withPassphrase));
+      setLockedFiles(null);
+      setPassphrase('');
+      onImported();
+    } catch (err) {
+      if (err instanceof BackupError && err.reason === 'passphrase') setLockedFiles(files);
+      throw err;
+    }
+  });
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from<File>(e.target.files) : [];
+    e.target.value = '';
+    if (files.length > 0) runImport(files);
+  };
+
+  const buttonClass = 'flex-1 flex items-center justify-center gap-1 bg-indigo-50 text-indigo-600 rounded-xl py-2 text-xs font-medium disabled:opacity-50';
+
+  return (
+    <div className="p-4 space-y-3">
+      <div>
+        <span>Backup & Restore</span>
+        <p className="text-xs text-gray-400">Everything lives only in this browser. Export regularly to keep a copy.</p>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => run(exportJson)} disabled={busy} className={buttonClass}>
+          <ArrowDownTrayIcon className="h-4 w-4" /> Backup
+        </button>
+        <button onClick={() => run(exportMarkdown)} disabled={busy} className={buttonClass}>
+          <ArrowDownTrayIcon className="h-4 w-4" /> Markdown
+        </button>
+        <button onClick={() => run(exportHabitsCsv)} disabled={busy} className={buttonClass}>
+          <ArrowDownTrayIcon className="h-4 w-4" /> Habits CSV
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => fileInput.current?.click()} disabled={busy} className={buttonClass}>
+          <ArrowUpTrayIcon className="h-4 w-4" /> Import file
+        </button>
+        <button onClick={() => folderInput.current?.click()} disabled={busy} className={buttonClass}>
+          <FolderOpenIcon className="h-4 w-4" /> Import folder
+        </button>
+        <input ref={fileInput} type="file" multiple accept=".json,.zip,.md,.markdown" className="hidden" onChange={handleFiles} />
+        <input
+          ref={folderInput}
+          type="file"
+          className="hidden"
+          onChange={handleFiles}
+          {...{ webkitdirectory: '' }}
+        />
+      </div>
+      <p className="text-[10px] text-gray-400">
+        Imports ZenMind backups and Markdown from Day One, Obsidian and similar apps. Entries are merged by id, so importing twice is safe.
+      </p>
+
+      {lockedFiles && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            runImport(lockedFiles, passphrase);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="password"
+            autoComplete="off"
+            placeholder="Backup passphrase"
+            className="flex-1 text-sm border rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-300"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          <button type="submit" disabled={busy || !passphrase} className="bg-indigo-600 text-white rounded-xl px-3 text-xs font-medium disabled:opacity-50">
+            Import
+          </button>
+        </form>
+      )}
+      {busy && <p className="text-xs text-gray-400">Working...</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {report && (
+        <div className="bg-gray-50 rounded-xl p-3 text-xs text-gray-600 space-y-2">
+          <p>
+            <strong>{report.added}</strong> added · <strong>{report.updated}</strong> updated · <strong>{report.unchanged}</strong> unchanged
+          </p>
+          {report.conflicts.length > 0 && (
+            <div>
+              <p className="font-bold text-amber-600">{report.conflicts.length} conflict{report.conflicts.length === 1 ? '' : 's'}</p>
+              <ul className="list-disc pl-4 space-y-1">
+                {report.conflicts.map(conflict => (
+                  <li key={`${conflict.store}:${conflict.id}`}>
+                    <span className="font-medium">{conflict.title}</span>: {conflict.resolution}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {report.skipped.length > 0 && (
+            <ul className="text-gray-400 list-disc pl-4">
+              {report.skipped.map(reason => <li key={reason}>Skipped {reason}</li>)}
+            </ul>
+          )}
+          <button onClick={() => setReport(null)} className="text-indigo-600 font-medium">Dismiss</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupSettings;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { CONFLICT_MARKERS, mergeNotes } from '../services/merge';
+import { Note, NoteConflict, NoteRevision } from '../types';
+import { useSettings } from './SettingsContext';
+import { XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface ConflictResolverProps {
+  conflict: NoteConflict;
+  onResolve: (resolved: Pick<Note, 'title' | 'content'>, source: NoteRevision['source']) => void;
+  onClose: () => void;
+}
+
+const ConflictResolver: React.FC<ConflictResolverProps> = ({ conflict, onResolve, onClose }) => {
+  const { dates } = useSettings();
+  const initial = mergeNotes(conflict.base, conflict.local, conflict.remote);
+  const [title, setTitle] = useState(initial.title);
+  const [content, setContent] = useState(initial.content);
+  const hasMarkers = [CONFLICT_MARKERS.local, CONFLICT_MARKERS.remote].some(marker => content.includes(marker));
+
+  const versions = [
+    { label: 'This device', note: conflict.local, source: 'local' as const },
+    { label: 'Other device', note: conflict.remote, source: 'remote' as const }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-t-3xl sm:rounded-3xl p-6 space-y-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <ExclamationTriangleIcon className="h-5 w-5 text-amber-500" />
+              Conflicting edits
+            </h2>
+            <p className="text-xs text-gray-400">This entry was changed on another device since it last synced.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {versions.map(({ label, note, source }) => (
+            <div key={label} className="border rounded-2xl p-4 space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{label}</span>
+                <span className="text-[10px] text-gray-400">
+                  {dates.dateTime(note.updatedAt)}
+                </span>
+              </div>
+              <h3 className="font-bold text-gray-800">{note.title}</h3>
+              <p className="text-gray-600 text-sm whitespace-pre-wrap">{note.content}</p>
+              <button
+                onClick={() => onResolve({ title: note.title, content: note.content }, source)}
+                className="w-full bg-indigo-50 text-indigo-600 rounded-xl py-2 text-sm font-medium"
+              >
+                Keep this version
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="border rounded-2xl p-4 space-y-3">
+          <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Merged</span>
+          <input
+            type="text"
+            className="w-full text-lg font-semibold focus:outline-none"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+          <textarea
+            rows={8}
+            className="w-full text-sm text-gray-600 font-mono focus:outline-none resize-none"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+          />
+          {hasMarkers && (
+            <p className="text-xs text-amber-600">Edit the sections between the conflict markers before saving.</p>
+          )}
+          <div className="flex justify-end">
+            <button
+              onClick={() => onResolve({ title, content }, 'merge')}
+              disabled={hasMarkers || !title.trim()}
+              className="bg-indigo-600 text-white px-6 py-2 rounded-xl font-medium hover:bg-indigo-700 transition disabled:opacity-50"
+            >
+              Save merged
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolver;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { VaultError, vault } from '../services/crypto';
+import { AUTO_LOCK_OPTIONS, changePassphrase, disableEncryption, enableEncryption } from '../services/encryption';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+
+interface EncryptionSettingsProps {
+  enabled: boolean;
+  autoLockMinutes: number;
+  onChangeAutoLock: (minutes: number) => void;
+}
+
+type Mode = 'idle' | 'enable' | 'change' | 'disable';
+
+const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({ enabled, autoLockMinutes, onChangeAutoLock }) => {
+  const [mode, setMode] = useState<Mode>('idle');
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [rekey, setRekey] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = (nextMode: Mode = 'idle') => {
+    setMode(nextMode);
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+    setRekey(false);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode !== 'disable' && next !== confirm) {
+      setError("The passphrases don't match.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      if (mode === 'enable') await enableEncryption(next);
+      if (mode === 'change') await changePassphrase(current, next, rekey);
+      if (mode === 'disable') await disableEncryption(current);
+      reset();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof VaultError ? err.message : 'Something went wrong. Nothing was changed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full text-sm border rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-300';
+  const linkClass = 'text-xs font-medium text-indigo-600 disabled:opacity-50';
+
+  return (
+    <div className="p-4 border-b space-y-3">
+      <div className="flex justify-between items-center">
+        <div>
+          <span>Encryption</span>
+          <p className="text-xs text-gray-400">
+            {enabled ? 'Entries are encrypted on this device and in sync' : 'Entries are stored as plain text'}
+          </p>
+        </div>
+        {enabled && (
+          <button onClick={() => vault.lock()} className="bg-indigo-50 text-indigo-600 p-2 rounded-xl" title="Lock now">
+            <LockClosedIcon className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+
+      {enabled && (
+        <label className="flex justify-between items-center text-sm text-gray-600">
+          Lock after inactivity
+          <select
+            className="border rounded-lg px-2 py-1 bg-white"
+            value={autoLockMinutes}
+            onChange={(e) => onChangeAutoLock(Number(e.target.value))}
+          >
+            {AUTO_LOCK_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes === 0 ? 'Never' : `${minutes} min`}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {mode === 'idle' ? (
+        <div className="flex gap-4">
+          {!enabled && <button onClick={() => reset('enable')} className={linkClass}>Turn on encryption</button>}
+          {enabled && <button onClick={() => reset('change')} className={linkClass}>Change passphrase</button>}
+          {enabled && <button onClick={() => reset('disable')} className="text-xs font-medium text-red-400">Turn off</button>}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          {mode !== 'enable' && (
+            <input type="password" autoComplete="current-password" placeholder="Current passphrase" className={inputClass} value={current} onChange={(e) => setCurrent(e.target.value)} />
+          )}
+          {mode !== 'disable' && (
+            <>
+              <input type="password" autoComplete="new-password" placeholder="New passphrase" className={inputClass} value={next} onChange={(e) => setNext(e.target.value)} />
+              <input type="password" autoComplete="new-password" placeholder="Repeat passphrase" className={inputClass} value={confirm} onChange={(e) => setConfirm(e.target.value)} />
+            </>
+          )}
+          {mode === 'change' && (
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+              <input type="checkbox" checked={rekey} onChange={(e) => setRekey(e.target.checked)} />
+              Also replace the encryption key and re-encrypt every entry
+            </label>
+          )}
+          {mode === 'enable' && (
+            <p className="text-[10px] text-gray-400">There is no way to recover your entries if you forget this passphrase.</p>
+          )}
+          {mode === 'disable' && (
+            <p className="text-[10px] text-gray-400">Entries will be decrypted and stored as plain text here and on your sync server.</p>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex gap-4">
+            <button type="submit" disabled={busy} className={linkClass}>
+              {busy ? 'Working...' : mode === 'enable' ? 'Encrypt journal' : mode === 'change' ? 'Change passphrase' : 'Decrypt journal'}
+            </button>
+            <button type="button" onClick={() => reset()} disabled={busy} className="text-xs text-gray-400">Cancel</button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default EncryptionSettings;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { EntryTemplate } from '../types';
+import { ArrowPathIcon, LightBulbIcon, PlusIcon } from '@heroicons/react/24/outline';
+
+interface EntryStartersProps {
+  prompt: string;
+  onNextPrompt: () => void;
+  onUsePrompt: () => void;
+  templates: EntryTemplate[];
+  onSelectTemplate: (template: EntryTemplate) => void;
+  onNewTemplate: () => void;
+}
+
+// Today's writing prompt and the templates, shown above the new-entry form
+const EntryStarters: React.FC<EntryStartersProps> = ({ prompt, onNextPrompt, onUsePrompt, templates, onSelectTemplate, onNewTemplate }) => (
+  <div className="space-y-2">
+    <div className="flex items-start gap-2 text-sm text-indigo-600">
+      <LightBulbIcon className="h-5 w-5 shrink-0" />
+      <button type="button" onClick={onUsePrompt} className="flex-1 text-left italic hover:underline" title="Write about this">
+        {prompt}
+      </button>
+      <button type="button" onClick={onNextPrompt} className="text-indigo-300 hover:text-indigo-600" title="Another prompt">
+        <ArrowPathIcon className="h-4 w-4" />
+      </button>
+    </div>
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {templates.map(template => (
+        <button
+          key={template.id}
+          type="button"
+          onClick={() => onSelectTemplate(template)}
+          className="shrink-0 bg-indigo-50 text-indigo-600 rounded-full px-3 py-1 text-xs font-medium hover:bg-indigo-100"
+        >
+          {template.name}
+        </button>
+      ))}
+      <button
+        type="button"
+        onClick={onNewTemplate}
+        className="shrink-0 border border-dashed border-indigo-200 text-indigo-400 rounded-full px-3 py-1 text-xs font-medium flex items-center gap-1 hover:text-indigo-600"
+      >
+        <PlusIcon className="h-3.5 w-3.5" />
+        Template
+      </button>
+    </div>
+  </div>
+);
+
+export default EntryStarters;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Habit } from '../types';
+import {
+  DayStatus,
+  RangeStats,
+  WEEKDAY_LABELS,
+  addDays,
+  computeStreaks,
+  daysBetween,
+  describeSchedule,
+  getDayStatus,
+  getMonthlyStats,
+  getWeeklyStats,
+  startOfWeek,
+  todayKey,
+  DEFAULT_SCHEDULE
+} from '../services/habitEngine';
+import { useSettings } from './SettingsContext';
+import { XMarkIcon, ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+
+interface HabitDetailProps {
+  habit: Habit;
+  onToggleDay: (day: string) => void;
+  onChangeReminder: (time: string | null) => void;
+  onClose: () => void;
+}
+
+const HEATMAP_WEEKS = 53;
+
+const HEATMAP_COLORS: Record<DayStatus, string> = {
+  done: 'bg-indigo-500',
+  skipped: 'bg-indigo-200',
+  missed: 'bg-gray-200',
+  rest: 'bg-gray-100',
+  untracked: 'bg-gray-100',
+  future: 'bg-transparent'
+};
+
+const CALENDAR_COLORS: Record<DayStatus, string> = {
+  done: 'bg-indigo-600 text-white',
+  skipped: 'bg-indigo-100 text-indigo-500',
+  missed: 'text-red-400',
+  rest: 'text-gray-400',
+  untracked: 'text-gray-400',
+  future: 'text-gray-200'
+};
+
+const formatRate = (stats: RangeStats) => stats.rate === null ? '–' : `${Math.round(stats.rate * 100)}%`;
+
+const RateBars: React.FC<{ stats: RangeStats[]; label: (stats: RangeStats) => string }> = ({ stats, label }) => (
+  <div className="flex items-end gap-2 h-28">
+    {stats.map(s => (
+      <div key={s.start} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+        <span className="text-[10px] text-gray-400">{formatRate(s)}</span>
+        <div className="w-full bg-indigo-500 rounded-t-md" style={{ height: `${(s.rate ?? 0) * 70}%` }} />
+        <span className="text-[10px] text-gray-500">{label(s)}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const HabitDetail: React.FC<HabitDetailProps> = ({ habit, onToggleDay, onChangeReminder, onClose }) => {
+  const { settings: { weekStartsOn }, dates } = useSettings();
+  const today = todayKey();
+  const [month, setMonth] = useState(today.slice(0, 7)); // YYYY-MM
+
+  const streaks = computeStreaks(habit, today, weekStartsOn);
+
+  // Month grid, padded to whole weeks
+  const firstOfMonth = `${month}-01`;
+  const [year, monthIndex] = month.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const gridStart = startOfWeek(firstOfMonth, weekStartsOn);
+  const gridLength = Math.ceil((daysBetween(gridStart, firstOfMonth) + daysInMonth) / 7) * 7;
+  const calendarDays = Array.from({ length: gridLength }, (_, i) => addDays(gridStart, i));
+  const weekdayHeaders = Array.from({ length: 7 }, (_, i) => WEEKDAY_LABELS[(i + weekStartsOn) % 7]);
+
+  const shiftMonth = (amount: number) => {
+    const date = new Date(Date.UTC(year, monthIndex - 1 + amount, 1));
+    setMonth(date.toISOString().slice(0, 7));
+  };
+
+  // Year heatmap: one column per week, oldest on the left
+  const heatmapStart = addDays(startOfWeek(today, weekStartsOn), -7 * (HEATMAP_WEEKS - 1));
+  const heatmapWeeks = Array.from({ length: HEATMAP_WEEKS }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => addDays(heatmapStart, w * 7 + d))
+  );
+
+  const weekly = getWeeklyStats(habit, 8, today, weekStartsOn);
+  const monthly = getMonthlyStats(habit, 6, today);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-t-3xl sm:rounded-3xl p-6 space-y-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold text-gray-800">{habit.name}</h2>
+            <p className="text-xs text-gray-400">{describeSchedule(habit.schedule ?? DEFAULT_SCHEDULE)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="bg-indigo-50 rounded-2xl p-3">
+            <div className="text-xl font-bold text-indigo-600">{streaks.current}</div>
+            <div className="text-[10px] text-indigo-400 uppercase font-bold">{streaks.unit === 'interval' ? 'In a row' : `${streaks.unit} streak`}</div>
+          </div>
+          <div className="bg-indigo-50 rounded-2xl p-3">
+            <div className="text-xl font-bold text-indigo-600">{streaks.longest}</div>
+            <div className="text-[10px] text-indigo-400 uppercase font-bold">Longest</div>
+          </div>
+          <div className="bg-indigo-50 rounded-2xl p-3">
+            <div className="text-xl font-bold text-indigo-600">{habit.completedDays.length}</div>
+            <div className="text-[10px] text-indigo-400 uppercase font-bold">Check-ins</div>
+          </div>
+        </div>
+
+        <label className="flex justify-between items-center text-sm text-gray-600">
+          Daily reminder
+          <input
+            type="time"
+            className="border rounded-lg px-2 py-1"
+            value={habit.reminderTime ?? ''}
+            onChange={(e) => onChangeReminder(e.target.value || null)}
+          />
+        </label>
+
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <button onClick={() => shiftMonth(-1)} className="text-gray-400 hover:text-indigo-600">
+              <ChevronLeftIcon className="h-5 w-5" />
+            </button>
+            <h3 className="text-sm font-bold text-gray-700">
+              {dates.format(Date.UTC(year, monthIndex - 1, 1), { month: 'long', year: 'numeric', timeZone: 'UTC' })}
+            </h3>
+            <button
+              onClick={() => shiftMonth(1)}
+              disabled={month >= today.slice(0, 7)}
+              className="text-gray-400 hover:text-indigo-600 disabled:opacity-30"
+            >
+              <ChevronRightIcon className="h-5 w-5" />
+            </button>
+          </div>
+          <div className="grid grid-cols-7 gap-1 text-center">
+            {weekdayHeaders.map(label => (
+              <span key={label} className="text-[10px] font-bold text-gray-400 uppercase">{label[0]}</span>
+            ))}
+            {calendarDays.map(day => {
+              const status = getDayStatus(habit, day, today);
+              const inMonth = day.startsWith(month);
+              return (
+                <button
+                  key={day}
+                  onClick={() => onToggleDay(day)}
+                  disabled={status === 'future' || !inMonth}
+                  className={`h-9 rounded-full text-xs font-medium transition ${inMonth ? CALENDAR_COLORS[status] : 'invisible'} ${
+                    day === today ? 'ring-2 ring-indigo-300' : ''
+                  }`}
+                >
+                  {Number(day.slice(8))}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[10px] text-gray-400 text-center">Tap a past day to add or remove a check-in.</p>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest">Last 12 Months</h3>
+          <div className="flex gap-[3px] overflow-x-auto pb-1">
+            {heatmapWeeks.map(week => (
+              <div key={week[0]} className="flex flex-col gap-[3px]">
+                {week.map(day => (
+                  <div
+                    key={day}
+                    title={day}
+                    className={`h-2.5 w-2.5 rounded-sm ${HEATMAP_COLORS[getDayStatus(habit, day, today)]}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest">Weekly Completion</h3>
+            <RateBars stats={weekly} label={s => `${Number(s.start.slice(8))}/${Number(s.start.slice(5, 7))}`} />
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest">Monthly Completion</h3>
+            <RateBars
+              stats={monthly}
+              label={s => dates.format(new Date(`${s.start}T00:00:00Z`), { month: 'short', timeZone: 'UTC' })}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HabitDetail;
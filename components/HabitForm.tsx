@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { HabitSchedule } from '../types';
+import { WEEKDAY_LABELS, todayKey } from '../services/habitEngine';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface HabitFormProps {
+  onSubmit: (name: string, schedule: HabitSchedule) => void;
+  onClose: () => void;
+}
+
+const SCHEDULE_TYPES: { type: HabitSchedule['type']; label: string }[] = [
+  { type: 'daily', label: 'Daily' },
+  { type: 'weekdays', label: 'Weekdays' },
+  { type: 'timesPerWeek', label: 'Per week' },
+  { type: 'everyNDays', label: 'Every N days' }
+];
+
+const HabitForm: React.FC<HabitFormProps> = ({ onSubmit, onClose }) => {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<HabitSchedule['type']>('daily');
+  const [days, setDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [count, setCount] = useState(3);
+  const [interval, setIntervalDays] = useState(2);
+
+  const buildSchedule = (): HabitSchedule => {
+    switch (type) {
+      case 'weekdays':
+        return { type, days };
+      case 'timesPerWeek':
+        return { type, count };
+      case 'everyNDays':
+        return { type, interval, startDate: todayKey() };
+      default:
+        return { type: 'daily' };
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || (type === 'weekdays' && days.length === 0)) return;
+    onSubmit(name.trim(), buildSchedule());
+  };
+
+  const toggleDay = (day: number) => {
+    setDays(days.includes(day) ? days.filter(d => d !== day) : [...days, day]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center">
+      <form onSubmit={handleSubmit} className="bg-white w-full max-w-md rounded-t-3xl sm:rounded-3xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">New Habit</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <input
+          type="text"
+          autoFocus
+          placeholder="Habit name..."
+          className="w-full text-lg font-semibold focus:outline-none"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+
+        <div className="grid grid-cols-4 gap-2">
+          {SCHEDULE_TYPES.map(option => (
+            <button
+              key={option.type}
+              type="button"
+              onClick={() => setType(option.type)}
+              className={`rounded-xl py-2 text-xs font-medium transition ${
+                type === option.type ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {type === 'weekdays' && (
+          <div className="flex justify-between">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleDay(day)}
+                className={`h-9 w-9 rounded-full text-xs font-bold transition ${
+                  days.includes(day) ? 'bg-indigo-600 text-white' : 'border-2 border-indigo-100 text-indigo-300'
+                }`}
+              >
+                {label[0]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {type === 'timesPerWeek' && (
+          <label className="flex items-center justify-between text-sm text-gray-600">
+            Times per week
+            <input
+              type="number"
+              min={1}
+              max={7}
+              className="w-16 border rounded-lg px-2 py-1 text-center"
+              value={count}
+              onChange={(e) => setCount(Math.min(7, Math.max(1, Number(e.target.value))))}
+            />
+          </label>
+        )}
+
+        {type === 'everyNDays' && (
+          <label className="flex items-center justify-between text-sm text-gray-600">
+            Every how many days
+            <input
+              type="number"
+              min={2}
+              max={30}
+              className="w-16 border rounded-lg px-2 py-1 text-center"
+              value={interval}
+              onChange={(e) => setIntervalDays(Math.min(30, Math.max(2, Number(e.target.value))))}
+            />
+          </label>
+        )}
+
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="w-full bg-indigo-600 text-white rounded-xl py-3 font-bold hover:bg-indigo-700 transition disabled:opacity-50"
+        >
+          Create Habit
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default HabitForm;
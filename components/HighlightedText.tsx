@@ -0,0 +1,22 @@
+import React from 'react';
+import { buildSnippet } from '../services/search';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+  snippet?: boolean; // trim long text to the area around the first match
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query, snippet = false }) => {
+  const parts = buildSnippet(text, query, snippet ? undefined : Infinity);
+  return (
+    <>
+      {parts.map((part, i) => part.match
+        ? <mark key={i} className="bg-yellow-100 text-gray-900 rounded px-0.5">{part.text}</mark>
+        : <React.Fragment key={i}>{part.text}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatCitation, ChatMessage, Note } from '../types';
+import { InsightProvider } from '../services/insightProvider';
+import { askJournal } from '../services/journalChat';
+import { AI_ERROR_ACTIONS, toAIError } from '../services/aiErrors';
+import { useSettings } from './SettingsContext';
+import { ArrowPathIcon, PaperAirplaneIcon, StopIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface JournalChatProps {
+  messages: ChatMessage[];
+  onMessagesChange: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  notes: Note[];
+  provider: InsightProvider;
+  isOnline: boolean;
+  onOpenNote: (id: string) => void;
+}
+
+const EXAMPLES = ['When did I last feel this stressed?', 'What made me happy this month?', 'How has my sleep been lately?'];
+
+// Answer text with its [n] markers turned into links to the cited entries
+const AnswerText: React.FC<{ text: string; citations: ChatCitation[]; onOpenNote: (id: string) => void }> = ({ text, citations, onOpenNote }) => (
+  <>
+    {text.split(/(\[\d+\])/g).map((part, i) => {
+      const citation = citations.find(c => `[${c.index}]` === part);
+      if (!citation) return <React.Fragment key={i}>{part}</React.Fragment>;
+      return (
+        <button key={i} onClick={() => onOpenNote(citation.noteId)} className="text-indigo-500 font-bold text-xs align-super hover:underline" title={citation.title}>
+          {part}
+        </button>
+      );
+    })}
+  </>
+);
+
+const JournalChat: React.FC<JournalChatProps> = ({ messages, onMessagesChange, notes, provider, isOnline, onOpenNote }) => {
+  const { dates } = useSettings();
+  const [question, setQuestion] = useState('');
+  const controller = useRef<AbortController | null>(null);
+  const bottom = useRef<HTMLDivElement>(null);
+  const busy = messages.some(m => m.pending);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ block: 'end' });
+  }, [messages]);
+
+  // Stop streaming when the chat is closed
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const updateAnswer = (id: string, changes: Partial<ChatMessage>) =>
+    onMessagesChange(current => current.map(m => (m.id === id ? { ...m, ...changes } : m)));
+
+  const ask = async (text: string, history = messages) => {
+    const trimmed = text.trim();
+    if (!trimmed || busy) return;
+    const answerId = crypto.randomUUID();
+    onMessagesChange([
+      ...history,
+      { id: crypto.randomUUID(), role: 'user', text: trimmed, citations: [] },
+      { id: answerId, role: 'assistant', text: '', citations: [], pending: true }
+    ]);
+    setQuestion('');
+
+    controller.current = new AbortController();
+    try {
+      const { text: answer, citations } = await askJournal({
+        question: trimmed,
+        history,
+        notes,
+        provider,
+        isOnline,
+        signal: controller.current.signal,
+        onText: (partial) => updateAnswer(answerId, { text: partial })
+      });
+      updateAnswer(answerId, { text: answer, citations, pending: false });
+    } catch (err) {
+      if (controller.current?.signal.aborted) {
+        onMessagesChange(current => current.map(m => (m.id === answerId ? { ...m, text: m.text || 'Stopped.', pending: false } : m)));
+      } else {
+        console.error(err);
+        const error = toAIError(err);
+        updateAnswer(answerId, { text: `${error.message} ${AI_ERROR_ACTIONS[error.reason]}`, citations: [], pending: false, failed: true });
+      }
+    } finally {
+      controller.current = null;
+    }
+  };
+
+  // Asks a failed question again in place of the failed exchange
+  const retry = (failedId: string) => {
+    const index = messages.findIndex(m => m.id === failedId);
+    const question = messages[index - 1];
+    if (question?.role === 'user') ask(question.text, messages.slice(0, index - 1));
+  };
+
+  return (
+    <div className="space-y-4">
+      {messages.length === 0 ? (
+        <div className="text-center py-6 space-y-3">
+          <p className="text-sm text-gray-400">Ask anything about your journal. Answers cite the entries they come from.</p>
+          <div className="flex flex-wrap gap-2 justify-center">
+            {EXAMPLES.map(example => (
+              <button key={example} onClick={() => ask(example)} className="text-xs bg-indigo-50 text-indigo-600 px-3 py-1.5 rounded-full hover:bg-indigo-100">
+                {example}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {messages.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm whitespace-pre-wrap ${
+                message.role === 'user' ? 'bg-indigo-600 text-white'
+                  : message.failed ? 'bg-red-50 border border-red-100 text-red-600' : 'bg-white border text-gray-700'
+              }`}>
+                {message.role === 'assistant' && !message.text && message.pending ? (
+                  <ArrowPathIcon className="h-4 w-4 animate-spin text-indigo-400" />
+                ) : (
+                  <AnswerText text={message.text} citations={message.citations} onOpenNote={onOpenNote} />
+                )}
+                {message.failed && !busy && (
+                  <button onClick={() => retry(message.id)} className="block mt-2 text-xs font-bold text-red-600 hover:underline">
+                    Try again
+                  </button>
+                )}
+                {message.citations.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-3 whitespace-normal">
+                    {message.citations.map(citation => (
+                      <button
+                        key={citation.index}
+                        onClick={() => onOpenNote(citation.noteId)}
+                        className="text-[10px] font-medium bg-indigo-50 text-indigo-500 px-2 py-0.5 rounded-full hover:bg-indigo-100"
+                      >
+                        [{citation.index}] {dates.day(citation.day)}{citation.title ? ` · ${citation.title}` : ''}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          <div ref={bottom} />
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); ask(question); }}
+        className="flex gap-2 items-center bg-white border rounded-2xl p-2"
+      >
+        <input
+          type="text"
+          placeholder="Ask your journal..."
+          className="flex-1 px-2 py-1 text-sm focus:outline-none"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+        />
+        {busy ? (
+          <button type="button" onClick={() => controller.current?.abort()} className="text-gray-400 hover:text-red-500 p-1" title="Stop">
+            <StopIcon className="h-5 w-5" />
+          </button>
+        ) : (
+          <button type="submit" disabled={!question.trim()} className="text-indigo-600 p-1 disabled:opacity-30" title="Ask">
+            <PaperAirplaneIcon className="h-5 w-5" />
+          </button>
+        )}
+        {messages.length > 0 && !busy && (
+          <button type="button" onClick={() => onMessagesChange([])} className="text-gray-300 hover:text-red-500 p-1" title="Clear conversation">
+            <TrashIcon className="h-5 w-5" />
+          </button>
+        )}
+      </form>
+      {provider.requiresNetwork && !isOnline && (
+        <p className="text-[10px] text-gray-400 text-center">You're offline, so answers list the matching entries instead of a written reply.</p>
+      )}
+    </div>
+  );
+};
+
+export default JournalChat;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Journal } from '../types';
+import { JOURNAL_COLORS, JOURNAL_ICONS } from '../services/journals';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface JournalFormProps {
+  journal: Journal;
+  isNew: boolean;
+  defaultName: string; // Where the entries go if this journal is deleted
+  onSave: (journal: Journal) => void;
+  onDelete?: () => void; // Absent while the journal is new, and for the default journal
+  onClose: () => void;
+}
+
+// Creates or renames a journal and picks its color and icon
+const JournalForm: React.FC<JournalFormProps> = ({ journal, isNew, defaultName, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState(journal);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const name = draft.name.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name) onSave({ ...draft, name });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center">
+      <form onSubmit={handleSubmit} className="bg-white w-full max-w-md rounded-t-3xl sm:rounded-3xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">{isNew ? 'New Journal' : 'Edit Journal'}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <input
+          type="text"
+          autoFocus
+          placeholder="Journal name, e.g. Work log"
+          className="w-full text-lg font-semibold focus:outline-none"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        />
+
+        <div className="space-y-2">
+          <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Color</label>
+          <div className="flex gap-2">
+            {JOURNAL_COLORS.map(color => (
+              <button
+                key={color.id}
+                type="button"
+                onClick={() => setDraft({ ...draft, color: color.id })}
+                className={`h-8 w-8 rounded-full ${color.dot} transition ${draft.color === color.id ? 'ring-2 ring-offset-2 ring-gray-400' : ''}`}
+                title={color.id}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">Icon</label>
+          <div className="flex flex-wrap gap-2">
+            {JOURNAL_ICONS.map(icon => (
+              <button
+                key={icon}
+                type="button"
+                onClick={() => setDraft({ ...draft, icon })}
+                className={`h-10 w-10 rounded-xl text-lg transition ${draft.icon === icon ? 'bg-indigo-100' : 'bg-gray-50'}`}
+              >
+                {icon}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {confirmDelete && (
+          <p className="text-xs text-red-500">
+            The journal is removed on every synced device. Its entries are kept and move to {defaultName}.
+          </p>
+        )}
+
+        <div className="flex gap-3">
+          {onDelete && (
+            <button
+              type="button"
+              onClick={confirmDelete ? onDelete : () => setConfirmDelete(true)}
+              className="px-4 rounded-xl bg-red-50 text-red-500 font-medium text-sm"
+            >
+              {confirmDelete ? 'Delete journal' : 'Delete'}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!name}
+            className="flex-1 bg-indigo-600 text-white rounded-xl py-3 font-bold hover:bg-indigo-700 transition disabled:opacity-50"
+          >
+            Save Journal
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default JournalForm;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Journal } from '../types';
+import { journalColor } from '../services/journals';
+import { CheckIcon, ChevronDownIcon, PencilIcon, PlusIcon } from '@heroicons/react/24/outline';
+
+interface JournalSwitcherProps {
+  journals: Journal[];
+  active: Journal;
+  counts: Record<string, number>; // Entries per journal id
+  onSelect: (id: string) => void;
+  onEdit: (journal: Journal) => void;
+  onNew: () => void;
+}
+
+// Header menu for choosing the journal that is shown and written to
+const JournalSwitcher: React.FC<JournalSwitcherProps> = ({ journals, active, counts, onSelect, onEdit, onNew }) => {
+  const [open, setOpen] = useState(false);
+
+  const choose = (run: () => void) => () => {
+    setOpen(false);
+    run();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 text-xs font-medium ${journalColor(active.color).text}`}
+      >
+        <span>{active.icon}</span>
+        {active.name}
+        <ChevronDownIcon className="h-3 w-3" />
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute left-0 mt-2 w-64 bg-white border rounded-2xl shadow-lg p-1 z-50">
+            {journals.map(journal => (
+              <div key={journal.id} className="flex items-center rounded-xl hover:bg-gray-50">
+                <button onClick={choose(() => onSelect(journal.id))} className="flex-1 flex items-center gap-2 px-3 py-2 text-sm text-left">
+                  <span className={`h-2 w-2 rounded-full ${journalColor(journal.color).dot}`} />
+                  <span>{journal.icon}</span>
+                  <span className="flex-1 truncate text-gray-700">{journal.name}</span>
+                  <span className="text-xs text-gray-400">{counts[journal.id] ?? 0}</span>
+                  {journal.id === active.id && <CheckIcon className="h-4 w-4 text-indigo-600" />}
+                </button>
+                <button onClick={choose(() => onEdit(journal))} className="p-2 text-gray-300 hover:text-indigo-500" title="Edit journal">
+                  <PencilIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={choose(onNew)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-indigo-600 font-medium rounded-xl hover:bg-indigo-50"
+            >
+              <PlusIcon className="h-4 w-4" />
+              New journal
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JournalSwitcher;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { VaultError } from '../services/crypto';
+import { unlockJournal } from '../services/encryption';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+
+const LockScreen: React.FC = () => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setUnlocking(true);
+    setError(null);
+    try {
+      await unlockJournal(passphrase);
+    } catch (err) {
+      setError(err instanceof VaultError ? err.message : 'Could not unlock your journal.');
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-6">
+      <form onSubmit={handleUnlock} className="bg-white rounded-3xl border p-8 w-full max-w-sm text-center space-y-4">
+        <LockClosedIcon className="h-12 w-12 mx-auto text-indigo-500" />
+        <h1 className="text-lg font-bold text-gray-800">Journal locked</h1>
+        <p className="text-sm text-gray-500">Enter your passphrase to decrypt your entries on this device.</p>
+        <input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          placeholder="Passphrase"
+          className="w-full border rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-300"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || unlocking}
+          className="w-full bg-indigo-600 text-white py-2 rounded-xl font-medium hover:bg-indigo-700 transition disabled:opacity-50"
+        >
+          {unlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
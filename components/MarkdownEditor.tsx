@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { MarkdownFormat, TextEdit, applyFormat, continueList } from '../services/markdown';
+import MarkdownView from './MarkdownView';
+import { EyeIcon, PencilIcon } from '@heroicons/react/24/outline';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  minRows?: number;
+  className?: string;
+}
+
+const TOOLS: { format: MarkdownFormat; label: string; title: string }[] = [
+  { format: 'heading', label: 'H', title: 'Heading' },
+  { format: 'bold', label: 'B', title: 'Bold' },
+  { format: 'italic', label: 'I', title: 'Italic' },
+  { format: 'list', label: '•', title: 'Bulleted list' },
+  { format: 'checklist', label: '☐', title: 'Checklist' },
+  { format: 'link', label: '🔗', title: 'Link' }
+];
+
+// A textarea with a Markdown toolbar and a preview. Lists continue on Enter.
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ value, onChange, placeholder, minRows = 3, className = '' }) => {
+  const [preview, setPreview] = useState(false);
+  const textarea = useRef<HTMLTextAreaElement>(null);
+
+  const apply = (edit: TextEdit) => {
+    onChange(edit.value);
+    // Restore the selection once React has rendered the new value
+    requestAnimationFrame(() => {
+      textarea.current?.focus();
+      textarea.current?.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const current = (): TextEdit => ({
+    value,
+    selectionStart: textarea.current?.selectionStart ?? value.length,
+    selectionEnd: textarea.current?.selectionEnd ?? value.length
+  });
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Enter' || e.shiftKey || e.nativeEvent.isComposing) return;
+    const edit = continueList(current());
+    if (!edit) return;
+    e.preventDefault();
+    apply(edit);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1 text-gray-400">
+        {!preview && TOOLS.map(tool => (
+          <button
+            key={tool.format}
+            type="button"
+            title={tool.title}
+            onClick={() => apply(applyFormat(current(), tool.format))}
+            className={`w-7 h-7 rounded-lg text-xs hover:bg-gray-100 hover:text-gray-600 ${tool.format === 'bold' ? 'font-bold' : tool.format === 'italic' ? 'italic' : ''}`}
+          >
+            {tool.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setPreview(!preview)}
+          className="ml-auto flex items-center gap-1 text-[10px] uppercase font-bold hover:text-indigo-500"
+        >
+          {preview ? <PencilIcon className="h-3.5 w-3.5" /> : <EyeIcon className="h-3.5 w-3.5" />}
+          {preview ? 'Write' : 'Preview'}
+        </button>
+      </div>
+      {preview ? (
+        <div className={`text-sm text-gray-600 min-h-[4rem] ${className}`}>
+          {value.trim() ? <MarkdownView text={value} /> : <p className="text-gray-300">Nothing to preview</p>}
+        </div>
+      ) : (
+        <textarea
+          ref={textarea}
+          placeholder={placeholder}
+          rows={Math.max(minRows, value.split('\n').length)}
+          className={`w-full focus:outline-none resize-none ${className}`}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MarkdownEditor;
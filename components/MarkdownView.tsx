@@ -0,0 +1,79 @@
+import React from 'react';
+import { Inline, parseInline, parseMarkdown } from '../services/markdown';
+
+interface MarkdownViewProps {
+  text: string;
+  onToggleChecklist?: (line: number) => void;
+}
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-semibold'];
+
+// Clicks inside a card open the editor, except on links and checkboxes
+const stop = (e: React.MouseEvent) => e.stopPropagation();
+
+const InlineText: React.FC<{ text: string }> = ({ text }) => <>{parseInline(text).map(renderInline)}</>;
+
+const renderInline = (node: Inline, key: number): React.ReactNode => {
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={key}>{node.text}</React.Fragment>;
+    case 'strong':
+      return <strong key={key} className="font-semibold text-gray-800">{node.children.map(renderInline)}</strong>;
+    case 'em':
+      return <em key={key}>{node.children.map(renderInline)}</em>;
+    case 'code':
+      return <code key={key} className="bg-gray-100 rounded px-1 text-[0.9em]">{node.text}</code>;
+    case 'link':
+      return (
+        <a key={key} href={node.href} target="_blank" rel="noopener noreferrer" onClick={stop} className="text-indigo-500 underline">
+          {node.children.map(renderInline)}
+        </a>
+      );
+  }
+};
+
+const MarkdownView: React.FC<MarkdownViewProps> = ({ text, onToggleChecklist }) => (
+  <div className="space-y-2">
+    {parseMarkdown(text).map((block, i) => {
+      switch (block.type) {
+        case 'heading': {
+          const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+          return <Tag key={i} className={`${HEADING_CLASSES[block.level - 1]} text-gray-800`}><InlineText text={block.text} /></Tag>;
+        }
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          const checklist = block.items.every(item => item.checked !== undefined);
+          return (
+            <List key={i} className={checklist ? 'space-y-1' : `pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map(item => (
+                <li key={item.line} className={item.checked !== undefined ? 'flex items-start gap-2 list-none' : ''}>
+                  {item.checked !== undefined && (
+                    <input
+                      type="checkbox"
+                      className="mt-1 accent-indigo-600"
+                      checked={item.checked}
+                      disabled={!onToggleChecklist}
+                      onClick={stop}
+                      onChange={() => onToggleChecklist?.(item.line)}
+                    />
+                  )}
+                  <span className={item.checked ? 'line-through text-gray-400' : ''}><InlineText text={item.text} /></span>
+                </li>
+              ))}
+            </List>
+          );
+        }
+        case 'quote':
+          return <blockquote key={i} className="border-l-2 border-indigo-200 pl-3 text-gray-500 italic whitespace-pre-wrap"><InlineText text={block.text} /></blockquote>;
+        case 'code':
+          return <pre key={i} className="bg-gray-50 rounded-lg p-2 text-xs overflow-x-auto">{block.text}</pre>;
+        case 'rule':
+          return <hr key={i} className="border-gray-100" />;
+        case 'paragraph':
+          return <p key={i} className="whitespace-pre-wrap"><InlineText text={block.text} /></p>;
+      }
+    })}
+  </div>
+);
+
+export default MarkdownView;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { EMOTIONS, MOOD_LEVELS, moodLevel, suggestMood } from '../services/mood';
+
+interface MoodPickerProps {
+  mood?: number;
+  emotions: string[];
+  text: string; // Title and content, for the suggestion
+  onChange: (changes: { mood?: number; emotions: string[] }) => void;
+}
+
+// Five faces and emotion chips. Until a mood is picked, one is suggested from the text.
+const MoodPicker: React.FC<MoodPickerProps> = ({ mood, emotions, text, onChange }) => {
+  const suggestion = mood === undefined ? suggestMood(text) : null;
+  const suggested = moodLevel(suggestion?.mood);
+  const choices = [...EMOTIONS, ...emotions.filter(e => !EMOTIONS.includes(e))];
+
+  const toggleEmotion = (emotion: string) =>
+    onChange({ mood, emotions: emotions.includes(emotion) ? emotions.filter(e => e !== emotion) : [...emotions, emotion] });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        {MOOD_LEVELS.map(level => (
+          <button
+            key={level.value}
+            type="button"
+            title={level.label}
+            onClick={() => onChange({ mood: mood === level.value ? undefined : level.value, emotions })}
+            className={`text-xl rounded-full w-8 h-8 flex items-center justify-center transition ${
+              mood === level.value ? 'bg-indigo-100 scale-110' : 'opacity-40 hover:opacity-100'
+            }`}
+          >
+            {level.emoji}
+          </button>
+        ))}
+        {suggestion && suggested && (
+          <button
+            type="button"
+            onClick={() => onChange({ mood: suggestion.mood, emotions: Array.from(new Set([...emotions, ...suggestion.emotions])) })}
+            className="ml-2 text-[10px] text-indigo-500 bg-indigo-50 px-2 py-1 rounded-full hover:bg-indigo-100"
+          >
+            Suggested: {suggested.emoji} {suggested.label}{suggestion.emotions.length > 0 ? `, ${suggestion.emotions.join(', ')}` : ''}
+          </button>
+        )}
+      </div>
+      {(mood !== undefined || emotions.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {choices.map(emotion => (
+            <button
+              key={emotion}
+              type="button"
+              onClick={() => toggleEmotion(emotion)}
+              className={`text-[10px] font-medium px-2 py-0.5 rounded-full transition ${
+                emotions.includes(emotion) ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+              }`}
+            >
+              {emotion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MoodPicker;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Habit, Note } from '../types';
+import { MOOD_LEVELS, dailyMoods, emotionCounts, habitMoods, lastDays, moodLevel } from '../services/mood';
+import { toDayKey, todayKey } from '../services/habitEngine';
+import { ChartBarIcon } from '@heroicons/react/24/outline';
+
+interface MoodTrendsProps {
+  notes: Note[];
+  habits: Habit[];
+  onOpenNote: (id: string) => void;
+}
+
+const RANGES = [30, 90];
+const CHART_HEIGHT = 100;
+const MIN_DAYS = 2; // On each side before a habit is compared
+
+// Chart coordinates: x is the day's index, y puts mood 5 at the top and 1 at the bottom
+const moodY = (mood: number) => CHART_HEIGHT - 10 - (mood - 1) * 20;
+
+const formatMood = (mood: number | null) => (mood === null ? '–' : mood.toFixed(1));
+
+// Mood over the last weeks with each habit's check-ins underneath on the same days,
+// and the average mood on days with and without each habit.
+const MoodTrends: React.FC<MoodTrendsProps> = ({ notes, habits, onOpenNote }) => {
+  const [range, setRange] = useState(RANGES[0]);
+  const days = lastDays(todayKey(), range);
+  const dayWidth = range > 30 ? 4 : 10;
+  const width = days.length * dayWidth;
+  const x = (index: number) => index * dayWidth + dayWidth / 2;
+
+  const inRange = notes.filter(note => toDayKey(new Date(note.createdAt)) >= days[0]);
+  const moods = dailyMoods(inRange);
+  const byDay = new Map(moods.map(m => [m.day, m]));
+  const points = days.map((day, i) => ({ day, i, mood: byDay.get(day) })).filter(p => p.mood);
+  const rated = moods.filter(m => !m.estimated);
+  const average = moods.length > 0 ? moods.reduce((sum, m) => sum + m.mood, 0) / moods.length : null;
+
+  const comparisons = habitMoods(habits, moods)
+    .map(h => ({ ...h, difference: h.daysWith >= MIN_DAYS && h.daysWithout >= MIN_DAYS ? h.withHabit! - h.without! : null }))
+    .sort((a, b) => (b.difference ?? -Infinity) - (a.difference ?? -Infinity));
+  const emotions = emotionCounts(inRange).slice(0, 8);
+
+  const openDay = (day: string) => {
+    const latest = inRange.filter(note => toDayKey(new Date(note.createdAt)) === day).sort((a, b) => b.createdAt - a.createdAt)[0];
+    if (latest) onOpenNote(latest.id);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800">Mood & Habits</h2>
+        <div className="flex bg-white border rounded-xl p-1">
+          {RANGES.map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition ${range === r ? 'bg-indigo-600 text-white' : 'text-gray-500'}`}
+            >
+              {r} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {moods.length === 0 ? (
+        <div className="text-center py-12 text-gray-400">
+          <ChartBarIcon className="h-12 w-12 mx-auto mb-2 opacity-20" />
+          <p>Pick a mood when you write an entry to see how it changes over time.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-indigo-50 rounded-2xl p-3">
+              <div className="text-xl font-bold text-indigo-600">{moodLevel(Math.round(average!))?.emoji} {formatMood(average)}</div>
+              <div className="text-[10px] text-indigo-400 uppercase font-bold">Average mood</div>
+            </div>
+            <div className="bg-indigo-50 rounded-2xl p-3">
+              <div className="text-xl font-bold text-indigo-600">{rated.length}</div>
+              <div className="text-[10px] text-indigo-400 uppercase font-bold">Days rated</div>
+            </div>
+            <div className="bg-indigo-50 rounded-2xl p-3">
+              <div className="text-xl font-bold text-indigo-600">{moods.length - rated.length}</div>
+              <div className="text-[10px] text-indigo-400 uppercase font-bold">Estimated</div>
+            </div>
+          </div>
+
+          <div className="bg-white border rounded-2xl p-4 space-y-2">
+            <div className="flex gap-2">
+              <div className="w-16 flex flex-col justify-between items-end text-xs py-1">
+                {[...MOOD_LEVELS].reverse().map(level => <span key={level.value} title={level.label}>{level.emoji}</span>)}
+              </div>
+              <svg viewBox={`0 0 ${width} ${CHART_HEIGHT}`} className="flex-1 w-full">
+                {MOOD_LEVELS.map(level => (
+                  <line key={level.value} x1={0} x2={width} y1={moodY(level.value)} y2={moodY(level.value)} stroke="#f3f4f6" strokeWidth={0.5} />
+                ))}
+                <polyline
+                  points={points.map(p => `${x(p.i)},${moodY(p.mood!.mood)}`).join(' ')}
+                  fill="none"
+                  stroke="#818cf8"
+                  strokeWidth={1}
+                  strokeLinejoin="round"
+                />
+                {points.map(p => (
+                  <circle
+                    key={p.day}
+                    cx={x(p.i)}
+                    cy={moodY(p.mood!.mood)}
+                    r={Math.min(3, dayWidth / 2)}
+                    fill={p.mood!.estimated ? '#ffffff' : '#4f46e5'}
+                    stroke="#4f46e5"
+                    strokeWidth={0.75}
+                    className="cursor-pointer"
+                    onClick={() => openDay(p.day)}
+                  >
+                    <title>{`${p.day}: ${p.mood!.mood.toFixed(1)}${p.mood!.estimated ? ' (estimated from the text)' : ''}`}</title>
+                  </circle>
+                ))}
+              </svg>
+            </div>
+            {habits.map(habit => {
+              const done = new Set(habit.completedDays);
+              return (
+                <div key={habit.id} className="flex gap-2 items-center">
+                  <span className="w-16 text-[10px] text-gray-500 text-right truncate" title={habit.name}>{habit.name}</span>
+                  <svg viewBox={`0 0 ${width} 4`} preserveAspectRatio="none" className="flex-1 w-full h-2">
+                    {days.map((day, i) => (
+                      <rect key={day} x={i * dayWidth + 0.5} y={0} width={dayWidth - 1} height={4} fill={done.has(day) ? '#6366f1' : '#f3f4f6'}>
+                        <title>{`${habit.name}, ${day}`}</title>
+                      </rect>
+                    ))}
+                  </svg>
+                </div>
+              );
+            })}
+            <p className="text-[10px] text-gray-400 text-center">
+              Filled dots are moods you picked, hollow ones are estimated from the entry's words. Tap a dot to open that day.
+            </p>
+          </div>
+
+          {habits.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider">Mood with each habit</h3>
+              {comparisons.map(({ habit, withHabit, without, daysWith, daysWithout, difference }) => (
+                <div key={habit.id} className="bg-white border rounded-2xl p-4 flex justify-between items-center">
+                  <div>
+                    <div className="font-medium text-gray-800">{habit.name}</div>
+                    <div className="text-xs text-gray-400">
+                      {difference === null
+                        ? `Not enough days yet (${daysWith} with, ${daysWithout} without)`
+                        : `${formatMood(withHabit)} on ${daysWith} days with it, ${formatMood(without)} on ${daysWithout} without`}
+                    </div>
+                  </div>
+                  {difference !== null && (
+                    <span className={`text-sm font-bold ${difference > 0 ? 'text-green-500' : difference < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                      {difference > 0 ? '+' : ''}{difference.toFixed(1)}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {emotions.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider">Most felt</h3>
+              <div className="flex flex-wrap gap-2">
+                {emotions.map(([emotion, count]) => (
+                  <span key={emotion} className="text-xs font-medium bg-amber-50 text-amber-600 px-3 py-1 rounded-full">
+                    {emotion} · {count}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MoodTrends;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Attachment, AttachmentKind, Journal, Note, NoteConflict } from '../types';
+import { moodLevel } from '../services/mood';
+import { toggleChecklistItem } from '../services/markdown';
+import { useSettings } from './SettingsContext';
+import NoteEditor from './NoteEditor';
+import HighlightedText from './HighlightedText';
+import MarkdownView from './MarkdownView';
+import AttachmentList from './AttachmentList';
+import { ClockIcon, ExclamationTriangleIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface NoteCardProps {
+  note: Note;
+  attachments: Attachment[];
+  journals: Journal[];
+  conflict?: NoteConflict;
+  query: string; // Highlighted in the title and text
+  editing: boolean;
+  onEdit: () => void;
+  onClose: () => void;
+  onSave: (note: Note) => Promise<Note>;
+  onDelete: () => void;
+  onShowHistory: () => void;
+  onShowConflict: (conflict: NoteConflict) => void;
+  onAddAttachment: (kind: AttachmentKind, blob: Blob, duration?: number) => Promise<void>;
+  onRemoveAttachment: (attachment: Attachment) => void;
+}
+
+// One entry in the journal list; tapping it opens the inline editor
+const NoteCard: React.FC<NoteCardProps> = ({
+  note, attachments, journals, conflict, query, editing,
+  onEdit, onClose, onSave, onDelete, onShowHistory, onShowConflict, onAddAttachment, onRemoveAttachment
+}) => {
+  const { dates } = useSettings();
+  const mood = note.mood !== undefined ? moodLevel(note.mood) : undefined;
+
+  return (
+    <div id={`note-${note.id}`} className="bg-white p-5 rounded-2xl border shadow-sm relative group">
+      <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition">
+        <button onClick={onShowHistory} className="text-gray-300 hover:text-indigo-500">
+          <ClockIcon className="h-5 w-5" />
+        </button>
+        <button onClick={onDelete} className="text-gray-300 hover:text-red-500">
+          <TrashIcon className="h-5 w-5" />
+        </button>
+      </div>
+      <div className="text-xs text-indigo-400 font-medium mb-1 flex items-center gap-2">
+        {dates.date(note.createdAt)}
+        {conflict && (
+          <button onClick={() => onShowConflict(conflict)} className="text-amber-500 flex items-center gap-1">
+            <ExclamationTriangleIcon className="h-4 w-4" />
+            Conflict
+          </button>
+        )}
+      </div>
+      {editing ? (
+        <NoteEditor
+          note={note}
+          attachments={attachments}
+          journals={journals}
+          onSave={onSave}
+          onAddAttachment={onAddAttachment}
+          onRemoveAttachment={onRemoveAttachment}
+          onClose={onClose}
+        />
+      ) : (
+        <div onClick={onEdit} className="cursor-text">
+          <h3 className="font-bold text-gray-800 mb-2">
+            {mood && <span className="mr-2" title={mood.label}>{mood.emoji}</span>}
+            <HighlightedText text={note.title} query={query} />
+          </h3>
+          {query.trim() ? (
+            <p className="text-gray-600 text-sm whitespace-pre-wrap">
+              <HighlightedText text={note.content} query={query} snippet />
+            </p>
+          ) : (
+            <div className="text-gray-600 text-sm">
+              <MarkdownView text={note.content} onToggleChecklist={(line) => onSave({ ...note, content: toggleChecklistItem(note.content, line) })} />
+            </div>
+          )}
+          {attachments.length > 0 && (
+            <div className="mt-3">
+              <AttachmentList attachments={attachments} />
+            </div>
+          )}
+          {(note.tags.length > 0 || note.emotions?.length) && (
+            <div className="flex flex-wrap gap-1 mt-3">
+              {note.emotions?.map(emotion => (
+                <span key={`emotion-${emotion}`} className="text-[10px] font-medium bg-amber-50 text-amber-600 px-2 py-0.5 rounded-full">{emotion}</span>
+              ))}
+              {note.tags.map(tag => (
+                <span key={tag} className="text-[10px] font-medium bg-indigo-50 text-indigo-500 px-2 py-0.5 rounded-full">#{tag}</span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteCard;
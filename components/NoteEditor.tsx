@@ -0,0 +1,134 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Attachment, AttachmentKind, Journal, Note } from '../types';
+import { parseTags } from '../services/search';
+import MoodPicker from './MoodPicker';
+import MarkdownEditor from './MarkdownEditor';
+import AttachmentList from './AttachmentList';
+import AttachmentControls from './AttachmentControls';
+import { CheckIcon } from '@heroicons/react/24/outline';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+interface NoteEditorProps {
+  note: Note;
+  attachments: Attachment[];
+  journals: Journal[];
+  onSave: (note: Note) => Promise<Note>;
+  onAddAttachment: (kind: AttachmentKind, blob: Blob, duration?: number) => Promise<void>;
+  onRemoveAttachment: (attachment: Attachment) => void;
+  onClose: () => void;
+}
+
+// Inline editor for an existing entry. Changes are autosaved after a pause in typing
+// and flushed when the editor closes, so there is no explicit save step.
+const NoteEditor: React.FC<NoteEditorProps> = ({ note, attachments, journals, onSave, onAddAttachment, onRemoveAttachment, onClose }) => {
+  const [title, setTitle] = useState(note.title);
+  const [content, setContent] = useState(note.content);
+  const [tags, setTags] = useState(note.tags.join(', '));
+  const [mood, setMood] = useState<{ mood?: number; emotions: string[] }>({ mood: note.mood, emotions: note.emotions ?? [] });
+  const [saving, setSaving] = useState(false);
+  const saved = useRef({ title: note.title, content: note.content, tags: note.tags.join(', '), mood });
+  const latest = useRef({ title, content, tags, mood });
+  latest.current = { title, content, tags, mood };
+
+  const isDirty = () =>
+    latest.current.title !== saved.current.title
+    || latest.current.content !== saved.current.content
+    || latest.current.tags !== saved.current.tags
+    || latest.current.mood !== saved.current.mood;
+
+  // Saves the latest text, plus any other changes such as a new journal
+  const save = async (changes: Partial<Note> = {}) => {
+    const pending = { ...latest.current };
+    saved.current = pending;
+    setSaving(true);
+    try {
+      await onSave({
+        ...note,
+        title: pending.title,
+        content: pending.content,
+        tags: parseTags(pending.tags),
+        mood: pending.mood.mood,
+        emotions: pending.mood.emotions.length > 0 ? pending.mood.emotions : undefined,
+        ...changes
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const flush = async () => {
+    if (isDirty() && latest.current.title.trim()) await save();
+  };
+
+  useEffect(() => {
+    if (!isDirty()) return;
+    const timer = setTimeout(flush, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [title, content, tags, mood]);
+
+  // Don't lose the last keystrokes if the card unmounts mid-debounce
+  useEffect(() => () => { flush(); }, []);
+
+  const handleDone = async () => {
+    await flush();
+    onClose();
+  };
+
+  // The entry leaves the journal on screen, so the editor closes with it
+  const handleMove = async (journalId: string) => {
+    if (!latest.current.title.trim()) return;
+    await save({ journalId });
+    onClose();
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        autoFocus
+        className="w-full font-bold text-gray-800 focus:outline-none"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+      />
+      <MarkdownEditor value={content} onChange={setContent} className="text-gray-600 text-sm" />
+      <AttachmentList attachments={attachments} onRemove={onRemoveAttachment} />
+      <input
+        type="text"
+        placeholder="Tags, comma separated"
+        className="w-full text-xs text-indigo-500 focus:outline-none"
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+      />
+      <MoodPicker mood={mood.mood} emotions={mood.emotions} text={`${title} ${content}`} onChange={setMood} />
+      <div className="flex justify-between items-center gap-2">
+        <AttachmentControls onAdd={onAddAttachment} />
+        {journals.length > 1 && (
+          <select
+            className="border rounded-lg px-2 py-1 bg-white text-xs text-gray-500"
+            value=""
+            onChange={(e) => handleMove(e.target.value)}
+            title="Move to another journal"
+          >
+            <option value="" disabled>Move to...</option>
+            {journals.filter(j => j.id !== note.journalId).map(journal => (
+              <option key={journal.id} value={journal.id}>{journal.icon} {journal.name}</option>
+            ))}
+          </select>
+        )}
+        <span className="flex-1 text-right text-[10px] text-gray-400 uppercase font-bold">
+          {saving ? 'Saving...' : !title.trim() ? 'Title required' : isDirty() ? 'Unsaved' : 'Saved'}
+        </span>
+        <button
+          onClick={handleDone}
+          className="bg-indigo-600 text-white rounded-xl px-3 py-1 text-xs font-medium hover:bg-indigo-700 transition flex items-center gap-1"
+        >
+          <CheckIcon className="h-4 w-4" />
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NoteEditor;
@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { dbService } from '../services/db';
+import { Note, NoteRevision } from '../types';
+import { useSettings } from './SettingsContext';
+import { XMarkIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+
+interface NoteHistoryProps {
+  note: Note;
+  onRestore: (revision: NoteRevision) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<NoteRevision['source'], string> = {
+  local: 'Edited here',
+  remote: 'From another device',
+  merge: 'Merged',
+  restore: 'Restored',
+  import: 'Imported'
+};
+
+const NoteHistory: React.FC<NoteHistoryProps> = ({ note, onRestore, onClose }) => {
+  const { dates } = useSettings();
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [selected, setSelected] = useState<NoteRevision | null>(null);
+
+  useEffect(() => {
+    dbService.getNoteHistory(note.id).then(history => {
+      setRevisions(history);
+      setSelected(history[0] ?? null);
+    });
+  }, [note.id, note.revision]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-t-3xl sm:rounded-3xl p-6 space-y-4">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold text-gray-800">Revision History</h2>
+            <p className="text-xs text-gray-400">{note.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {revisions.map(revision => (
+            <button
+              key={revision.id}
+              onClick={() => setSelected(revision)}
+              className={`shrink-0 text-left px-3 py-2 rounded-xl border text-xs transition ${
+                selected?.id === revision.id ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'text-gray-500'
+              }`}
+            >
+              <div className="font-bold">
+                {dates.dateTime(revision.updatedAt)}
+              </div>
+              <div>Rev {revision.revision} · {SOURCE_LABELS[revision.source]}</div>
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="border rounded-2xl p-4 space-y-2">
+            <h3 className="font-bold text-gray-800">{selected.title}</h3>
+            <p className="text-gray-600 text-sm whitespace-pre-wrap">{selected.content}</p>
+            {(selected.title !== note.title || selected.content !== note.content) && (
+              <div className="flex justify-end">
+                <button
+                  onClick={() => onRestore(selected)}
+                  className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-medium hover:bg-indigo-700 transition flex items-center gap-2"
+                >
+                  <ArrowUturnLeftIcon className="h-4 w-4" />
+                  Restore this version
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NoteHistory;
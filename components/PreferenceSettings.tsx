@@ -0,0 +1,79 @@
+import React from 'react';
+import { DateFormat, InsightPeriod, ThemePreference } from '../types';
+import { DATE_FORMATS, LOCALES, WEEK_START_OPTIONS, createDateFormatter } from '../services/settings';
+import { INSIGHT_PERIODS } from '../services/insightContext';
+import { useSettings } from './SettingsContext';
+
+const THEMES: { id: ThemePreference; label: string }[] = [
+  { id: 'system', label: 'System' },
+  { id: 'light', label: 'Light' },
+  { id: 'dark', label: 'Dark' }
+];
+
+// Appearance, calendar and date preferences, and which period the AI tab starts on
+const PreferenceSettings: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const selectClass = 'border rounded-lg px-2 py-1 bg-white text-sm';
+  const locales = LOCALES.some(l => l.id === settings.locale) ? LOCALES : [...LOCALES, { id: settings.locale, label: settings.locale }];
+
+  return (
+    <>
+      <div className="p-4 border-b flex justify-between items-center">
+        <span>Theme</span>
+        <div className="inline-flex bg-gray-100 rounded-xl p-1">
+          {THEMES.map(theme => (
+            <button
+              key={theme.id}
+              onClick={() => updateSettings({ theme: theme.id })}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition ${settings.theme === theme.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500'}`}
+            >
+              {theme.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="p-4 border-b space-y-3">
+        <label className="flex justify-between items-center">
+          <span>Week starts on</span>
+          <select
+            className={selectClass}
+            value={settings.weekStartsOn}
+            onChange={(e) => updateSettings({ weekStartsOn: Number(e.target.value) })}
+          >
+            {WEEK_START_OPTIONS.map(option => <option key={option.day} value={option.day}>{option.label}</option>)}
+          </select>
+        </label>
+        <label className="flex justify-between items-center">
+          <span>Language for dates</span>
+          <select className={selectClass} value={settings.locale} onChange={(e) => updateSettings({ locale: e.target.value })}>
+            {locales.map(locale => <option key={locale.id} value={locale.id}>{locale.label}</option>)}
+          </select>
+        </label>
+        <label className="flex justify-between items-center">
+          <span>Date format</span>
+          <select
+            className={selectClass}
+            value={settings.dateFormat}
+            onChange={(e) => updateSettings({ dateFormat: e.target.value as DateFormat })}
+          >
+            {DATE_FORMATS.map(format => (
+              <option key={format} value={format}>{createDateFormatter({ locale: settings.locale, dateFormat: format }).date(Date.now())}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex justify-between items-center">
+          <span>Default insight period</span>
+          <select
+            className={selectClass}
+            value={settings.insightPeriod}
+            onChange={(e) => updateSettings({ insightPeriod: e.target.value as InsightPeriod })}
+          >
+            {INSIGHT_PERIODS.map(period => <option key={period.id} value={period.id}>{period.label}</option>)}
+          </select>
+        </label>
+      </div>
+    </>
+  );
+};
+
+export default PreferenceSettings;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { HabitCorrelation, MoodDirection, Note, Reflection } from '../types';
+import { addDays } from '../services/habitEngine';
+import { INSIGHT_PERIODS } from '../services/insightContext';
+import { DateFormatter } from '../services/settings';
+import { useSettings } from './SettingsContext';
+import { TrashIcon } from '@heroicons/react/24/outline';
+
+interface ReflectionTimelineProps {
+  reflections: Reflection[];
+  notes: Note[];
+  onOpenNote: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const describe = (reflection: Reflection, dates: DateFormatter) => {
+  const { kind, periodKey } = reflection;
+  const formatDay = (day: string, options: Intl.DateTimeFormatOptions) => {
+    const [y, m, d] = day.split('-').map(Number);
+    return dates.format(new Date(y, m - 1, d), options);
+  };
+  if (kind === 'daily' && periodKey) return `Daily · ${formatDay(periodKey, { weekday: 'short', month: 'short', day: 'numeric' })}`;
+  if (kind === 'weekly' && periodKey) {
+    return `Weekly · ${formatDay(periodKey, { month: 'short', day: 'numeric' })} – ${formatDay(addDays(periodKey, 6), { month: 'short', day: 'numeric' })}`;
+  }
+  const created = dates.dateTime(reflection.createdAt);
+  const period = INSIGHT_PERIODS.find(p => p.id === reflection.period);
+  return period ? `${period.label} · ${created}` : created;
+};
+
+const TREND_LABELS: Record<MoodDirection, string> = {
+  improving: '↗ Improving',
+  declining: '↘ Declining',
+  steady: '→ Steady',
+  mixed: '↕ Mixed'
+};
+
+const EFFECT_STYLES: Record<HabitCorrelation['effect'], string> = {
+  positive: 'bg-green-50 text-green-600',
+  negative: 'bg-red-50 text-red-400',
+  unclear: 'bg-gray-100 text-gray-500'
+};
+
+const ReflectionTimeline: React.FC<ReflectionTimelineProps> = ({ reflections, notes, onOpenNote, onDelete }) => {
+  const { dates } = useSettings();
+  // The newest reflection starts open
+  const [openId, setOpenId] = useState<string | null>(null);
+  const expandedId = openId ?? reflections[0]?.id;
+  const newestId = reflections[0]?.id;
+  useEffect(() => setOpenId(null), [newestId]);
+
+  if (reflections.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-bold text-gray-500 uppercase tracking-wider">Past Reflections</h3>
+      {reflections.map(reflection => {
+        const expanded = reflection.id === expandedId;
+        const sources = reflection.noteIds
+          .map(id => notes.find(n => n.id === id))
+          .filter((note): note is Note => !!note);
+        const missing = reflection.noteIds.length - sources.length;
+        return (
+          <div key={reflection.id} className="bg-white rounded-2xl border shadow-sm">
+            <button
+              onClick={() => setOpenId(expanded ? '' : reflection.id)}
+              className="w-full text-left p-4 flex justify-between items-start gap-4"
+            >
+              <div>
+                <div className="text-xs text-indigo-400 font-medium mb-1">{describe(reflection, dates)}</div>
+                <p className={`text-sm text-gray-700 italic ${expanded ? '' : 'line-clamp-2'}`}>"{reflection.insight.summary}"</p>
+              </div>
+              <span className="text-[10px] text-gray-400 shrink-0">{reflection.provider}</span>
+            </button>
+            {expanded && (
+              <div className="px-4 pb-4 space-y-3">
+                {reflection.insight.moodTrend && (
+                  <p className="text-xs text-gray-500">
+                    <span className="font-bold text-indigo-500 mr-2">{TREND_LABELS[reflection.insight.moodTrend.direction]}</span>
+                    {reflection.insight.moodTrend.description}
+                  </p>
+                )}
+                <ol className="space-y-2">
+                  {reflection.insight.suggestions.map((suggestion, i) => (
+                    <li key={i} className="flex gap-3 items-start text-sm text-gray-600">
+                      <span className="bg-indigo-100 text-indigo-600 h-5 w-5 rounded-full flex items-center justify-center text-[10px] font-bold shrink-0">{i + 1}</span>
+                      {suggestion}
+                    </li>
+                  ))}
+                </ol>
+                {(reflection.insight.habitCorrelations ?? []).length > 0 && (
+                  <ul className="space-y-1">
+                    {reflection.insight.habitCorrelations!.map((correlation, i) => (
+                      <li key={i} className="text-xs text-gray-500 flex gap-2 items-start">
+                        <span className={`px-2 py-0.5 rounded-full text-[10px] font-medium shrink-0 ${EFFECT_STYLES[correlation.effect]}`}>{correlation.habit}</span>
+                        {correlation.observation}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex flex-wrap gap-1 items-center">
+                  <span className="text-[10px] text-gray-400 mr-1">Based on</span>
+                  {sources.map(note => (
+                    <button
+                      key={note.id}
+                      onClick={() => onOpenNote(note.id)}
+                      className="text-[10px] font-medium bg-indigo-50 text-indigo-500 px-2 py-0.5 rounded-full hover:bg-indigo-100"
+                    >
+                      {note.title || 'Untitled'}
+                    </button>
+                  ))}
+                  {missing > 0 && <span className="text-[10px] text-gray-400">{missing} deleted {missing === 1 ? 'entry' : 'entries'}</span>}
+                  <button onClick={() => onDelete(reflection.id)} className="ml-auto text-gray-300 hover:text-red-500" title="Delete reflection">
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReflectionTimeline;
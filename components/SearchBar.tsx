@@ -0,0 +1,72 @@
+import React from 'react';
+import { EMPTY_FILTER, NoteFilter, isFilterActive } from '../services/search';
+import { MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface SearchBarProps {
+  filter: NoteFilter;
+  availableTags: string[];
+  resultCount: number;
+  onChange: (filter: NoteFilter) => void;
+}
+
+const SearchBar: React.FC<SearchBarProps> = ({ filter, availableTags, resultCount, onChange }) => {
+  const toggleTag = (tag: string) => {
+    const tags = filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag];
+    onChange({ ...filter, tags });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white rounded-2xl border flex items-center gap-2 px-4 py-2">
+        <MagnifyingGlassIcon className="h-5 w-5 text-gray-400 shrink-0" />
+        <input
+          type="search"
+          placeholder="Search your journal..."
+          className="flex-1 text-sm focus:outline-none"
+          value={filter.query}
+          onChange={(e) => onChange({ ...filter, query: e.target.value })}
+        />
+        {isFilterActive(filter) && (
+          <button onClick={() => onChange(EMPTY_FILTER)} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          type="date"
+          className="border rounded-lg px-2 py-1 text-gray-500 bg-white"
+          value={filter.from}
+          max={filter.to || undefined}
+          onChange={(e) => onChange({ ...filter, from: e.target.value })}
+        />
+        <span className="text-gray-400">to</span>
+        <input
+          type="date"
+          className="border rounded-lg px-2 py-1 text-gray-500 bg-white"
+          value={filter.to}
+          min={filter.from || undefined}
+          onChange={(e) => onChange({ ...filter, to: e.target.value })}
+        />
+        {availableTags.map(tag => (
+          <button
+            key={tag}
+            onClick={() => toggleTag(tag)}
+            className={`px-2 py-1 rounded-full font-medium transition ${
+              filter.tags.includes(tag) ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-600'
+            }`}
+          >
+            #{tag}
+          </button>
+        ))}
+      </div>
+
+      {isFilterActive(filter) && (
+        <p className="text-xs text-gray-400">{resultCount === 1 ? '1 entry' : `${resultCount} entries`} found</p>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,64 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Settings } from '../types';
+import { DEFAULT_SETTINGS, DateFormatter, SettingsChanges, applySettingsChanges, createDateFormatter, getSettings, saveSettings } from '../services/settings';
+
+interface SettingsContextValue {
+  settings: Settings;
+  loaded: boolean;
+  updateSettings: (changes: SettingsChanges) => Promise<void>;
+  dates: DateFormatter;
+}
+
+const SettingsContext = createContext<SettingsContextValue>({
+  settings: DEFAULT_SETTINGS,
+  loaded: false,
+  updateSettings: async () => undefined,
+  dates: createDateFormatter(DEFAULT_SETTINGS)
+});
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+// Switches the `dark` class on <html>, which index.html styles, following the system when asked to
+const useTheme = (theme: Settings['theme']) => {
+  useEffect(() => {
+    const media = window.matchMedia(DARK_QUERY);
+    const apply = () => document.documentElement.classList.toggle('dark', theme === 'dark' || (theme === 'system' && media.matches));
+    apply();
+    if (theme !== 'system') return;
+    media.addEventListener('change', apply);
+    return () => media.removeEventListener('change', apply);
+  }, [theme]);
+};
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    // If the database can't be read, the app still starts with the defaults; App reports the error
+    getSettings()
+      .then(setSettings)
+      .catch(err => {
+        console.error(err);
+        setSettings(DEFAULT_SETTINGS);
+      })
+      .finally(() => setLoaded(true));
+  }, []);
+
+  useTheme(settings.theme);
+
+  const value = useMemo<SettingsContextValue>(() => ({
+    settings,
+    loaded,
+    // Shown right away, then replaced by what was saved (see saveSettings)
+    updateSettings: async (changes) => {
+      setSettings(current => applySettingsChanges(current, changes));
+      setSettings(await saveSettings(changes));
+    },
+    dates: createDateFormatter(settings)
+  }), [settings, loaded]);
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+};
+
+export const useSettings = () => useContext(SettingsContext);
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { Attachment } from '../types';
+import { StorageUsage, formatBytes, getStorageUsage } from '../services/attachments';
+
+interface StorageSettingsProps {
+  attachments: Attachment[];
+}
+
+// How much of the browser's quota the journal uses, and how much of that is attachments
+const StorageSettings: React.FC<StorageSettingsProps> = ({ attachments }) => {
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const attachmentBytes = attachments.reduce((sum, a) => sum + a.size, 0);
+
+  useEffect(() => {
+    getStorageUsage().then(setStorage);
+  }, [attachments.length]);
+
+  const requestPersistence = async () => {
+    await navigator.storage.persist();
+    setStorage(await getStorageUsage());
+  };
+
+  const share = (bytes: number) => (storage?.quota ? `${Math.min(100, (bytes / storage.quota) * 100)}%` : '0%');
+
+  return (
+    <div className="p-4 border-b space-y-2">
+      <div className="flex justify-between items-center">
+        <div>
+          <span>Storage</span>
+          <p className="text-xs text-gray-400">
+            {storage
+              ? `${formatBytes(storage.usage)} of ${formatBytes(storage.quota)} used`
+              : "This browser doesn't report its storage quota"}
+          </p>
+        </div>
+        {storage && !storage.persisted && navigator.storage.persist && (
+          <button onClick={requestPersistence} className="text-xs text-indigo-600 font-medium">Keep on device</button>
+        )}
+      </div>
+      {storage && (
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden flex">
+          <div className="bg-indigo-300" style={{ width: share(attachmentBytes) }} />
+          <div className="bg-indigo-600" style={{ width: share(Math.max(0, storage.usage - attachmentBytes)) }} />
+        </div>
+      )}
+      <p className="text-[10px] text-gray-400">
+        {attachments.length === 0 ? 'No attachments' : `${attachments.length} ${attachments.length === 1 ? 'attachment' : 'attachments'}, ${formatBytes(attachmentBytes)}`}
+        {storage?.persisted ? ' · Protected from automatic clean-up' : ''}
+      </p>
+    </div>
+  );
+};
+
+export default StorageSettings;
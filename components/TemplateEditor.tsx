@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { EntryTemplate, TemplateField, TemplateFieldKind } from '../types';
+import { FIELD_KINDS, cleanTemplate, createField } from '../services/templates';
+import { parseTags } from '../services/search';
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface TemplateEditorProps {
+  template: EntryTemplate;
+  onSave: (template: EntryTemplate) => void;
+  onDelete?: () => void; // Absent while the template is new
+  onClose: () => void;
+}
+
+// Creates or changes one of the user's own templates
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState(template);
+  const [tags, setTags] = useState(template.tags.join(', '));
+  const cleaned = cleanTemplate({ ...draft, tags: parseTags(tags) });
+  const canSave = cleaned.name !== '' && cleaned.fields.length > 0;
+
+  const updateField = (id: string, changes: Partial<TemplateField>) =>
+    setDraft({ ...draft, fields: draft.fields.map(f => (f.id === id ? { ...f, ...changes } : f)) });
+
+  const changeKind = (field: TemplateField, kind: TemplateFieldKind) =>
+    updateField(field.id, { kind, rows: kind === 'list' || kind === 'checklist' ? field.rows ?? 3 : undefined });
+
+  const moveField = (index: number, by: number) => {
+    const fields = [...draft.fields];
+    const [moved] = fields.splice(index, 1);
+    fields.splice(index + by, 0, moved);
+    setDraft({ ...draft, fields });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSave) onSave(cleaned);
+  };
+
+  const inputClass = 'w-full text-sm border rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-300';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center">
+      <form onSubmit={handleSubmit} className="bg-white w-full max-w-md max-h-[90vh] overflow-y-auto rounded-t-3xl sm:rounded-3xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">{onDelete ? 'Edit Template' : 'New Template'}</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <input
+          type="text"
+          autoFocus
+          placeholder="Template name..."
+          className="w-full text-lg font-semibold focus:outline-none"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        />
+        <input
+          type="text"
+          placeholder="Tags for entries, comma separated"
+          className="w-full text-xs text-indigo-500 focus:outline-none"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+
+        <div className="space-y-3">
+          {draft.fields.map((field, i) => (
+            <div key={field.id} className="border rounded-2xl p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  placeholder="Heading, e.g. Three good things"
+                  className={inputClass}
+                  value={field.label}
+                  onChange={(e) => updateField(field.id, { label: e.target.value })}
+                />
+                <select
+                  className="border rounded-lg px-2 py-2 bg-white text-xs"
+                  value={field.kind}
+                  onChange={(e) => changeKind(field, e.target.value as TemplateFieldKind)}
+                >
+                  {FIELD_KINDS.map(kind => <option key={kind.id} value={kind.id}>{kind.label}</option>)}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                {field.kind !== 'scale' && (
+                  <input
+                    type="text"
+                    placeholder="Hint (optional)"
+                    className={inputClass}
+                    value={field.placeholder ?? ''}
+                    onChange={(e) => updateField(field.id, { placeholder: e.target.value })}
+                  />
+                )}
+                <div className="flex items-center gap-1 ml-auto text-gray-400">
+                  <button type="button" disabled={i === 0} onClick={() => moveField(i, -1)} className="p-1 hover:text-indigo-600 disabled:opacity-30" title="Move up">
+                    <ArrowUpIcon className="h-4 w-4" />
+                  </button>
+                  <button type="button" disabled={i === draft.fields.length - 1} onClick={() => moveField(i, 1)} className="p-1 hover:text-indigo-600 disabled:opacity-30" title="Move down">
+                    <ArrowDownIcon className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ ...draft, fields: draft.fields.filter(f => f.id !== field.id) })}
+                    className="p-1 hover:text-red-500"
+                    title="Remove field"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setDraft({ ...draft, fields: [...draft.fields, createField()] })}
+            className="w-full border-2 border-dashed border-indigo-100 text-indigo-500 rounded-2xl py-2 text-sm font-medium flex items-center justify-center gap-1"
+          >
+            <PlusIcon className="h-4 w-4" />
+            Add field
+          </button>
+        </div>
+
+        <div className="flex gap-3">
+          {onDelete && (
+            <button type="button" onClick={onDelete} className="px-4 rounded-xl bg-red-50 text-red-500 font-medium text-sm">
+              Delete
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!canSave}
+            className="flex-1 bg-indigo-600 text-white rounded-xl py-3 font-bold hover:bg-indigo-700 transition disabled:opacity-50"
+          >
+            Save Template
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { EntryTemplate, TemplateField } from '../types';
+import { SCALE_MAX, TemplateValue, TemplateValues, emptyValues, templateToMarkdown } from '../services/templates';
+import { PencilIcon, PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface TemplateFormProps {
+  template: EntryTemplate;
+  onInsert: (markdown: string) => void;
+  onEdit?: () => void; // Only for the user's own templates
+  onClose: () => void;
+}
+
+// Fills in a template field by field; the result is added to the new entry as Markdown
+const TemplateForm: React.FC<TemplateFormProps> = ({ template, onInsert, onEdit, onClose }) => {
+  const [values, setValues] = useState<TemplateValues>(() => emptyValues(template));
+  const markdown = templateToMarkdown(template, values);
+
+  const set = (field: TemplateField, value: TemplateValue) => setValues({ ...values, [field.id]: value });
+  const inputClass = 'w-full text-sm border rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-300';
+
+  const renderField = (field: TemplateField) => {
+    const value = values[field.id];
+    if (field.kind === 'scale') {
+      return (
+        <div className="flex gap-1">
+          {Array.from({ length: SCALE_MAX }, (_, i) => i + 1).map(n => (
+            <button
+              key={n}
+              type="button"
+              onClick={() => set(field, value === n ? null : n)}
+              className={`flex-1 rounded-lg py-1.5 text-xs font-medium transition ${value === n ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-600'}`}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+      );
+    }
+    if (field.kind === 'text') {
+      return (
+        <textarea
+          rows={3}
+          placeholder={field.placeholder}
+          className={`${inputClass} resize-none`}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => set(field, e.target.value)}
+        />
+      );
+    }
+    const items = Array.isArray(value) ? value : [];
+    return (
+      <div className="space-y-1.5">
+        {items.map((item, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <span className="text-gray-300 text-sm w-4 text-center">{field.kind === 'checklist' ? '☐' : '•'}</span>
+            <input
+              type="text"
+              placeholder={i === 0 ? field.placeholder : undefined}
+              className={inputClass}
+              value={item}
+              onChange={(e) => set(field, items.map((it, j) => (j === i ? e.target.value : it)))}
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => set(field, [...items, ''])}
+          className="text-xs text-indigo-500 font-medium flex items-center gap-1 pl-6"
+        >
+          <PlusIcon className="h-3.5 w-3.5" />
+          Add item
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-end sm:items-center justify-center">
+      <div className="bg-white w-full max-w-md max-h-[90vh] overflow-y-auto rounded-t-3xl sm:rounded-3xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">{template.name}</h2>
+          <div className="flex items-center gap-3">
+            {onEdit && (
+              <button type="button" onClick={onEdit} className="text-gray-400 hover:text-indigo-600" title="Edit template">
+                <PencilIcon className="h-5 w-5" />
+              </button>
+            )}
+            <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        {template.fields.map(field => (
+          <div key={field.id} className="space-y-2">
+            <label className="text-xs font-bold text-gray-500 uppercase tracking-wider">{field.label}</label>
+            {renderField(field)}
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={() => onInsert(markdown)}
+          disabled={!markdown}
+          className="w-full bg-indigo-600 text-white rounded-xl py-3 font-bold hover:bg-indigo-700 transition disabled:opacity-50"
+        >
+          Add to entry
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateForm;
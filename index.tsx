@@ -2,23 +2,24 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { SettingsProvider } from './components/SettingsContext';
+import { serviceWorkerUpdates } from './services/serviceWorker';
+import { router } from './services/router';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) throw new Error("Root element not found");
 
+// The first page comes from the address bar, before App reads it
+router.start();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <SettingsProvider>
+      <App />
+    </SettingsProvider>
   </React.StrictMode>
 );
 
-// Service Worker Registration for Offline Capability
-if ('serviceWorker' in navigator) {
-  window.addEventListener('load', () => {
-    navigator.serviceWorker.register('/sw.js').then(
-      (registration) => console.log('SW registered: ', registration),
-      (registrationError) => console.log('SW registration failed: ', registrationError)
-    );
-  });
-}
+// Service Worker Registration for Offline Capability; App offers to reload when an update is waiting
+serviceWorkerUpdates.register();
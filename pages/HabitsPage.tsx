@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Habit, HabitSchedule } from '../types';
+import { router } from '../services/router';
+import { computeStreaks, describeSchedule, formatStreak, isDueOn, todayKey, DEFAULT_SCHEDULE } from '../services/habitEngine';
+import { useSettings } from '../components/SettingsContext';
+import HabitForm from '../components/HabitForm';
+import HabitDetail from '../components/HabitDetail';
+import { CheckCircleIcon, PlusIcon } from '@heroicons/react/24/outline';
+
+interface HabitsPageProps {
+  habits: Habit[];
+  selectedHabitId?: string; // /habits/:habitId opens the habit's detail view
+  onToggle: (habitId: string, day?: string) => void;
+  onSkip: (habitId: string) => void;
+  onChangeReminder: (habitId: string, reminderTime: string | null) => void;
+  onCreate: (name: string, schedule: HabitSchedule) => Promise<void>;
+}
+
+// /habits: today's check-ins for every habit
+const HabitsPage: React.FC<HabitsPageProps> = ({ habits, selectedHabitId, onToggle, onSkip, onChangeReminder, onCreate }) => {
+  const { settings } = useSettings();
+  const [showHabitForm, setShowHabitForm] = useState(false);
+  const selectedHabit = habits.find(h => h.id === selectedHabitId);
+
+  const createHabit = async (name: string, schedule: HabitSchedule) => {
+    await onCreate(name, schedule);
+    setShowHabitForm(false);
+  };
+
+  return (
+    <section className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold text-gray-800">Habit Tracker</h2>
+        <button
+          onClick={() => setShowHabitForm(true)}
+          className="bg-indigo-50 text-indigo-600 p-2 rounded-xl"
+        >
+          <PlusIcon className="h-6 w-6" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4">
+        {habits.map(habit => {
+          const today = todayKey();
+          const schedule = habit.schedule ?? DEFAULT_SCHEDULE;
+          const isCompletedToday = habit.completedDays.includes(today);
+          const isSkippedToday = (habit.skippedDays ?? []).includes(today);
+          const streaks = computeStreaks(habit, today, settings.weekStartsOn);
+          return (
+            <div key={habit.id} className="bg-white p-4 rounded-2xl border flex items-center justify-between">
+              <div>
+                <button onClick={() => router.navigate({ page: 'habits', habitId: habit.id })} className="font-bold text-gray-800 hover:text-indigo-600 text-left">
+                  {habit.name}
+                </button>
+                <p className="text-xs text-indigo-500 font-medium">
+                  🔥 {formatStreak(streaks)}
+                  {streaks.longest > streaks.current && <span className="text-gray-400"> · best {streaks.longest}</span>}
+                </p>
+                <p className="text-[10px] text-gray-400">
+                  {describeSchedule(schedule)}
+                  {!isDueOn(schedule, today) && ' · Rest day'}
+                  {!isCompletedToday && isDueOn(schedule, today) && (
+                    <button onClick={() => onSkip(habit.id)} className="ml-2 font-bold text-gray-400 hover:text-indigo-500">
+                      {isSkippedToday ? 'Unskip' : 'Skip today'}
+                    </button>
+                  )}
+                </p>
+              </div>
+              <button
+                onClick={() => onToggle(habit.id)}
+                className={`h-10 w-10 rounded-full flex items-center justify-center transition ${
+                  isCompletedToday ? 'bg-indigo-600 text-white' : 'border-2 border-indigo-100 text-indigo-200'
+                }`}
+              >
+                <CheckCircleIcon className="h-6 w-6" />
+              </button>
+            </div>
+          );
+        })}
+        {habits.length === 0 && (
+          <div className="text-center py-12 text-gray-400">
+            <p>Track your daily wins.</p>
+          </div>
+        )}
+      </div>
+
+      {selectedHabit && (
+        <HabitDetail
+          habit={selectedHabit}
+          onToggleDay={(day) => onToggle(selectedHabit.id, day)}
+          onChangeReminder={(time) => onChangeReminder(selectedHabit.id, time)}
+          onClose={() => router.navigate({ page: 'habits' })}
+        />
+      )}
+
+      {showHabitForm && (
+        <HabitForm onSubmit={createHabit} onClose={() => setShowHabitForm(false)} />
+      )}
+    </section>
+  );
+};
+
+export default HabitsPage;
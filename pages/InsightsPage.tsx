@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createProvider } from '../services/insights';
+import { createReflection } from '../services/reflections';
+import { AIError, AI_ERROR_ACTIONS, toAIError } from '../services/aiErrors';
+import { INSIGHT_PERIODS, buildInsightContext, periodRange } from '../services/insightContext';
+import { todayKey } from '../services/habitEngine';
+import { router } from '../services/router';
+import { ChatMessage, Habit, InsightPeriod, Journal, Note, Reflection } from '../types';
+import { useSettings } from '../components/SettingsContext';
+import ReflectionTimeline from '../components/ReflectionTimeline';
+import JournalChat from '../components/JournalChat';
+import { ArrowPathIcon, ChatBubbleLeftRightIcon, ExclamationTriangleIcon, SparklesIcon } from '@heroicons/react/24/outline';
+
+interface InsightsPageProps {
+  journal: Journal;
+  notes: Note[]; // The current journal's entries, the only ones insights and chat see
+  allNotes: Note[]; // For links from older reflections
+  habits: Habit[];
+  reflections: Reflection[]; // The current journal's
+  chatMessages: ChatMessage[];
+  onChatMessagesChange: (messages: ChatMessage[]) => void;
+  isOnline: boolean;
+  onReflectionCreated: () => Promise<void>;
+  onDeleteReflection: (id: string) => void;
+  onOpenNote: (id: string) => void;
+}
+
+// /insights: reflections on a period of the current journal, and questions about it
+const InsightsPage: React.FC<InsightsPageProps> = ({
+  journal, notes, allNotes, habits, reflections, chatMessages, onChatMessagesChange, isOnline,
+  onReflectionCreated, onDeleteReflection, onOpenNote
+}) => {
+  const { settings } = useSettings();
+  const [aiMode, setAiMode] = useState<'reflect' | 'chat'>('reflect');
+  const [aiPeriod, setAiPeriod] = useState<InsightPeriod>(settings.insightPeriod);
+  const [loading, setLoading] = useState(false);
+  const [aiFellBack, setAiFellBack] = useState(false);
+  const [aiError, setAiError] = useState<AIError | null>(null);
+  const insightController = useRef<AbortController | null>(null);
+
+  // The page opens on the default period once settings have loaded or changed
+  useEffect(() => setAiPeriod(settings.insightPeriod), [settings.insightPeriod]);
+
+  // Leaving the page, or locking the journal, cancels a reflection in progress
+  useEffect(() => () => insightController.current?.abort(), []);
+
+  const insightProvider = createProvider(settings.ai);
+
+  const getAIInsights = async () => {
+    const controller = new AbortController();
+    insightController.current = controller;
+    setLoading(true);
+    setAiError(null);
+    try {
+      const today = todayKey();
+      const context = buildInsightContext(periodRange(aiPeriod, today, settings.weekStartsOn), notes, habits, today, settings.weekStartsOn);
+      const result = await createReflection('manual', null, journal.id, context, insightProvider, isOnline, aiPeriod, controller.signal);
+      setAiFellBack(result.fellBack);
+      await onReflectionCreated();
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setAiError(toAIError(err));
+      }
+    } finally {
+      insightController.current = null;
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex bg-white border rounded-2xl p-1">
+        <button
+          onClick={() => setAiMode('reflect')}
+          className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-xl text-sm font-medium transition ${aiMode === 'reflect' ? 'bg-indigo-600 text-white' : 'text-gray-500'}`}
+        >
+          <SparklesIcon className="h-4 w-4" />
+          Reflect
+        </button>
+        <button
+          onClick={() => setAiMode('chat')}
+          className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-xl text-sm font-medium transition ${aiMode === 'chat' ? 'bg-indigo-600 text-white' : 'text-gray-500'}`}
+        >
+          <ChatBubbleLeftRightIcon className="h-4 w-4" />
+          Ask your journal
+        </button>
+      </div>
+
+      {aiMode === 'chat' ? (
+        <JournalChat
+          messages={chatMessages}
+          onMessagesChange={onChatMessagesChange}
+          notes={notes}
+          provider={insightProvider}
+          isOnline={isOnline}
+          onOpenNote={onOpenNote}
+        />
+      ) : (
+        <>
+          <div className="bg-gradient-to-br from-indigo-600 to-purple-600 rounded-3xl p-8 text-white text-center shadow-lg">
+            <SparklesIcon className="h-12 w-12 mx-auto mb-4 opacity-80" />
+            <h2 className="text-2xl font-bold mb-2">AI Reflection</h2>
+            <p className="text-indigo-100 text-sm mb-6">
+              {insightProvider.requiresNetwork && !isOnline
+                ? "You're offline, so reflections come from the on-device analyzer for now."
+                : `Let ${insightProvider.label} analyze ${journal.icon} ${journal.name} and provide personalized growth insights.`}
+            </p>
+            <div className="inline-flex bg-white/10 rounded-xl p-1 mb-6">
+              {INSIGHT_PERIODS.map(period => (
+                <button
+                  key={period.id}
+                  onClick={() => setAiPeriod(period.id)}
+                  className={`px-3 py-1 rounded-lg text-xs font-medium transition ${aiPeriod === period.id ? 'bg-white text-indigo-600' : 'text-indigo-100'}`}
+                >
+                  {period.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={getAIInsights}
+              disabled={loading}
+              className="bg-white text-indigo-600 px-8 py-3 rounded-2xl font-bold shadow-sm hover:bg-indigo-50 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 mx-auto"
+            >
+              {loading ? <ArrowPathIcon className="h-5 w-5 animate-spin" /> : <SparklesIcon className="h-5 w-5" />}
+              {loading ? 'Analyzing...' : 'Generate Insights'}
+            </button>
+            {loading && (
+              <button onClick={() => insightController.current?.abort()} className="mt-3 text-xs text-indigo-100 hover:text-white underline">
+                Cancel
+              </button>
+            )}
+          </div>
+
+          {aiError && (
+            <div className="bg-red-50 border border-red-100 text-red-600 rounded-2xl p-4 flex items-start gap-3 text-sm">
+              <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+              <div className="flex-1 space-y-2">
+                <p><span className="font-medium">{aiError.message}</span> {AI_ERROR_ACTIONS[aiError.reason]}</p>
+                <div className="flex gap-4 text-xs font-bold">
+                  <button onClick={getAIInsights} className="hover:underline">Try again</button>
+                  {(aiError.reason === 'key' || aiError.reason === 'quota' || aiError.reason === 'malformed') && (
+                    <button onClick={() => router.navigate({ page: 'settings' })} className="hover:underline">Open Settings</button>
+                  )}
+                  <button onClick={() => setAiError(null)} className="text-red-400 hover:underline">Dismiss</button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {aiFellBack && (
+            <p className="text-xs text-gray-400 text-center">The latest reflection was made on this device while offline. Generate again once you're back online for a fuller one.</p>
+          )}
+
+          <ReflectionTimeline
+            reflections={reflections}
+            notes={allNotes}
+            onOpenNote={onOpenNote}
+            onDelete={onDeleteReflection}
+          />
+        </>
+      )}
+    </section>
+  );
+};
+
+export default InsightsPage;
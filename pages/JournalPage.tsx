@@ -0,0 +1,371 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { dbService } from '../services/db';
+import { vault } from '../services/crypto';
+import { router } from '../services/router';
+import { computeJournalStreak, formatStreak, todayKey } from '../services/habitEngine';
+import { BUILT_IN_TEMPLATES, createTemplate } from '../services/templates';
+import { dailyPrompts, getGeneratedPrompts } from '../services/prompts';
+import { EMPTY_FILTER, NoteFilter, isFilterActive, matchesFilter, parseTags } from '../services/search';
+import { Attachment, AttachmentKind, EntryTemplate, Journal, Note, NoteConflict, SharedText } from '../types';
+import { useSettings } from '../components/SettingsContext';
+import NoteCard from '../components/NoteCard';
+import SearchBar from '../components/SearchBar';
+import MoodPicker from '../components/MoodPicker';
+import MarkdownEditor from '../components/MarkdownEditor';
+import AttachmentList from '../components/AttachmentList';
+import AttachmentControls from '../components/AttachmentControls';
+import EntryStarters from '../components/EntryStarters';
+import TemplateForm from '../components/TemplateForm';
+import TemplateEditor from '../components/TemplateEditor';
+import { ExclamationTriangleIcon, PencilSquareIcon, PlusIcon } from '@heroicons/react/24/outline';
+
+export const NEW_NOTE_DRAFT_ID = 'new-note';
+const DRAFT_SAVE_DELAY_MS = 500;
+const SEARCH_DELAY_MS = 150;
+
+// What the new-entry form hands to App, which assigns the id and journal
+export type NewNote = Pick<Note, 'title' | 'content' | 'tags' | 'mood' | 'emotions'>;
+
+interface JournalPageProps {
+  notes: Note[]; // The current journal's entries, newest first
+  journal: Journal;
+  journals: Journal[];
+  attachments: Attachment[];
+  conflicts: NoteConflict[];
+  editingNoteId?: string;
+  compose: boolean; // Opened as /journal/new, e.g. from the "New entry" shortcut
+  shared?: SharedText;
+  isOnline: boolean;
+  onCreate: (note: NewNote) => Promise<void>;
+  onSave: (note: Note) => Promise<Note>;
+  onDelete: (note: Note) => void;
+  onShowHistory: (note: Note) => void;
+  onShowConflict: (conflict: NoteConflict) => void;
+  onAddAttachment: (noteId: string) => (kind: AttachmentKind, blob: Blob, duration?: number) => Promise<void>;
+  onRemoveAttachment: (attachment: Attachment) => void;
+}
+
+// /journal: the new-entry form, search and the entries of the current journal
+const JournalPage: React.FC<JournalPageProps> = ({
+  notes, journal, journals, attachments, conflicts, editingNoteId, compose, shared, isOnline,
+  onCreate, onSave, onDelete, onShowHistory, onShowConflict, onAddAttachment, onRemoveAttachment
+}) => {
+  const { settings, loaded: settingsLoaded } = useSettings();
+
+  // Note creation state
+  const [newNoteTitle, setNewNoteTitle] = useState('');
+  const [newNoteContent, setNewNoteContent] = useState('');
+  const [newNoteTags, setNewNoteTags] = useState('');
+  const [newNoteMood, setNewNoteMood] = useState<{ mood?: number; emotions: string[] }>({ emotions: [] });
+  const [templates, setTemplates] = useState<EntryTemplate[]>([]);
+  const [fillingTemplate, setFillingTemplate] = useState<EntryTemplate | null>(null);
+  const [editingTemplate, setEditingTemplate] = useState<EntryTemplate | null>(null);
+  const [generatedPrompts, setGeneratedPrompts] = useState<string[]>([]);
+  const [promptIndex, setPromptIndex] = useState(0);
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const titleInput = useRef<HTMLInputElement>(null);
+  const usedShare = useRef<SharedText | null>(null);
+  // Entries opened by a tap are already in view; ones opened by a link are scrolled to
+  const scrolledTo = useRef<string | null>(null);
+
+  // Journal search state; `matchingIds` is null when there is no text query
+  const [filter, setFilter] = useState<NoteFilter>(EMPTY_FILTER);
+  const [matchingIds, setMatchingIds] = useState<Set<string> | null>(null);
+
+  const saveDraft = () => {
+    if (newNoteTitle || newNoteContent || newNoteTags || newNoteMood.mood !== undefined || newNoteMood.emotions.length > 0) {
+      return dbService.saveDraft({
+        id: NEW_NOTE_DRAFT_ID,
+        title: newNoteTitle,
+        content: newNoteContent,
+        tags: newNoteTags,
+        mood: newNoteMood.mood,
+        emotions: newNoteMood.emotions,
+        updatedAt: Date.now()
+      });
+    }
+    return dbService.deleteDraft(NEW_NOTE_DRAFT_ID);
+  };
+  const latestSave = useRef(saveDraft);
+  latestSave.current = saveDraft;
+
+  useEffect(() => {
+    let cancelled = false;
+    dbService.getTemplates().then(fetched => {
+      if (!cancelled) setTemplates(fetched);
+    });
+    // The stored draft is only overwritten once it has been read
+    dbService.getDraft(NEW_NOTE_DRAFT_ID).then(draft => {
+      if (cancelled) return;
+      if (draft) {
+        setNewNoteTitle(draft.title);
+        setNewNoteContent(draft.content);
+        setNewNoteTags(draft.tags ?? '');
+        setNewNoteMood({ mood: draft.mood, emotions: draft.emotions ?? [] });
+      }
+      setDraftLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Keep unsent text from the new-entry form across reloads and crashes
+  useEffect(() => {
+    if (!draftLoaded) return;
+    const timer = setTimeout(saveDraft, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [newNoteTitle, newNoteContent, newNoteTags, newNoteMood]);
+
+  // Don't lose the last keystrokes when leaving the page mid-debounce. Locking unmounts
+  // the page too, and then there is no key to seal the draft with.
+  const draftLoadedRef = useRef(false);
+  draftLoadedRef.current = draftLoaded;
+  useEffect(() => () => {
+    if (draftLoadedRef.current && !vault.locked) latestSave.current();
+  }, []);
+
+  // Text shared from another app is added to the form once the draft is in, then dropped from the URL
+  useEffect(() => {
+    if (!shared || !draftLoaded || usedShare.current === shared) return;
+    usedShare.current = shared;
+    const text = [shared.text, shared.text.includes(shared.url) ? '' : shared.url].filter(Boolean).join('\n\n');
+    if (shared.title) setNewNoteTitle(title => title || shared.title);
+    if (text) appendToNewNote(text);
+    router.navigate({ page: 'journal', compose: true }, true);
+  }, [shared, draftLoaded]);
+
+  useEffect(() => {
+    if (!compose) return;
+    window.scrollTo({ top: 0 });
+    titleInput.current?.focus();
+  }, [compose]);
+
+  useEffect(() => {
+    if (!editingNoteId) {
+      scrolledTo.current = null;
+      return;
+    }
+    if (scrolledTo.current === editingNoteId || !notes.some(n => n.id === editingNoteId)) return;
+    scrolledTo.current = editingNoteId;
+    requestAnimationFrame(() => document.getElementById(`note-${editingNoteId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+  }, [editingNoteId, notes]);
+
+  // A search in one journal doesn't carry over to another
+  useEffect(() => setFilter(EMPTY_FILTER), [journal.id]);
+
+  // Prompts drawn from the journal's recent entries, once the entries are there to draw on
+  const hasNotes = notes.length > 0;
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    let cancelled = false;
+    setGeneratedPrompts([]);
+    getGeneratedPrompts(settings.ai, notes, journal.id, isOnline)
+      .then(prompts => {
+        if (!cancelled) setGeneratedPrompts(prompts);
+      })
+      .catch(err => console.error('Could not generate writing prompts', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [settingsLoaded, settings.ai.provider, settings.ai.apiKey, settings.ai.writingPrompts, isOnline, hasNotes, journal.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const ids = await dbService.searchNotes(filter.query);
+      if (!cancelled) setMatchingIds(ids);
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [filter.query, notes]);
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newNoteTitle.trim()) return;
+
+    await onCreate({
+      title: newNoteTitle,
+      content: newNoteContent,
+      tags: parseTags(newNoteTags),
+      mood: newNoteMood.mood,
+      emotions: newNoteMood.emotions.length > 0 ? newNoteMood.emotions : undefined
+    });
+    setNewNoteTitle('');
+    setNewNoteContent('');
+    setNewNoteTags('');
+    setNewNoteMood({ emotions: [] });
+    await dbService.deleteDraft(NEW_NOTE_DRAFT_ID);
+    if (compose) router.navigate({ page: 'journal' }, true);
+  };
+
+  const prompts = dailyPrompts(generatedPrompts);
+  const currentPrompt = prompts[promptIndex % prompts.length];
+
+  const appendToNewNote = (markdown: string) =>
+    setNewNoteContent(content => (content.trim() ? `${content.trimEnd()}\n\n${markdown}` : markdown));
+
+  // The filled-in template is added below what was already written, with its tags
+  const insertTemplate = (template: EntryTemplate, markdown: string) => {
+    appendToNewNote(markdown);
+    if (!newNoteTitle.trim()) setNewNoteTitle(template.name);
+    if (template.tags.length > 0) setNewNoteTags(parseTags([newNoteTags, ...template.tags].join(',')).join(', '));
+    setFillingTemplate(null);
+  };
+
+  const saveTemplate = async (template: EntryTemplate) => {
+    await dbService.saveTemplate(template);
+    setTemplates(prev => (prev.some(t => t.id === template.id) ? prev.map(t => (t.id === template.id ? template : t)) : [...prev, template]));
+    setEditingTemplate(null);
+  };
+
+  const deleteTemplate = async (id: string) => {
+    await dbService.deleteTemplate(id);
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    setEditingTemplate(null);
+  };
+
+  const editNote = (id: string) => {
+    scrolledTo.current = id;
+    router.navigate({ page: 'journal', noteId: id });
+  };
+
+  const availableTags = Array.from(new Set(notes.flatMap(n => n.tags))).sort();
+  const visibleNotes = notes.filter(n => (!matchingIds || matchingIds.has(n.id)) && matchesFilter(n, filter));
+  const journalStreak = computeJournalStreak(notes, todayKey(), settings.weekStartsOn);
+
+  return (
+    <section className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <form onSubmit={handleAddNote} className="bg-white rounded-2xl shadow-sm border p-4 space-y-3">
+        <EntryStarters
+          prompt={currentPrompt}
+          onNextPrompt={() => setPromptIndex(promptIndex + 1)}
+          onUsePrompt={() => appendToNewNote(`> ${currentPrompt}\n\n`)}
+          templates={[...BUILT_IN_TEMPLATES, ...templates]}
+          onSelectTemplate={setFillingTemplate}
+          onNewTemplate={() => setEditingTemplate(createTemplate())}
+        />
+        <input
+          ref={titleInput}
+          type="text"
+          placeholder="Entry Title..."
+          className="w-full text-lg font-semibold focus:outline-none"
+          value={newNoteTitle}
+          onChange={(e) => setNewNoteTitle(e.target.value)}
+        />
+        <MarkdownEditor
+          placeholder={currentPrompt}
+          className="text-gray-600"
+          value={newNoteContent}
+          onChange={setNewNoteContent}
+        />
+        <AttachmentList attachments={attachments.filter(a => a.noteId === NEW_NOTE_DRAFT_ID)} onRemove={onRemoveAttachment} />
+        <MoodPicker
+          mood={newNoteMood.mood}
+          emotions={newNoteMood.emotions}
+          text={`${newNoteTitle} ${newNoteContent}`}
+          onChange={setNewNoteMood}
+        />
+        <div className="flex justify-between items-center gap-3">
+          <AttachmentControls onAdd={onAddAttachment(NEW_NOTE_DRAFT_ID)} />
+          <input
+            type="text"
+            placeholder="Tags, comma separated"
+            className="flex-1 text-xs text-indigo-500 focus:outline-none"
+            value={newNoteTags}
+            onChange={(e) => setNewNoteTags(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="bg-indigo-600 text-white rounded-xl p-2 hover:bg-indigo-700 transition"
+          >
+            <PlusIcon className="h-6 w-6" />
+          </button>
+        </div>
+      </form>
+
+      {conflicts.length > 0 && (
+        <button
+          onClick={() => onShowConflict(conflicts[0])}
+          className="w-full bg-amber-50 border border-amber-200 text-amber-700 rounded-2xl p-4 flex items-center gap-3 text-sm font-medium text-left"
+        >
+          <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+          {conflicts.length === 1 ? '1 entry has' : `${conflicts.length} entries have`} conflicting edits from another device. Tap to review.
+        </button>
+      )}
+
+      {notes.length > 0 && (
+        <SearchBar
+          filter={filter}
+          availableTags={availableTags}
+          resultCount={visibleNotes.length}
+          onChange={setFilter}
+        />
+      )}
+
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-sm font-bold text-gray-500 uppercase tracking-wider">
+            {isFilterActive(filter) ? 'Search Results' : 'Recent Entries'}
+          </h2>
+          {journalStreak.longest > 0 && (
+            <span className="text-xs text-indigo-500 font-medium" title={`Longest: ${journalStreak.longest}`}>
+              🔥 {formatStreak(journalStreak)}
+            </span>
+          )}
+        </div>
+        {notes.length === 0 ? (
+          <div className="text-center py-12 text-gray-400">
+            <PencilSquareIcon className="h-12 w-12 mx-auto mb-2 opacity-20" />
+            <p>Your journey begins with a single note.</p>
+          </div>
+        ) : (
+          visibleNotes.map(note => (
+            <NoteCard
+              key={note.id}
+              note={note}
+              attachments={attachments.filter(a => a.noteId === note.id)}
+              journals={journals}
+              conflict={conflicts.find(c => c.noteId === note.id)}
+              query={filter.query}
+              editing={editingNoteId === note.id}
+              onEdit={() => editNote(note.id)}
+              onClose={() => router.navigate({ page: 'journal' })}
+              onSave={onSave}
+              onDelete={() => onDelete(note)}
+              onShowHistory={() => onShowHistory(note)}
+              onShowConflict={onShowConflict}
+              onAddAttachment={onAddAttachment(note.id)}
+              onRemoveAttachment={onRemoveAttachment}
+            />
+          ))
+        )}
+      </div>
+
+      {fillingTemplate && (
+        <TemplateForm
+          template={fillingTemplate}
+          onInsert={(markdown) => insertTemplate(fillingTemplate, markdown)}
+          onEdit={fillingTemplate.builtIn ? undefined : () => {
+            setEditingTemplate(fillingTemplate);
+            setFillingTemplate(null);
+          }}
+          onClose={() => setFillingTemplate(null)}
+        />
+      )}
+
+      {editingTemplate && (
+        <TemplateEditor
+          template={editingTemplate}
+          onSave={saveTemplate}
+          onDelete={templates.some(t => t.id === editingTemplate.id) ? () => deleteTemplate(editingTemplate.id) : undefined}
+          onClose={() => setEditingTemplate(null)}
+        />
+      )}
+    </section>
+  );
+};
+
+export default JournalPage;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { syncEngine } from '../services/syncService';
+import { Attachment, SyncConfig, SyncStatus } from '../types';
+import { useSettings } from '../components/SettingsContext';
+import PreferenceSettings from '../components/PreferenceSettings';
+import EncryptionSettings from '../components/EncryptionSettings';
+import AISettings from '../components/AISettings';
+import StorageSettings from '../components/StorageSettings';
+import BackupSettings from '../components/BackupSettings';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface SettingsPageProps {
+  vaultEnabled: boolean;
+  autoLockMinutes: number;
+  onChangeAutoLock: (minutes: number) => void;
+  attachments: Attachment[];
+  syncStatus: SyncStatus | null;
+  onImported: () => void;
+}
+
+// /settings
+const SettingsPage: React.FC<SettingsPageProps> = ({ vaultEnabled, autoLockMinutes, onChangeAutoLock, attachments, syncStatus, onImported }) => {
+  const { settings, updateSettings, dates } = useSettings();
+  const [syncConfig, setSyncConfig] = useState<SyncConfig>({ enabled: false, endpoint: '' });
+
+  useEffect(() => {
+    syncEngine.getConfig().then(setSyncConfig);
+  }, []);
+
+  const updateSyncConfig = async (changes: Partial<SyncConfig>) => {
+    setSyncConfig(await syncEngine.configure(changes));
+  };
+
+  const describeSyncStatus = () => {
+    if (!syncConfig.enabled) return 'Off';
+    if (!syncStatus) return '';
+    if (syncStatus.state === 'syncing') return 'Syncing...';
+    if (syncStatus.state === 'offline') return `Offline · ${syncStatus.pending} pending`;
+    if (syncStatus.state === 'error') return `Retrying · ${syncStatus.error}`;
+    if (syncStatus.pending > 0) return `${syncStatus.pending} pending`;
+    const synced = syncStatus.lastSyncedAt
+      ? `Synced ${dates.time(syncStatus.lastSyncedAt)}`
+      : 'Up to date';
+    // E.g. changes the server refused
+    return syncStatus.error ? `${synced} · ${syncStatus.error}` : synced;
+  };
+
+  return (
+    <section className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <h2 className="text-xl font-bold text-gray-800">Settings</h2>
+      <div className="bg-white rounded-2xl border overflow-hidden">
+        <div className="p-4 border-b space-y-3">
+          <div className="flex justify-between items-center">
+            <div>
+              <span>Reminders</span>
+              <p className="text-xs text-gray-400">
+                {'Notification' in window && Notification.permission === 'denied' ? 'Notifications are blocked for this site' : 'Habit and journaling reminders'}
+              </p>
+            </div>
+            <button
+              onClick={() => updateSettings({ reminders: { enabled: !settings.reminders.enabled } })}
+              disabled={!('Notification' in window)}
+              className={`w-10 h-5 rounded-full relative transition disabled:opacity-50 ${settings.reminders.enabled ? 'bg-indigo-600' : 'bg-gray-200'}`}
+            >
+              <div className={`absolute top-1 w-3 h-3 bg-white rounded-full ${settings.reminders.enabled ? 'right-1' : 'left-1'}`}></div>
+            </button>
+          </div>
+          {settings.reminders.enabled && (
+            <>
+              <label className="flex justify-between items-center text-sm text-gray-600">
+                Journaling reminder
+                <input
+                  type="time"
+                  className="border rounded-lg px-2 py-1"
+                  value={settings.reminders.journalTime ?? ''}
+                  onChange={(e) => updateSettings({ reminders: { journalTime: e.target.value || null } })}
+                />
+              </label>
+              <input
+                type="url"
+                placeholder="Push server (optional) https://push.example.com"
+                className="w-full text-sm border rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-300"
+                key={settings.reminders.pushServer}
+                defaultValue={settings.reminders.pushServer}
+                onBlur={(e) => updateSettings({ reminders: { pushServer: e.target.value } })}
+              />
+            </>
+          )}
+        </div>
+        <PreferenceSettings />
+        <EncryptionSettings
+          enabled={vaultEnabled}
+          autoLockMinutes={autoLockMinutes}
+          onChangeAutoLock={onChangeAutoLock}
+        />
+        <AISettings config={settings.ai} onChange={(changes) => updateSettings({ ai: changes })} />
+        <StorageSettings attachments={attachments} />
+        <div className="p-4 border-b space-y-3">
+          <div className="flex justify-between items-center">
+            <div>
+              <span>Cloud Sync</span>
+              <p className={`text-xs ${syncStatus?.state === 'error' ? 'text-red-400' : 'text-gray-400'}`}>{describeSyncStatus()}</p>
+            </div>
+            <button
+              onClick={() => updateSyncConfig({ enabled: !syncConfig.enabled })}
+              disabled={!syncConfig.endpoint}
+              className={`w-10 h-5 rounded-full relative transition disabled:opacity-50 ${syncConfig.enabled ? 'bg-indigo-600' : 'bg-gray-200'}`}
+            >
+              <div className={`absolute top-1 w-3 h-3 bg-white rounded-full ${syncConfig.enabled ? 'right-1' : 'left-1'}`}></div>
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="url"
+              placeholder="https://sync.example.com"
+              className="flex-1 text-sm border rounded-xl px-3 py-2 focus:outline-none focus:border-indigo-300"
+              value={syncConfig.endpoint}
+              onChange={(e) => setSyncConfig({ ...syncConfig, endpoint: e.target.value })}
+              onBlur={(e) => updateSyncConfig({ endpoint: e.target.value })}
+            />
+            <button
+              onClick={() => syncEngine.sync()}
+              disabled={!syncConfig.enabled || syncStatus?.state === 'syncing'}
+              className="bg-indigo-50 text-indigo-600 p-2 rounded-xl disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-5 w-5 ${syncStatus?.state === 'syncing' ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+        <BackupSettings onImported={onImported} />
+      </div>
+      <div className="bg-indigo-50 p-6 rounded-2xl text-center">
+        <h3 className="font-bold text-indigo-800 mb-1">Local Data Powered</h3>
+        <p className="text-indigo-600 text-xs">
+          {vaultEnabled
+            ? 'Your entries are encrypted with your passphrase before they are stored in IndexedDB or synced. No server needed for core features.'
+            : 'Your data is stored on this device using IndexedDB. Turn on encryption to protect it with a passphrase. No server needed for core features.'}
+        </p>
+      </div>
+    </section>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,164 @@
+// Reference sync server for local development and offline testing.
+//
+//   npm run sync-server              in-memory, port 8787
+//   SYNC_PORT=9000 SYNC_DATA_FILE=./sync-data.json npm run sync-server
+//
+// POST /push  { deviceId, changes: SyncChange[] }     -> { acked: string[], conflicts: { changeId, current }[],
+//                                                          rejected: { changeId, reason }[] }
+// GET  /pull?since=<cursor>&deviceId=<id>&limit=<n>  -> { changes, cursor, hasMore }
+//
+// The server keeps an ordered change log and only the latest change per record,
+// so a cursor is simply the sequence number of the last change a client has seen.
+// A change carrying `baseRevision` is rejected as a conflict when the stored record has
+// moved on to another revision; the client merges against `current` and pushes again.
+// A malformed change is rejected with a reason; pushing it again would not help.
+
+import http from 'node:http';
+import fs from 'node:fs';
+
+const PORT = Number(process.env.SYNC_PORT || 8787);
+const DATA_FILE = process.env.SYNC_DATA_FILE;
+const DEFAULT_LIMIT = 200;
+const STORES = new Set(['notes', 'habits', 'journals', 'keyring']);
+
+const state = loadState();
+
+function loadState() {
+  if (DATA_FILE && fs.existsSync(DATA_FILE)) {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  }
+  return { seq: 0, log: [], seenChangeIds: [] };
+}
+
+function saveState() {
+  if (DATA_FILE) fs.writeFileSync(DATA_FILE, JSON.stringify(state));
+}
+
+// Why a change can't be stored, or null when it can
+function invalidReason(change) {
+  if (!STORES.has(change.store)) return `Unknown store ${JSON.stringify(change.store)}`;
+  if (typeof change.id !== 'string') return 'Missing record id';
+  if (change.op === 'delete') return null;
+  if (change.op !== 'put') return `Unknown operation ${JSON.stringify(change.op)}`;
+  if (!change.record || change.record.id !== change.id) return 'Record does not match its id';
+  return null;
+}
+
+function findConflict(change) {
+  if (typeof change.baseRevision !== 'number') return null;
+  const existing = state.log.find((entry) => entry.change.store === change.store && entry.change.id === change.id);
+  if (!existing || existing.change.op !== 'put') return null;
+  return existing.change.record.revision === change.baseRevision ? null : existing.change;
+}
+
+function push(deviceId, changes) {
+  const seen = new Set(state.seenChangeIds);
+  const acked = [];
+  const conflicts = [];
+  const rejected = [];
+
+  for (const change of changes) {
+    // Without a changeId there is nothing to answer with
+    if (!change || typeof change.changeId !== 'string') continue;
+    const reason = invalidReason(change);
+    if (reason) {
+      rejected.push({ changeId: change.changeId, reason });
+      continue;
+    }
+    // Replayed pushes (e.g. the service worker and the page racing) are acknowledged again without re-applying.
+    if (!seen.has(change.changeId)) {
+      const current = findConflict(change);
+      if (current) {
+        conflicts.push({ changeId: change.changeId, current });
+        continue;
+      }
+      state.log = state.log.filter((entry) => entry.change.store !== change.store || entry.change.id !== change.id);
+      state.log.push({ seq: ++state.seq, deviceId, change });
+      state.seenChangeIds.push(change.changeId);
+      seen.add(change.changeId);
+    }
+    acked.push(change.changeId);
+  }
+
+  saveState();
+  return { acked, conflicts, rejected };
+}
+
+function pull(since, deviceId, limit) {
+  const changes = [];
+  let cursor = since;
+
+  for (const entry of state.log) {
+    if (entry.seq <= since) continue;
+    if (changes.length >= limit) {
+      return { changes, cursor: String(cursor), hasMore: true };
+    }
+    if (entry.deviceId !== deviceId) changes.push(entry.change);
+    cursor = entry.seq;
+  }
+
+  return { changes, cursor: String(Math.max(cursor, state.seq)), hasMore: false };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  try {
+    if (req.method === 'POST' && url.pathname === '/push') {
+      const { deviceId, changes } = await readBody(req);
+      if (typeof deviceId !== 'string' || !Array.isArray(changes)) {
+        return send(res, 400, { error: 'Expected { deviceId, changes[] }' });
+      }
+      return send(res, 200, push(deviceId, changes));
+    }
+
+    if (req.method === 'GET' && url.pathname === '/pull') {
+      const since = Number(url.searchParams.get('since') || 0);
+      const limit = Number(url.searchParams.get('limit') || DEFAULT_LIMIT);
+      // NaN would compare false against every sequence number and return the whole log
+      if (!Number.isFinite(since)) {
+        return send(res, 400, { error: 'Expected a numeric cursor' });
+      }
+      if (!Number.isFinite(limit)) {
+        return send(res, 400, { error: 'Expected a numeric limit' });
+      }
+      // A page must hold at least one change, or the cursor would never advance
+      return send(res, 200, pull(since, url.searchParams.get('deviceId') || '', Math.max(1, Math.floor(limit))));
+    }
+
+    send(res, 404, { error: 'Not found' });
+  } catch (err) {
+    send(res, 400, { error: err.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`ZenMind sync server listening on http://localhost:${PORT}`);
+});
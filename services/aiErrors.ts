@@ -0,0 +1,109 @@
+// Failures of AI providers, sorted into the few cases the UI can give advice for. Providers
+// throw AIError where they know the cause; anything else (HTTP status errors, failed
+// fetches) is classified by toAIError. Transient failures are retried with backoff.
+
+export type AIErrorReason = 'key' | 'quota' | 'network' | 'server' | 'safety' | 'malformed';
+
+export class AIError extends Error {
+  constructor(
+    message: string,
+    public reason: AIErrorReason,
+    public options: { cause?: unknown; status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+// What the user can do about each kind of failure
+export const AI_ERROR_ACTIONS: Record<AIErrorReason, string> = {
+  key: 'Add a valid API key in Settings → AI Insights.',
+  quota: 'Wait a minute and try again, or switch to the on-device provider in Settings.',
+  network: 'Check your connection, or the endpoint in Settings if you use your own server.',
+  server: 'The provider had a problem. Try again in a moment.',
+  safety: "Try a different period or question; the provider's safety filter blocked this one.",
+  malformed: 'Try again, or choose another model in Settings.'
+};
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+
+export const isAbortError = (err: unknown) => (err as { name?: unknown })?.name === 'AbortError';
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const errorForStatus = (status: number, detail = '', retryAfter: string | null = null): AIError => {
+  const options = { status, retryAfterMs: parseRetryAfter(retryAfter) };
+  if (status === 401 || status === 403 || /api[ _-]?key/i.test(detail)) {
+    return new AIError('The provider rejected the API key.', 'key', options);
+  }
+  if (status === 429) return new AIError("The provider's rate limit or quota was reached.", 'quota', options);
+  if (status === 400 && /safety|content[ _-]?filter|content management policy/i.test(detail)) {
+    return new AIError("The request was blocked by the provider's safety filter.", 'safety', options);
+  }
+  return new AIError(`The provider responded with an error (${status}).`, 'server', options);
+};
+
+export const toAIError = (err: unknown): AIError => {
+  if (err instanceof AIError) return err;
+  // The Gemini SDK's ApiError carries the HTTP status
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') return errorForStatus(status, err instanceof Error ? err.message : '');
+  // fetch rejects with a TypeError when the server can't be reached
+  if (err instanceof TypeError) return new AIError('Could not reach the provider.', 'network', { cause: err });
+  if (err instanceof SyntaxError) return new AIError('The provider sent a reply that could not be read.', 'malformed', { cause: err });
+  return new AIError('The provider failed unexpectedly.', 'server', { cause: err });
+};
+
+// Rate limits, dropped connections and 5xx responses usually pass
+export const isTransient = (err: AIError) => {
+  const { status } = err.options;
+  return err.reason === 'quota' || err.reason === 'network'
+    || (err.reason === 'server' && (status === undefined || status === 408 || status >= 500));
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  attempts?: number;
+  canRetry?: () => boolean; // E.g. false once a streamed answer has started showing
+}
+
+// Runs `task` until it succeeds, waiting 1s, 2s, ... (with jitter, or as long as the server
+// asks) between attempts. Failures come out as AIError; cancellation as the AbortError.
+export const withRetry = async <T>(task: () => Promise<T>, { signal, attempts = MAX_ATTEMPTS, canRetry }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (signal?.aborted || isAbortError(err)) throw err;
+      const error = toAIError(err);
+      const { retryAfterMs } = error.options;
+      if (attempt >= attempts || !isTransient(error) || (canRetry && !canRetry())) throw error;
+      // A daily quota won't come back within a reasonable wait
+      if (retryAfterMs !== undefined && retryAfterMs > MAX_DELAY_MS) throw error;
+      const backoff = BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() / 2);
+      await sleep(Math.min(MAX_DELAY_MS, retryAfterMs ?? backoff), signal);
+    }
+  }
+};
@@ -0,0 +1,100 @@
+import { Attachment, AttachmentKind } from '../types';
+import { dbService } from './db';
+
+// Camera photos and voice memos. Photos are scaled down before they are stored, and every
+// attachment is checked against the browser's storage quota first. The service worker
+// serves stored attachments at /attachments/<id> (see sw.js), so they show offline too.
+
+const MAX_PHOTO_SIZE = 2048; // Pixels on the longer side
+const PHOTO_QUALITY = 0.85;
+// Leave room for the journal itself when the origin is close to its quota
+const QUOTA_HEADROOM = 0.9;
+export const MAX_RECORDING_SECONDS = 300;
+
+const AUDIO_TYPES = ['audio/webm;codecs=opus', 'audio/mp4', 'audio/ogg;codecs=opus', 'audio/webm'];
+
+export class AttachmentError extends Error {
+  constructor(message: string, public reason: 'quota' | 'permission' | 'unsupported', public cause?: unknown) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin, attachments included
+  quota: number;
+  persisted: boolean;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false)
+  ]);
+  return { usage, quota, persisted };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  for (; value >= 1024 && unit < units.length - 1; unit++) value /= 1024;
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+};
+
+export const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// Where the service worker serves the attachment; without one, a blob URL is used instead
+export const attachmentPath = (id: string) => `/attachments/${encodeURIComponent(id)}`;
+
+// JPEG at most MAX_PHOTO_SIZE on the longer side; the original when that isn't smaller
+export const compressPhoto = async (photo: Blob): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(photo);
+    const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const compressed = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', PHOTO_QUALITY));
+    return compressed && compressed.size < photo.size ? compressed : photo;
+  } catch {
+    return photo;
+  }
+};
+
+export const recordingType = () =>
+  typeof MediaRecorder === 'undefined' ? null : AUDIO_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+export const createAttachment = async (noteId: string, kind: AttachmentKind, blob: Blob, duration?: number): Promise<Attachment> => {
+  const storage = await getStorageUsage();
+  if (storage && storage.quota > 0 && storage.usage + blob.size > storage.quota * QUOTA_HEADROOM) {
+    throw new AttachmentError(
+      `Not enough storage for this ${kind === 'photo' ? 'photo' : 'recording'} (${formatBytes(blob.size)}). Remove some attachments to make room.`,
+      'quota'
+    );
+  }
+  const attachment: Attachment = {
+    id: crypto.randomUUID(),
+    noteId,
+    kind,
+    mimeType: blob.type || (kind === 'photo' ? 'image/jpeg' : 'audio/webm'),
+    size: blob.size,
+    duration,
+    createdAt: Date.now(),
+    blob
+  };
+  try {
+    await dbService.saveAttachment(attachment);
+  } catch (err) {
+    if ((err as Error)?.name === 'QuotaExceededError') {
+      throw new AttachmentError('The browser ran out of storage for attachments. Remove some to make room.', 'quota', err);
+    }
+    throw err;
+  }
+  return attachment;
+};
@@ -0,0 +1,75 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { dbService } from './db';
+import { createArchive, importFiles } from './backup';
+import { enableEncryption } from './encryption';
+import { DEFAULT_JOURNAL_ID } from './journals';
+import { EntryTemplate, Reflection } from '../types';
+
+const PASSPHRASE = 'correct horse battery';
+
+const reflection: Reflection = {
+  id: 'daily:2024-05-01',
+  kind: 'daily',
+  periodKey: '2024-05-01',
+  journalId: DEFAULT_JOURNAL_ID,
+  createdAt: 1,
+  noteIds: ['n1'],
+  provider: 'local',
+  insight: { summary: 'A calm day', suggestions: ['Keep walking'] }
+};
+
+const template: EntryTemplate = {
+  id: 't1',
+  name: 'Evening',
+  fields: [{ id: 'f1', label: 'Best moment', kind: 'text' }, { id: 'f2', label: 'Energy', kind: 'scale' }],
+  tags: ['evening'],
+  createdAt: 1,
+  updatedAt: 1
+};
+
+const backupFile = async () => new File([JSON.stringify(await createArchive())], 'zenmind-backup.json', { type: 'application/json' });
+
+describe('backup', () => {
+  beforeAll(async () => {
+    await dbService.init();
+  });
+
+  it('restores saved reflections', async () => {
+    await dbService.saveReflection(reflection);
+    const file = await backupFile();
+    await dbService.deleteReflection(reflection.id);
+
+    const report = await importFiles([file]);
+    expect(report.added).toBe(1);
+    expect(await dbService.getReflections()).toEqual([reflection]);
+    expect((await importFiles([file])).added).toBe(0);
+  });
+
+  it('restores custom templates and keeps the newer edit', async () => {
+    await dbService.saveTemplate(template);
+    const file = await backupFile();
+    await dbService.deleteTemplate(template.id);
+
+    expect((await importFiles([file])).added).toBe(1);
+    expect(await dbService.getTemplates()).toEqual([template]);
+
+    const renamed = { ...template, name: 'Evening review', updatedAt: 2 };
+    await dbService.saveTemplate(renamed);
+    expect((await importFiles([file])).unchanged).toBe(1);
+    expect(await dbService.getTemplates()).toEqual([renamed]);
+  });
+
+  it('keeps reflections sealed in an encrypted backup', async () => {
+    await enableEncryption(PASSPHRASE);
+    const archive = await createArchive();
+    expect(archive.stores.reflections).toEqual([
+      expect.objectContaining({ id: reflection.id, insight: { summary: '', suggestions: [] }, encrypted: expect.anything() })
+    ]);
+
+    const file = await backupFile();
+    await dbService.deleteReflection(reflection.id);
+    await importFiles([file]);
+    expect(await dbService.getReflections()).toEqual([reflection]);
+  });
+});
@@ -0,0 +1,484 @@
+import { dbService, ImportBatch } from './db';
+import { SCHEMA_VERSION } from './migrations';
+import { computeStreaks, describeSchedule, toDayKey, todayKey, DEFAULT_SCHEDULE } from './habitEngine';
+import { getSettings } from './settings';
+import { ParsedEntry, idForPath, isDayOneJournal, markdownFileNames, noteToMarkdown, parseDayOneJournal, parseMarkdownEntry } from './markdownFiles';
+import { createZip, readZip } from './zip';
+import { vault } from './crypto';
+import { normalizeEmotions, normalizeMood } from './mood';
+import { DEFAULT_JOURNAL_ID, JOURNAL_COLORS } from './journals';
+import { EntryTemplate, Habit, Journal, KeyRing, Note, NoteDraft, NoteRevision, Reflection, TemplateField } from '../types';
+
+// Backups are a JSON archive of the object stores. Derived stores (the search index) and
+// device state (the outbox, sync cursor and device id) are left out and rebuilt on import.
+// With encryption on, the archive holds the same ciphertext and key rings as the database,
+// so restoring it needs the passphrase. Markdown and CSV exports are always plaintext.
+
+export const BACKUP_FORMAT = 'zenmind-backup';
+export const BACKUP_VERSION = 1;
+
+const BACKUP_STORES = ['notes', 'habits', 'journals', 'noteHistory', 'drafts', 'reflections', 'templates', 'meta', 'keyring'];
+const PORTABLE_META_KEYS = ['reminderSettings', 'settings'];
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  stores: {
+    notes: Note[];
+    habits: Habit[];
+    journals: Journal[];
+    noteHistory: NoteRevision[];
+    drafts: NoteDraft[];
+    reflections: Reflection[];
+    templates: EntryTemplate[];
+    meta: { key: string; value: unknown }[];
+    keyring: KeyRing[];
+  };
+}
+
+export interface ImportConflict {
+  store: 'notes' | 'habits';
+  id: string;
+  title: string;
+  resolution: string;
+}
+
+export interface ImportReport {
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicts: ImportConflict[];
+  skipped: string[]; // files or records that couldn't be read, with the reason
+}
+
+export class BackupError extends Error {
+  constructor(message: string, public cause?: unknown, public reason?: 'passphrase') {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const encoder = new TextEncoder();
+
+const stamp = () => toDayKey(new Date());
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Export ---
+
+export const createArchive = async (): Promise<BackupArchive> => {
+  const stores = await dbService.exportStores(BACKUP_STORES) as unknown as BackupArchive['stores'];
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    stores: { ...stores, meta: stores.meta.filter(entry => PORTABLE_META_KEYS.includes(entry.key)) }
+  };
+};
+
+export const exportJson = async () => {
+  const archive = await createArchive();
+  downloadBlob(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }), `zenmind-backup-${stamp()}.json`);
+};
+
+export const exportMarkdown = async () => {
+  const notes = (await dbService.getAllNotes()).sort((a, b) => a.createdAt - b.createdAt);
+  const names = markdownFileNames(notes);
+  const zip = createZip(notes.map((note, i) => ({
+    name: `zenmind-notes/${names[i]}`,
+    data: encoder.encode(noteToMarkdown(note)),
+    modified: new Date(note.updatedAt)
+  })));
+  downloadBlob(zip, `zenmind-notes-${stamp()}.zip`);
+};
+
+const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// One row per check-in or skip, which pivots easily in a spreadsheet
+export const habitsToCsv = (habits: Habit[]) => {
+  const rows = [['habit_id', 'habit', 'schedule', 'date', 'status']];
+  habits.forEach(habit => {
+    const schedule = describeSchedule(habit.schedule ?? DEFAULT_SCHEDULE);
+    const days = [
+      ...habit.completedDays.map(day => [day, 'done']),
+      ...(habit.skippedDays ?? []).map(day => [day, 'skipped'])
+    ].sort((a, b) => a[0].localeCompare(b[0]));
+    days.forEach(([day, status]) => rows.push([habit.id, habit.name, schedule, day, status]));
+  });
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+export const exportHabitsCsv = async () => {
+  const csv = habitsToCsv(await dbService.getAllHabits());
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), `zenmind-habits-${stamp()}.csv`);
+};
+
+// --- Validation ---
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const isNote = (value: any): value is Note =>
+  typeof value?.id === 'string' && typeof value.title === 'string' && typeof value.content === 'string'
+  && typeof value.createdAt === 'number';
+
+const isHabit = (value: any): value is Habit =>
+  typeof value?.id === 'string' && typeof value.name === 'string'
+  && Array.isArray(value.completedDays) && value.completedDays.every((d: unknown) => typeof d === 'string' && DAY_KEY.test(d));
+
+const isJournal = (value: any): value is Journal =>
+  typeof value?.id === 'string' && typeof value.name === 'string' && typeof value.icon === 'string';
+
+const isRevision = (value: any): value is NoteRevision =>
+  typeof value?.id === 'string' && typeof value.noteId === 'string' && typeof value.content === 'string';
+
+const isDraft = (value: any): value is NoteDraft => typeof value?.id === 'string' && typeof value.content === 'string';
+
+const isReflection = (value: any): value is Reflection =>
+  typeof value?.id === 'string' && ['manual', 'daily', 'weekly'].includes(value.kind) && typeof value.createdAt === 'number'
+  && Array.isArray(value.noteIds) && (typeof value.insight?.summary === 'string' || typeof value.encrypted === 'object');
+
+const isTemplateField = (value: any): value is TemplateField =>
+  typeof value?.id === 'string' && typeof value.label === 'string' && ['text', 'list', 'checklist', 'scale'].includes(value.kind);
+
+const isTemplate = (value: any): value is EntryTemplate =>
+  typeof value?.id === 'string' && typeof value.name === 'string' && !value.builtIn
+  && Array.isArray(value.fields) && value.fields.every(isTemplateField);
+
+const isMeta = (value: any): value is { key: string; value: unknown } => typeof value?.key === 'string';
+
+const isKeyRing = (value: any): value is KeyRing =>
+  typeof value?.id === 'string' && typeof value.salt === 'string' && typeof value.wrappedKey === 'string'
+  && typeof value.iterations === 'number';
+
+const pick = <T>(records: unknown, guard: (value: any) => value is T, label: string, skipped: string[]): T[] => {
+  if (records === undefined) return [];
+  if (!Array.isArray(records)) throw new BackupError(`The backup's ${label} are not a list.`);
+  const valid = records.filter(guard);
+  if (valid.length < records.length) skipped.push(`${records.length - valid.length} invalid ${label}`);
+  return valid;
+};
+
+// Checks the envelope strictly and the records leniently: a damaged record is skipped
+// and reported rather than failing the whole restore.
+export const validateArchive = (value: any, skipped: string[] = []): BackupArchive => {
+  if (value?.format !== BACKUP_FORMAT || typeof value.version !== 'number' || typeof value.stores !== 'object') {
+    throw new BackupError('This file is not a ZenMind backup.');
+  }
+  if (value.version > BACKUP_VERSION) {
+    throw new BackupError('This backup was made by a newer version of ZenMind. Update the app to restore it.');
+  }
+  const stores = value.stores;
+  return {
+    ...value,
+    stores: {
+      notes: pick(stores.notes, isNote, 'notes', skipped).map(note => ({
+        ...note,
+        tags: Array.isArray(note.tags) ? note.tags : [],
+        journalId: typeof note.journalId === 'string' ? note.journalId : DEFAULT_JOURNAL_ID,
+        mood: normalizeMood(note.mood),
+        emotions: normalizeEmotions(note.emotions),
+        updatedAt: note.updatedAt ?? note.createdAt,
+        revision: note.revision ?? 1
+      })),
+      habits: pick(stores.habits, isHabit, 'habits', skipped),
+      journals: pick(stores.journals, isJournal, 'journals', skipped).map(journal => ({
+        ...journal,
+        color: JOURNAL_COLORS.some(c => c.id === journal.color) ? journal.color : 'indigo',
+        createdAt: journal.createdAt ?? 0,
+        updatedAt: journal.updatedAt ?? journal.createdAt ?? 0
+      })),
+      noteHistory: pick(stores.noteHistory, isRevision, 'revisions', skipped),
+      drafts: pick(stores.drafts, isDraft, 'drafts', skipped),
+      reflections: pick(stores.reflections, isReflection, 'reflections', skipped).map(reflection => ({
+        ...reflection,
+        journalId: typeof reflection.journalId === 'string' ? reflection.journalId : DEFAULT_JOURNAL_ID
+      })),
+      templates: pick(stores.templates, isTemplate, 'templates', skipped).map(template => ({
+        ...template,
+        tags: Array.isArray(template.tags) ? template.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+        createdAt: template.createdAt ?? 0,
+        updatedAt: template.updatedAt ?? template.createdAt ?? 0
+      })),
+      meta: pick(stores.meta, isMeta, 'settings', skipped).filter(entry => PORTABLE_META_KEYS.includes(entry.key)),
+      keyring: pick(stores.keyring, isKeyRing, 'encryption keys', skipped)
+    }
+  };
+};
+
+// --- Merge ---
+
+// Decrypts an encrypted archive. Its key rings are unlocked with the passphrase unless
+// this device already holds the keys, e.g. when restoring a backup made here.
+const openArchive = async (archive: BackupArchive, report: ImportReport, passphrase?: string): Promise<BackupArchive> => {
+  const { notes, noteHistory, drafts, reflections, keyring } = archive.stores;
+  const sealed = [...notes, ...noteHistory, ...drafts, ...reflections].filter(record => record.encrypted);
+  if (sealed.length === 0) return archive;
+
+  if (sealed.some(text => !vault.canOpen(text.encrypted!))) {
+    if (!passphrase) throw new BackupError('This backup is encrypted. Enter its passphrase to import it.', undefined, 'passphrase');
+    try {
+      await vault.unlock(passphrase, keyring);
+    } catch (err) {
+      throw new BackupError('Wrong passphrase for this backup.', err, 'passphrase');
+    }
+  }
+
+  const openAll = async <T>(records: T[], label: string, open: (record: T) => Promise<T>) => {
+    const opened = await Promise.all(records.map(record => open(record).catch(() => null)));
+    const readable = opened.filter((record): record is Awaited<T> => record !== null);
+    if (readable.length < records.length) report.skipped.push(`${records.length - readable.length} ${label} encrypted with another passphrase`);
+    return readable;
+  };
+  return {
+    ...archive,
+    stores: {
+      ...archive.stores,
+      notes: await openAll(notes, 'notes', note => dbService.openText(note)),
+      noteHistory: await openAll(noteHistory, 'revisions', revision => dbService.openText(revision)),
+      drafts: await openAll(drafts, 'drafts', draft => dbService.openText(draft)),
+      reflections: await openAll(reflections, 'reflections', reflection => dbService.openReflection(reflection))
+    }
+  };
+};
+
+const sameNote = (a: Note, b: Note) =>
+  a.title === b.title && a.content === b.content && a.journalId === b.journalId
+  && [...a.tags].sort().join() === [...b.tags].sort().join() && a.mood === b.mood && [...a.emotions ?? []].sort().join() === [...b.emotions ?? []].sort().join();
+
+const sameHabitSettings = (a: Habit, b: Habit) =>
+  a.name === b.name && JSON.stringify(a.schedule ?? DEFAULT_SCHEDULE) === JSON.stringify(b.schedule ?? DEFAULT_SCHEDULE);
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b])).sort();
+
+// Merges by id. For notes edited on both sides the newer edit wins and the other
+// version is kept in the note's history. Habit check-ins are combined; if the habit
+// itself was renamed or rescheduled, this device's settings are kept. Journals and
+// reflections missing here are added; ones that exist keep this device's version.
+// Templates are added or replaced by the newer edit.
+export const mergeArchive = async (archive: BackupArchive, report: ImportReport): Promise<ImportBatch> => {
+  const [notes, habits, journals, templates, existing, { weekStartsOn }] = await Promise.all([
+    dbService.getAllNotes(),
+    dbService.getAllHabits(),
+    dbService.getJournals(),
+    dbService.getTemplates(),
+    dbService.exportStores(['noteHistory', 'drafts', 'reflections', 'meta']),
+    getSettings()
+  ]);
+  const localNotes = new Map(notes.map(n => [n.id, n]));
+  const localHabits = new Map(habits.map(h => [h.id, h]));
+  const localTemplates = new Map(templates.map(t => [t.id, t]));
+  const batch: ImportBatch = { notes: [], habits: [], journals: [], revisions: [], drafts: [], reflections: [], templates: [], meta: [], keyrings: [] };
+
+  archive.stores.notes.forEach(imported => {
+    const local = localNotes.get(imported.id);
+    if (!local) {
+      batch.notes.push(imported);
+      report.added++;
+    } else if (sameNote(local, imported)) {
+      report.unchanged++;
+    } else if (imported.updatedAt > local.updatedAt) {
+      batch.notes.push({ ...imported, createdAt: local.createdAt });
+      report.updated++;
+      report.conflicts.push({ store: 'notes', id: local.id, title: local.title, resolution: "Imported the newer version. This device's version is in the note's history." });
+    } else {
+      batch.revisions.push({
+        id: crypto.randomUUID(),
+        noteId: local.id,
+        revision: imported.revision,
+        title: imported.title,
+        content: imported.content,
+        updatedAt: imported.updatedAt,
+        source: 'import'
+      });
+      report.unchanged++;
+      report.conflicts.push({ store: 'notes', id: local.id, title: local.title, resolution: "Kept this device's newer version. The imported one is in the note's history." });
+    }
+  });
+
+  archive.stores.habits.forEach(imported => {
+    const local = localHabits.get(imported.id);
+    if (!local) {
+      batch.habits.push({ ...imported, streak: computeStreaks(imported, todayKey(), weekStartsOn).current });
+      report.added++;
+      return;
+    }
+    const completedDays = union(local.completedDays, imported.completedDays);
+    const skippedDays = union(local.skippedDays ?? [], imported.skippedDays ?? []).filter(d => !completedDays.includes(d));
+    const changed = completedDays.length !== local.completedDays.length || skippedDays.length !== (local.skippedDays ?? []).length;
+    if (changed) {
+      const merged = { ...local, completedDays, skippedDays };
+      batch.habits.push({ ...merged, streak: computeStreaks(merged, todayKey(), weekStartsOn).current });
+      report.updated++;
+    } else {
+      report.unchanged++;
+    }
+    if (!sameHabitSettings(local, imported)) {
+      report.conflicts.push({ store: 'habits', id: local.id, title: local.name, resolution: `Kept this device's name and schedule; "${imported.name}" differed.` });
+    }
+  });
+
+  const knownJournals = new Set(journals.map(j => j.id));
+  batch.journals = archive.stores.journals.filter(j => !knownJournals.has(j.id));
+  report.added += batch.journals.length;
+
+  archive.stores.templates.forEach(imported => {
+    const local = localTemplates.get(imported.id);
+    if (!local) {
+      batch.templates.push(imported);
+      report.added++;
+    } else if (imported.updatedAt > local.updatedAt) {
+      batch.templates.push({ ...imported, createdAt: local.createdAt });
+      report.updated++;
+    } else {
+      report.unchanged++;
+    }
+  });
+
+  // History and drafts are only added, never overwritten
+  const knownRevisions = new Set((existing.noteHistory as NoteRevision[]).map(r => r.id));
+  const noteIds = new Set([...localNotes.keys(), ...batch.notes.map(n => n.id)]);
+  batch.revisions.push(...archive.stores.noteHistory.filter(r => !knownRevisions.has(r.id) && noteIds.has(r.noteId)));
+
+  const knownDrafts = new Set((existing.drafts as NoteDraft[]).map(d => d.id));
+  batch.drafts = archive.stores.drafts.filter(d => !knownDrafts.has(d.id));
+
+  const knownReflections = new Set((existing.reflections as Reflection[]).map(r => r.id));
+  batch.reflections = archive.stores.reflections.filter(r => !knownReflections.has(r.id));
+  report.added += batch.reflections.length;
+
+  const knownMeta = new Set((existing.meta as { key: string }[]).map(m => m.key));
+  batch.meta = archive.stores.meta.filter(m => !knownMeta.has(m.key));
+
+  // Restoring an encrypted backup onto a device without encryption turns it on with the backup's keys
+  if (!vault.enabled) batch.keyrings = archive.stores.keyring;
+
+  return batch;
+};
+
+// --- Import ---
+
+const emptyArchive = (notes: Note[]): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  stores: { notes, habits: [], journals: [], noteHistory: [], drafts: [], reflections: [], templates: [], meta: [], keyring: [] }
+});
+
+const toNote = async (entry: ParsedEntry, path: string): Promise<Note> => ({
+  id: entry.id ?? await idForPath(path),
+  title: entry.title,
+  content: entry.content,
+  tags: entry.tags,
+  journalId: DEFAULT_JOURNAL_ID,
+  mood: entry.mood,
+  emotions: entry.emotions,
+  createdAt: entry.createdAt,
+  updatedAt: entry.updatedAt,
+  revision: 1,
+  synced: false
+});
+
+interface SourceFile {
+  path: string;
+  lastModified: number;
+  text: () => Promise<string>;
+}
+
+const isMarkdown = (path: string) => /\.(md|markdown)$/i.test(path);
+// Obsidian keeps its settings and trash next to the notes
+const isHidden = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+// Sorts a set of files into a ZenMind archive and a list of notes from other apps.
+const readSources = async (sources: SourceFile[], report: ImportReport) => {
+  const archives: BackupArchive[] = [];
+  const notes: Note[] = [];
+  let ignored = 0;
+
+  for (const source of sources) {
+    if (isHidden(source.path)) continue;
+    try {
+      if (isMarkdown(source.path)) {
+        notes.push(await toNote(parseMarkdownEntry(source.path, await source.text(), source.lastModified), source.path));
+      } else if (/\.json$/i.test(source.path)) {
+        const data = JSON.parse(await source.text());
+        if (isDayOneJournal(data)) {
+          const entries = parseDayOneJournal(data);
+          notes.push(...await Promise.all(entries.map((entry, i) => toNote(entry, `${source.path}#${i}`))));
+        } else {
+          archives.push(validateArchive(data, report.skipped));
+        }
+      } else {
+        ignored++;
+      }
+    } catch (err) {
+      if (err instanceof BackupError) throw err;
+      report.skipped.push(`${source.path}: ${err instanceof Error ? err.message : 'unreadable'}`);
+    }
+  }
+  if (ignored > 0) report.skipped.push(`${ignored} other file${ignored === 1 ? '' : 's'} (attachments, CSV) ignored`);
+  return { archives, notes };
+};
+
+const fromFile = (file: File): SourceFile => ({
+  path: file.webkitRelativePath || file.name,
+  lastModified: file.lastModified,
+  text: () => file.text()
+});
+
+// Imports a JSON backup, a Markdown zip (ours, Day One or an Obsidian vault), or the
+// files of a picked folder. Everything is merged in one batch so a failure leaves no
+// partial import behind.
+export const importFiles = async (files: File[], passphrase?: string): Promise<ImportReport> => {
+  const report: ImportReport = { added: 0, updated: 0, unchanged: 0, conflicts: [], skipped: [] };
+  const sources: SourceFile[] = [];
+
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      let entries;
+      try {
+        entries = await readZip(file);
+      } catch (err) {
+        throw new BackupError(`${file.name} could not be opened as a zip archive.`, err);
+      }
+      entries.forEach(entry => sources.push({
+        path: entry.name,
+        lastModified: file.lastModified,
+        text: async () => new TextDecoder().decode(entry.data)
+      }));
+    } else {
+      sources.push(fromFile(file));
+    }
+  }
+
+  const { archives, notes } = await readSources(sources, report);
+  if (archives.length === 0 && notes.length === 0) {
+    throw new BackupError('No ZenMind backup or Markdown entries were found.');
+  }
+
+  const batch: ImportBatch = { notes: [], habits: [], journals: [], revisions: [], drafts: [], reflections: [], templates: [], meta: [], keyrings: [] };
+  for (const archive of [...archives, emptyArchive(notes)]) {
+    const merged = await mergeArchive(await openArchive(archive, report, passphrase), report);
+    batch.notes.push(...merged.notes);
+    batch.habits.push(...merged.habits);
+    batch.journals.push(...merged.journals);
+    batch.revisions.push(...merged.revisions);
+    batch.drafts.push(...merged.drafts);
+    batch.reflections.push(...merged.reflections);
+    batch.templates.push(...merged.templates);
+    batch.meta.push(...merged.meta);
+    batch.keyrings.push(...merged.keyrings);
+  }
+  await dbService.importRecords(batch);
+  return report;
+};
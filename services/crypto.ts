@@ -0,0 +1,198 @@
+import { EncryptedText, KeyRing, StoredText } from '../types';
+
+// Optional end-to-end encryption. Each key ring holds a random AES-GCM data key wrapped
+// (AES-KW) with a key derived from the passphrase by PBKDF2, so changing the passphrase
+// only rewraps the data key. Key rings sync like notes; they are useless without the
+// passphrase. Unwrapped keys live only in memory and are dropped on lock.
+
+type NoteText = Omit<StoredText, 'encrypted'>;
+
+export class VaultError extends Error {
+  constructor(message: string, public reason: 'locked' | 'passphrase') {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+const PBKDF2_ITERATIONS = 600_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    material,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const wrap = async (id: string, dataKey: CryptoKey, passphrase: string, createdAt: number): Promise<KeyRing> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, 'AES-KW');
+  return { id, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, wrappedKey: toBase64(wrapped), createdAt };
+};
+
+// AES-KW fails its integrity check on a wrong passphrase, which is how one is detected
+const unwrap = async (ring: KeyRing, passphrase: string): Promise<CryptoKey | null> => {
+  try {
+    const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(ring.salt), ring.iterations);
+    return await crypto.subtle.unwrapKey(
+      'raw', fromBase64(ring.wrappedKey) as BufferSource, wrappingKey, 'AES-KW', 'AES-GCM', true, ['encrypt', 'decrypt']
+    );
+  } catch {
+    return null;
+  }
+};
+
+class Vault {
+  private rings: KeyRing[] = [];
+  private keys = new Map<string, CryptoKey>();
+  private listeners = new Set<() => void>();
+
+  // Called by the database whenever its key rings change, including ones pulled from another device.
+  setRings(rings: KeyRing[]) {
+    this.rings = [...rings].sort((a, b) => b.createdAt - a.createdAt);
+    const ids = new Set(rings.map(r => r.id));
+    [...this.keys.keys()].filter(id => !ids.has(id)).forEach(id => this.keys.delete(id));
+    this.notify();
+  }
+
+  get enabled() {
+    return this.rings.length > 0;
+  }
+
+  get locked() {
+    return this.enabled && this.keys.size === 0;
+  }
+
+  getRings() {
+    return this.rings;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async createRing(passphrase: string): Promise<KeyRing> {
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const ring = await wrap(crypto.randomUUID(), key, passphrase, Date.now());
+    this.keys.set(ring.id, key);
+    return ring;
+  }
+
+  // Unwraps every ring this passphrase opens. Rings made elsewhere with another passphrase stay locked.
+  async unlock(passphrase: string, rings = this.rings): Promise<void> {
+    let opened = 0;
+    for (const ring of rings) {
+      const key = await unwrap(ring, passphrase);
+      if (!key) continue;
+      this.keys.set(ring.id, key);
+      opened++;
+    }
+    if (opened === 0) throw new VaultError('Wrong passphrase.', 'passphrase');
+    this.notify();
+  }
+
+  // Confirms the passphrase against the active ring before anything is rewrapped or decrypted for good.
+  async verify(passphrase: string): Promise<void> {
+    const ring = this.rings.find(r => r.id === this.activeKeyId())!;
+    if (!(await unwrap(ring, passphrase))) throw new VaultError('Wrong passphrase.', 'passphrase');
+  }
+
+  // The same data keys wrapped under a new passphrase.
+  async rewrap(passphrase: string): Promise<KeyRing[]> {
+    return Promise.all(this.rings
+      .filter(ring => this.keys.has(ring.id))
+      .map(ring => wrap(ring.id, this.keys.get(ring.id)!, passphrase, ring.createdAt)));
+  }
+
+  lock() {
+    if (this.keys.size === 0) return;
+    this.keys.clear();
+    this.notify();
+  }
+
+  // New data is sealed with the newest key that is unlocked.
+  activeKeyId() {
+    const ring = this.rings.find(r => this.keys.has(r.id));
+    if (!ring) throw new VaultError('Your journal is locked.', 'locked');
+    return ring.id;
+  }
+
+  hasKey(keyId: string) {
+    return this.keys.has(keyId);
+  }
+
+  canOpen(encrypted: EncryptedText) {
+    return this.keys.has(encrypted.keyId);
+  }
+
+  async seal(text: NoteText): Promise<EncryptedText> {
+    const { title, content, tags, mood, emotions } = text;
+    return this.sealData({ title, content, tags, mood, emotions });
+  }
+
+  async open(encrypted: EncryptedText): Promise<NoteText> {
+    return this.openData<NoteText>(encrypted);
+  }
+
+  // Attachments are sealed as bytes; the ciphertext stays a Blob
+  async sealBlob(blob: Blob): Promise<{ blob: Blob; sealed: Pick<EncryptedText, 'keyId' | 'iv'> }> {
+    const keyId = this.activeKeyId();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.keys.get(keyId)!, await blob.arrayBuffer());
+    return { blob: new Blob([data]), sealed: { keyId, iv: toBase64(iv) } };
+  }
+
+  async openBlob(blob: Blob, sealed: Pick<EncryptedText, 'keyId' | 'iv'>, type: string): Promise<Blob> {
+    const key = this.keys.get(sealed.keyId);
+    if (!key) throw new VaultError('This attachment is encrypted with a key that is not unlocked.', 'locked');
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) as BufferSource }, key, await blob.arrayBuffer());
+    return new Blob([data], { type });
+  }
+
+  // Any JSON value, for records other than note text
+  async sealData(value: unknown): Promise<EncryptedText> {
+    const keyId = this.activeKeyId();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.keys.get(keyId)!,
+      encoder.encode(JSON.stringify(value))
+    );
+    return { keyId, iv: toBase64(iv), data: toBase64(data) };
+  }
+
+  async openData<T>(encrypted: EncryptedText): Promise<T> {
+    const key = this.keys.get(encrypted.keyId);
+    if (!key) throw new VaultError('This entry is encrypted with a key that is not unlocked.', 'locked');
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.iv) as BufferSource },
+      key,
+      fromBase64(encrypted.data) as BufferSource
+    );
+    return JSON.parse(decoder.decode(data));
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const vault = new Vault();
@@ -1,45 +1,347 @@
-
-import { Note, Habit } from '../types';
+import { Attachment, EntryTemplate, Note, Habit, Journal, KeyRing, NoteConflict, NoteDraft, NoteBase, NoteEmbedding, NoteRevision, OutboxEntry, Reflection, StoredText, SyncChange, SyncStoreName } from '../types';
+import { MigrationError, SCHEMA_VERSION, runMigrations } from './migrations';
+import { tokenize, tokenizeNote } from './search';
+import { VaultError, vault } from './crypto';
+import { DEFAULT_JOURNAL_ID } from './journals';
+import { mergeMetadata, toBase } from './merge';
 
 const DB_NAME = 'ZenMindDB';
-const DB_VERSION = 1;
+
+const outboxKey = (store: SyncStoreName, id: string) => `${store}:${id}`;
+
+// A note change whose record isn't sealed
+const carriesPlaintext = (change: Pick<SyncChange, 'store' | 'op' | 'record'>) =>
+  change.store === 'notes' && change.op === 'put' && !!change.record && !(change.record as Note).encrypted;
+
+const toRevision = (note: Note, source: NoteRevision['source']): NoteRevision => ({
+  id: crypto.randomUUID(),
+  noteId: note.id,
+  revision: note.revision,
+  title: note.title,
+  content: note.content,
+  updatedAt: note.updatedAt,
+  source,
+  encrypted: note.encrypted
+});
+
+const deleteByNote = (transaction: IDBTransaction, storeName: string, noteId: string) => {
+  const store = transaction.objectStore(storeName);
+  store.index('noteId').getAllKeys(noteId).onsuccess = (e: any) => {
+    e.target.result.forEach((key: IDBValidKey) => store.delete(key));
+  };
+};
+
+// Every word but the last must match exactly; the last one also matches as a prefix
+const matchesTerms = (tokens: string[], terms: string[]) =>
+  terms.every((term, i) => tokens.some(token => token === term || (i === terms.length - 1 && token.startsWith(term))));
+
+interface Rebase {
+  revision: number;
+  base: NoteBase;
+}
+
+// Records already merged against the local data by services/backup.ts.
+export interface ImportBatch {
+  notes: Note[];
+  habits: Habit[];
+  journals: Journal[];
+  revisions: NoteRevision[];
+  drafts: NoteDraft[];
+  reflections: Reflection[];
+  templates: EntryTemplate[];
+  meta: { key: string; value: unknown }[];
+  keyrings: KeyRing[];
+}
 
 export class LocalDatabase {
   private db: IDBDatabase | null = null;
+  private opening: Promise<void> | null = null;
+  private changeListeners = new Set<() => void>();
 
   async init(): Promise<void> {
+    if (!this.opening) {
+      this.opening = this.open().then(() => this.loadKeyRings()).catch(err => {
+        this.opening = null;
+        throw err;
+      });
+    }
+    return this.opening;
+  }
+
+  private open(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
 
       request.onupgradeneeded = (event: any) => {
-        const db = event.target.result;
-        if (!db.objectStoreNames.contains('notes')) {
-          db.createObjectStore('notes', { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains('habits')) {
-          db.createObjectStore('habits', { keyPath: 'id' });
+        try {
+          runMigrations(event.target.result, event.target.transaction, event.oldVersion);
+        } catch (err) {
+          reject(err);
         }
       };
 
       request.onsuccess = (event: any) => {
         this.db = event.target.result;
+        // Let a newer version of the app in another tab upgrade the schema
+        this.db!.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+          this.opening = null;
+        };
         resolve();
       };
 
-      request.onerror = (event: any) => reject(event.target.error);
+      request.onblocked = () => {
+        reject(new MigrationError('ZenMind is open in another tab with an older version. Close it to finish updating.'));
+      };
+
+      request.onerror = (event: any) => {
+        const error = event.target.error;
+        // A stored version above SCHEMA_VERSION means data written by a newer release; never open it with an older schema
+        if (error?.name === 'VersionError') {
+          reject(new MigrationError('Your journal was saved by a newer version of ZenMind. Reload to update the app.', undefined, error));
+        } else {
+          reject(error);
+        }
+      };
     });
   }
 
+  onLocalChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  // Entries sealed with a key that isn't unlocked on this device are left out.
   async getAllNotes(): Promise<Note[]> {
-    return this.getAll('notes');
+    return this.openAll(await this.getAll<Note>('notes'));
   }
 
-  async saveNote(note: Note): Promise<void> {
-    return this.put('notes', note);
+  // Saves a local edit as the next revision of the note and records it in the note's history.
+  async saveNote(note: Note, source: NoteRevision['source'] = 'local', rebase?: Rebase): Promise<Note> {
+    const sealed = await this.sealText(note);
+    const sealedRebase = rebase && { revision: rebase.revision, base: await this.sealText(rebase.base) };
+    let saved = note;
+    await this.write(['notes', 'outbox', 'noteHistory', 'searchIndex'], (transaction) => {
+      const notes = transaction.objectStore('notes');
+      const lookup = notes.get(note.id);
+      lookup.onsuccess = () => {
+        const stored: Note | undefined = lookup.result;
+        const revision = Math.max(stored?.revision ?? 0, rebase?.revision ?? 0) + 1;
+        saved = { ...note, revision, updatedAt: Date.now(), synced: false };
+        const record = { ...sealed, revision, updatedAt: saved.updatedAt, synced: false };
+        notes.put(record);
+        transaction.objectStore('noteHistory').put(toRevision(record, source));
+        this.indexNote(transaction, saved);
+        this.queue(transaction, 'notes', saved.id, 'put', record, stored, sealedRebase);
+      };
+    });
+    this.notifyLocalChange();
+    return saved;
   }
 
   async deleteNote(id: string): Promise<void> {
-    return this.delete('notes', id);
+    await this.write(['notes', 'outbox', 'noteHistory', 'searchIndex', 'embeddings', 'attachments'], (transaction) => {
+      const notes = transaction.objectStore('notes');
+      const lookup = notes.get(id);
+      lookup.onsuccess = () => {
+        notes.delete(id);
+        transaction.objectStore('searchIndex').delete(id);
+        transaction.objectStore('embeddings').delete(id);
+        this.queue(transaction, 'notes', id, 'delete', undefined, lookup.result);
+      };
+      deleteByNote(transaction, 'noteHistory', id);
+      deleteByNote(transaction, 'attachments', id);
+    });
+    this.notifyLocalChange();
+  }
+
+  // IDs of notes containing every word of the query; the last word also matches as a prefix
+  // so results update while typing. Returns null for an empty query.
+  async searchNotes(query: string): Promise<Set<string> | null> {
+    const terms = tokenize(query);
+    if (terms.length === 0) return null;
+    if (!this.db) await this.init();
+
+    // An index of plaintext words would leak what the encryption protects, so scan the opened notes instead
+    if (vault.enabled) {
+      const notes = await this.getAllNotes();
+      return new Set(notes.filter(note => matchesTerms(tokenizeNote(note), terms)).map(note => note.id));
+    }
+
+    const lookups = terms.map((term, i) => new Promise<Set<string>>((resolve, reject) => {
+      const range = i === terms.length - 1 ? IDBKeyRange.bound(term, `${term}\uffff`) : IDBKeyRange.only(term);
+      const request = this.db!.transaction('searchIndex', 'readonly').objectStore('searchIndex').index('tokens').getAllKeys(range);
+      request.onsuccess = () => resolve(new Set(request.result as string[]));
+      request.onerror = () => reject(request.error);
+    }));
+
+    const [first, ...rest] = (await Promise.all(lookups)).sort((a, b) => a.size - b.size);
+    return new Set([...first].filter(id => rest.every(ids => ids.has(id))));
+  }
+
+  async getNoteHistory(noteId: string): Promise<NoteRevision[]> {
+    if (!this.db) await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction('noteHistory', 'readonly');
+      const request = transaction.objectStore('noteHistory').index('noteId').getAll(noteId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(history => this.openAll(history as NoteRevision[])).then(history => history.sort((a, b) => b.updatedAt - a.updatedAt));
+  }
+
+  async restoreRevision(revision: NoteRevision): Promise<Note | null> {
+    const note = (await this.getAllNotes()).find(n => n.id === revision.noteId);
+    if (!note) return null;
+    return this.saveNote({ ...note, title: revision.title, content: revision.content }, 'restore');
+  }
+
+  // Drafts are unsaved form text kept across reloads. They stay on this device and never sync.
+  async getDraft(id: string): Promise<NoteDraft | undefined> {
+    const draft = await this.get<NoteDraft>('drafts', id);
+    return draft && (await this.openAll([draft]))[0];
+  }
+
+  async saveDraft(draft: NoteDraft): Promise<void> {
+    return this.put('drafts', await this.sealText(draft));
+  }
+
+  async deleteDraft(id: string): Promise<void> {
+    return this.delete('drafts', id);
+  }
+
+  async getAllConflicts(): Promise<NoteConflict[]> {
+    const conflicts = await this.getAll<NoteConflict>('conflicts');
+    const opened = await Promise.all(conflicts.map(async conflict => {
+      try {
+        const [local, remote, base] = await Promise.all([
+          this.openText(conflict.local),
+          this.openText(conflict.remote),
+          conflict.base && this.openText(conflict.base)
+        ]);
+        return { ...conflict, local, remote, base };
+      } catch {
+        return null;
+      }
+    }));
+    return opened.filter((conflict): conflict is NoteConflict => conflict !== null);
+  }
+
+  // Records a conflict that couldn't be merged automatically. The local change is
+  // taken out of the outbox until the user picks a resolution.
+  async saveConflict(entry: OutboxEntry, conflict: NoteConflict): Promise<void> {
+    const [local, remote, base] = await Promise.all([
+      this.sealText(conflict.local),
+      this.sealText(conflict.remote),
+      conflict.base && this.sealText(conflict.base)
+    ]);
+    await this.write(['outbox', 'conflicts', 'noteHistory'], (transaction) => {
+      this.dequeue(transaction, entry);
+      transaction.objectStore('conflicts').put({ ...conflict, local, remote, base });
+      transaction.objectStore('noteHistory').put(toRevision(remote, 'remote'));
+    });
+  }
+
+  // Saves the merged text on top of the remote revision, so the next push no longer conflicts.
+  // Tags and other metadata changed on either side are merged whichever text was chosen.
+  async resolveConflict(conflict: NoteConflict, resolved: Pick<Note, 'title' | 'content'>, source: NoteRevision['source'] = 'merge'): Promise<Note> {
+    const { remote } = conflict;
+    const rebase = { revision: remote.revision, base: toBase(remote) };
+    const merged = { ...conflict.local, ...mergeMetadata(conflict.base, conflict.local, remote), ...resolved };
+    const saved = await this.saveNote(merged, source, rebase);
+    await this.delete('conflicts', conflict.noteId);
+    return saved;
+  }
+
+  // The remote change supersedes the local one, e.g. a local delete of a note that was edited elsewhere.
+  async acceptRemote(entry: OutboxEntry, remote: SyncChange): Promise<void> {
+    const { change, sealedHere } = await this.sealIncoming(remote);
+    await this.write(['outbox', 'notes', 'habits', 'journals', 'keyring', 'noteHistory', 'searchIndex', 'attachments'], (transaction) => {
+      this.dequeue(transaction, entry);
+      this.applyChange(transaction, change, sealedHere);
+    });
+    await this.loadKeyRings();
+  }
+
+  // Insight history stays on this device; it is not synced.
+  async getReflections(): Promise<Reflection[]> {
+    const reflections = await this.getAll<Reflection>('reflections');
+    const opened = await Promise.all(reflections.map(r => this.openReflection(r).catch(() => null)));
+    return opened.filter((r): r is Reflection => r !== null).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async saveReflection(reflection: Reflection): Promise<void> {
+    return this.put('reflections', await this.sealReflection(reflection));
+  }
+
+  async deleteReflection(id: string): Promise<void> {
+    return this.delete('reflections', id);
+  }
+
+  // Embeddings are a local cache for journal chat and are never synced or backed up.
+  async getEmbeddings(): Promise<NoteEmbedding[]> {
+    const embeddings = await this.getAll<NoteEmbedding>('embeddings');
+    const opened = await Promise.all(embeddings.map(async ({ encrypted, ...embedding }) => {
+      if (!encrypted) return embedding;
+      if (!vault.canOpen(encrypted)) return null;
+      return { ...embedding, vector: await vault.openData<number[]>(encrypted) };
+    }));
+    return opened.filter((e): e is NoteEmbedding => e !== null);
+  }
+
+  async saveEmbeddings(embeddings: NoteEmbedding[], removedIds: string[] = []): Promise<void> {
+    const sealed = await Promise.all(embeddings.map(async embedding =>
+      vault.enabled ? { ...embedding, vector: [], encrypted: await vault.sealData(embedding.vector) } : embedding
+    ));
+    await this.write(['embeddings'], (transaction) => {
+      const store = transaction.objectStore('embeddings');
+      sealed.forEach(embedding => store.put(embedding));
+      removedIds.forEach(id => store.delete(id));
+    });
+  }
+
+  // Photos and voice memos, oldest first; they never leave the device. With encryption on
+  // their blobs are sealed, and openAttachment reads and decrypts one when it is shown.
+  async getAttachments(): Promise<Attachment[]> {
+    return (await this.getAll<Attachment>('attachments')).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async saveAttachment(attachment: Attachment): Promise<void> {
+    return this.put('attachments', await this.sealAttachment(attachment));
+  }
+
+  async openAttachment(id: string): Promise<Blob | undefined> {
+    const attachment = await this.get<Attachment>('attachments', id);
+    return attachment && (await this.unsealAttachment(attachment)).blob;
+  }
+
+  async deleteAttachment(id: string): Promise<void> {
+    return this.delete('attachments', id);
+  }
+
+  // Hands the attachments of the new-entry draft to the entry once it is saved
+  async moveAttachments(fromNoteId: string, toNoteId: string): Promise<void> {
+    await this.write(['attachments'], (transaction) => {
+      transaction.objectStore('attachments').index('noteId').openCursor(fromNoteId).onsuccess = (e: any) => {
+        const cursor: IDBCursorWithValue | null = e.target.result;
+        if (!cursor) return;
+        cursor.update({ ...cursor.value, noteId: toNoteId });
+        cursor.continue();
+      };
+    });
+  }
+
+  // The user's own entry templates; built-in ones live in services/templates.ts
+  async getTemplates(): Promise<EntryTemplate[]> {
+    return (await this.getAll<EntryTemplate>('templates')).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async saveTemplate(template: EntryTemplate): Promise<void> {
+    return this.put('templates', template);
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    return this.delete('templates', id);
   }
 
   async getAllHabits(): Promise<Habit[]> {
@@ -47,7 +349,474 @@ export class LocalDatabase {
   }
 
   async saveHabit(habit: Habit): Promise<void> {
-    return this.put('habits', habit);
+    await this.write(['habits', 'outbox'], (transaction) => {
+      const record = { ...habit, synced: false };
+      transaction.objectStore('habits').put(record);
+      this.queue(transaction, 'habits', habit.id, 'put', record);
+    });
+    this.notifyLocalChange();
+  }
+
+  async getJournals(): Promise<Journal[]> {
+    return this.getAll('journals');
+  }
+
+  async saveJournal(journal: Journal): Promise<void> {
+    await this.write(['journals', 'outbox'], (transaction) => {
+      const record = { ...journal, updatedAt: Date.now(), synced: false };
+      transaction.objectStore('journals').put(record);
+      this.queue(transaction, 'journals', journal.id, 'put', record);
+    });
+    this.notifyLocalChange();
+  }
+
+  // Deleting a journal keeps its entries: they move to the default journal as new revisions.
+  // journalId is stored outside the encrypted text, so this works while entries are sealed.
+  async deleteJournal(id: string): Promise<void> {
+    if (id === DEFAULT_JOURNAL_ID) return;
+    await this.write(['journals', 'notes', 'outbox'], (transaction) => {
+      transaction.objectStore('journals').delete(id);
+      this.queue(transaction, 'journals', id, 'delete');
+      transaction.objectStore('notes').openCursor().onsuccess = (e: any) => {
+        const cursor: IDBCursorWithValue | null = e.target.result;
+        if (!cursor) return;
+        const stored: Note = cursor.value;
+        if (stored.journalId === id) {
+          const record = { ...stored, journalId: DEFAULT_JOURNAL_ID, revision: stored.revision + 1, updatedAt: Date.now(), synced: false };
+          cursor.update(record);
+          this.queue(transaction, 'notes', record.id, 'put', record, stored);
+        }
+        cursor.continue();
+      };
+    });
+    this.notifyLocalChange();
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    return this.getAll('outbox');
+  }
+
+  // Queues every local record, used for the initial upload when sync is first enabled.
+  async queueAll(): Promise<void> {
+    const [notes, habits, journals, keyrings] = await Promise.all([
+      this.getAll<Note>('notes'),
+      this.getAllHabits(),
+      this.getJournals(),
+      this.getAll<KeyRing>('keyring')
+    ]);
+    await this.write(['outbox'], (transaction) => {
+      notes.forEach(note => this.queue(transaction, 'notes', note.id, 'put', note, note));
+      habits.forEach(habit => this.queue(transaction, 'habits', habit.id, 'put', habit));
+      journals.forEach(journal => this.queue(transaction, 'journals', journal.id, 'put', journal));
+      keyrings.forEach(ring => this.queue(transaction, 'keyring', ring.id, 'put', ring));
+    });
+  }
+
+  // Drops acknowledged outbox entries and flips `synced` on their records. An entry
+  // that was replaced by a newer local change while the push was in flight is kept.
+  async acknowledgeChanges(entries: OutboxEntry[], ackedIds: string[]): Promise<void> {
+    const acked = new Set(ackedIds);
+    await this.write(['outbox', 'notes', 'habits', 'journals', 'keyring'], (transaction) => {
+      const outbox = transaction.objectStore('outbox');
+      entries.filter(entry => acked.has(entry.changeId)).forEach(entry => {
+        const lookup = outbox.get(entry.key);
+        lookup.onsuccess = () => {
+          const current: OutboxEntry | undefined = lookup.result;
+          if (!current || current.changeId !== entry.changeId) return;
+          outbox.delete(entry.key);
+          if (entry.op !== 'put') return;
+          const store = transaction.objectStore(entry.store);
+          const record = store.get(entry.id);
+          record.onsuccess = () => {
+            if (record.result) store.put({ ...record.result, synced: true });
+          };
+        };
+      });
+    });
+  }
+
+  // Drops entries the server refused; their records stay as they are locally.
+  async discardOutbox(entries: OutboxEntry[]): Promise<void> {
+    await this.write(['outbox'], (transaction) => {
+      entries.forEach(entry => this.dequeue(transaction, entry));
+    });
+  }
+
+  async rescheduleOutbox(entries: OutboxEntry[], delayFor: (attempts: number) => number): Promise<void> {
+    const now = Date.now();
+    await this.write(['outbox'], (transaction) => {
+      const outbox = transaction.objectStore('outbox');
+      entries.forEach(entry => {
+        const lookup = outbox.get(entry.key);
+        lookup.onsuccess = () => {
+          const current: OutboxEntry | undefined = lookup.result;
+          if (!current || current.changeId !== entry.changeId) return;
+          const attempts = current.attempts + 1;
+          outbox.put({ ...current, attempts, nextAttemptAt: now + delayFor(attempts) });
+        };
+      });
+    });
+  }
+
+  // Applies changes pulled from the server together with the new cursor. Records
+  // with a pending local change are left alone; that change is pushed next.
+  async applyRemoteChanges(changes: SyncChange[], cursor: string): Promise<number> {
+    let applied = 0;
+    const incoming = await Promise.all(changes.map(change => this.sealIncoming(change)));
+    await this.write(['outbox', 'notes', 'habits', 'journals', 'keyring', 'noteHistory', 'searchIndex', 'attachments', 'meta'], (transaction) => {
+      const outbox = transaction.objectStore('outbox');
+      incoming.forEach(({ change, sealedHere }) => {
+        const pending = outbox.get(outboxKey(change.store, change.id));
+        pending.onsuccess = () => {
+          if (pending.result) return;
+          this.applyChange(transaction, change, sealedHere);
+          applied++;
+        };
+      });
+      transaction.objectStore('meta').put({ key: 'syncCursor', value: cursor });
+    });
+    await this.loadKeyRings();
+    return applied;
+  }
+
+  async exportStores(storeNames: string[]): Promise<Record<string, unknown[]>> {
+    const records = await Promise.all(storeNames.map(name => this.getAll<unknown>(name)));
+    return Object.fromEntries(storeNames.map((name, i) => [name, records[i]]));
+  }
+
+  // Writes an import in a single transaction. Notes, habits and journals are queued like local
+  // edits so they reach other devices; an overwritten note becomes its next revision.
+  // Key rings come first so the imported text is sealed with them when this device had none.
+  async importRecords(batch: ImportBatch): Promise<void> {
+    if (batch.keyrings.length > 0) vault.setRings([...vault.getRings(), ...batch.keyrings]);
+    const [notes, revisions, drafts, reflections] = await Promise.all([
+      Promise.all(batch.notes.map(note => this.sealText(note))),
+      Promise.all(batch.revisions.map(revision => this.sealText(revision))),
+      Promise.all(batch.drafts.map(draft => this.sealText(draft))),
+      Promise.all(batch.reflections.map(reflection => this.sealReflection(reflection)))
+    ]);
+
+    await this.write(['notes', 'habits', 'journals', 'keyring', 'outbox', 'noteHistory', 'searchIndex', 'drafts', 'reflections', 'templates', 'meta'], (transaction) => {
+      batch.keyrings.forEach(ring => {
+        transaction.objectStore('keyring').put(ring);
+        this.queue(transaction, 'keyring', ring.id, 'put', ring);
+      });
+      const store = transaction.objectStore('notes');
+      notes.forEach((note, i) => {
+        const lookup = store.get(note.id);
+        lookup.onsuccess = () => {
+          const stored: Note | undefined = lookup.result;
+          const saved = { ...note, revision: stored ? Math.max(stored.revision, note.revision) + 1 : note.revision, synced: false };
+          store.put(saved);
+          transaction.objectStore('noteHistory').put(toRevision(saved, 'import'));
+          this.indexNote(transaction, batch.notes[i]);
+          this.queue(transaction, 'notes', saved.id, 'put', saved, stored);
+        };
+      });
+      batch.habits.forEach(habit => {
+        const record = { ...habit, synced: false };
+        transaction.objectStore('habits').put(record);
+        this.queue(transaction, 'habits', habit.id, 'put', record);
+      });
+      batch.journals.forEach(journal => {
+        const record = { ...journal, synced: false };
+        transaction.objectStore('journals').put(record);
+        this.queue(transaction, 'journals', journal.id, 'put', record);
+      });
+      revisions.forEach(revision => transaction.objectStore('noteHistory').put(revision));
+      drafts.forEach(draft => transaction.objectStore('drafts').put(draft));
+      reflections.forEach(reflection => transaction.objectStore('reflections').put(reflection));
+      batch.templates.forEach(template => transaction.objectStore('templates').put(template));
+      batch.meta.forEach(entry => transaction.objectStore('meta').put(entry));
+    });
+    await this.loadKeyRings();
+    this.notifyLocalChange();
+  }
+
+  // Stores new or rewrapped key rings and removes retired ones, on every synced device.
+  async saveKeyRings(rings: KeyRing[], removedIds: string[] = []): Promise<void> {
+    await this.write(['keyring', 'outbox'], (transaction) => {
+      const store = transaction.objectStore('keyring');
+      rings.forEach(ring => {
+        const record = { ...ring, synced: false };
+        store.put(record);
+        this.queue(transaction, 'keyring', ring.id, 'put', record);
+      });
+      removedIds.forEach(id => {
+        store.delete(id);
+        this.queue(transaction, 'keyring', id, 'delete');
+      });
+    });
+    await this.loadKeyRings();
+    this.notifyLocalChange();
+  }
+
+  // Entries sealed before tags, moods and emotions were encrypted along with the text still hold
+  // them in plaintext, and attachments saved before then aren't sealed at all. With the vault
+  // on, notes pulled or drafts left while it was locked may not be sealed either.
+  async hasUnsealedData(): Promise<boolean> {
+    const [notes, drafts, attachments] = await Promise.all([
+      this.getAll<Note>('notes'),
+      this.getAll<NoteDraft>('drafts'),
+      this.getAll<Attachment>('attachments')
+    ]);
+    return [...notes, ...drafts].some(record => record.encrypted
+      ? record.tags?.length || record.mood !== undefined || record.emotions?.length
+      : vault.enabled)
+      || (vault.enabled && attachments.some(attachment => !attachment.sealed));
+  }
+
+  // Outbox entries that still carry a plaintext note, e.g. one queued while this device didn't
+  // know encryption had been turned on elsewhere, are sealed before they are pushed. They get a
+  // fresh changeId, so a push of the plaintext form already in flight can't acknowledge them.
+  // While the journal is locked they are held back instead.
+  async sealOutbox(entries: OutboxEntry[]): Promise<OutboxEntry[]> {
+    if (!vault.enabled || !entries.some(carriesPlaintext)) return entries;
+    if (vault.locked) return entries.filter(entry => !carriesPlaintext(entry));
+    const resealed = await Promise.all(entries.filter(carriesPlaintext).map(async entry => ({
+      previous: entry.changeId,
+      entry: {
+        ...entry,
+        changeId: crypto.randomUUID(),
+        record: await this.sealText(entry.record as Note),
+        base: entry.base && await this.sealText(entry.base)
+      }
+    })));
+    await this.write(['outbox'], (transaction) => {
+      const outbox = transaction.objectStore('outbox');
+      resealed.forEach(({ previous, entry }) => {
+        const lookup = outbox.get(entry.key);
+        lookup.onsuccess = () => {
+          if (lookup.result?.changeId === previous) outbox.put(entry);
+        };
+      });
+    });
+    const byKey = new Map(resealed.map(({ entry }) => [entry.key, entry]));
+    return entries.map(entry => byKey.get(entry.key) ?? entry);
+  }
+
+  // Rewrites all stored note text, including history, drafts, conflicts, reflections,
+  // attachments and pending outbox entries: sealed with the newest unlocked key, or as plaintext when turning
+  // encryption off. Notes are queued again so the server only keeps the new form.
+  // Text sealed with a key that isn't unlocked is left alone, except that turning
+  // encryption off refuses to run while any remains.
+  async reencryptAll(encrypt = vault.enabled): Promise<void> {
+    const [notes, history, drafts, conflicts, outbox, reflections, attachments] = await Promise.all([
+      this.getAll<Note>('notes'),
+      this.getAll<NoteRevision>('noteHistory'),
+      this.getAll<NoteDraft>('drafts'),
+      this.getAll<NoteConflict>('conflicts'),
+      this.getAll<OutboxEntry>('outbox'),
+      this.getAll<Reflection>('reflections'),
+      this.getAll<Attachment>('attachments')
+    ]);
+
+    const readable = (text: { encrypted?: StoredText['encrypted'] } | null | undefined) => !text?.encrypted || vault.canOpen(text.encrypted);
+    const reseal = async <T extends StoredText>(text: T) => this.sealText(await this.openText(text), encrypt);
+    const readableAttachment = (attachment: Attachment) => !attachment.sealed || vault.hasKey(attachment.sealed.keyId);
+
+    const noteOutbox = outbox.filter(entry => entry.store === 'notes' && entry.op === 'put');
+    const unreadable = [...notes, ...history, ...drafts, ...reflections].some(text => !readable(text))
+      || conflicts.some(c => !readable(c.local) || !readable(c.remote) || !readable(c.base))
+      || noteOutbox.some(entry => !readable(entry.record as Note) || !readable(entry.base))
+      || attachments.some(attachment => !readableAttachment(attachment));
+    if (unreadable && !encrypt) {
+      throw new VaultError('Some entries were encrypted with a passphrase that has not been entered on this device.', 'locked');
+    }
+
+    const [newNotes, newHistory, newDrafts, newConflicts, newOutbox, newReflections, newAttachments] = await Promise.all([
+      Promise.all(notes.filter(readable).map(async note => ({ note: await reseal(note), plain: await this.openText(note) }))),
+      Promise.all(history.filter(readable).map(reseal)),
+      Promise.all(drafts.filter(readable).map(reseal)),
+      Promise.all(conflicts
+        .filter(c => readable(c.local) && readable(c.remote) && readable(c.base))
+        .map(async c => ({ ...c, local: await reseal(c.local), remote: await reseal(c.remote), base: c.base && await reseal(c.base) }))),
+      Promise.all(noteOutbox
+        .filter(entry => readable(entry.record as Note) && readable(entry.base))
+        .map(async entry => ({ ...entry, record: await reseal(entry.record as Note), base: entry.base && await reseal(entry.base) }))),
+      Promise.all(reflections.filter(readable).map(async r => this.sealReflection(await this.openReflection(r), encrypt))),
+      Promise.all(attachments.filter(readableAttachment).map(async a => this.sealAttachment(await this.unsealAttachment(a), encrypt)))
+    ]);
+    const pending = new Map(newOutbox.map(entry => [entry.id, entry]));
+
+    await this.write(['notes', 'noteHistory', 'drafts', 'conflicts', 'outbox', 'searchIndex', 'reflections', 'embeddings', 'attachments'], (transaction) => {
+      const outboxStore = transaction.objectStore('outbox');
+      const searchIndex = transaction.objectStore('searchIndex');
+      if (encrypt) searchIndex.clear();
+      // Embeddings are only a cache; they are recomputed in the new form when next needed
+      transaction.objectStore('embeddings').clear();
+
+      newNotes.forEach(({ note, plain }) => {
+        const record = { ...note, synced: false };
+        transaction.objectStore('notes').put(record);
+        if (!encrypt) searchIndex.put({ noteId: plain.id, tokens: tokenizeNote(plain) });
+        const entry = pending.get(note.id);
+        if (entry) {
+          // A fresh changeId, so an in-flight push of the old form can't acknowledge this one
+          outboxStore.put({ ...entry, changeId: crypto.randomUUID(), record });
+        } else {
+          this.queue(transaction, 'notes', note.id, 'put', record, undefined, { revision: note.revision, base: toBase(note) });
+        }
+      });
+      newHistory.forEach(revision => transaction.objectStore('noteHistory').put(revision));
+      newDrafts.forEach(draft => transaction.objectStore('drafts').put(draft));
+      newConflicts.forEach(conflict => transaction.objectStore('conflicts').put(conflict));
+      newReflections.forEach(reflection => transaction.objectStore('reflections').put(reflection));
+      newAttachments.forEach(attachment => transaction.objectStore('attachments').put(attachment));
+    });
+    this.notifyLocalChange();
+  }
+
+  // Removes the note text, tags, mood and emotions from a record and attaches their ciphertext, or the reverse.
+  private async sealText<T extends StoredText>(record: T, encrypt = vault.enabled): Promise<T> {
+    const { encrypted, ...plain } = record;
+    if (!encrypt) return plain as T;
+    const { mood, emotions, ...rest } = plain;
+    const tags = plain.tags === undefined ? {} : { tags: Array.isArray(plain.tags) ? [] : '' };
+    return { ...rest, title: '', content: '', ...tags, encrypted: await vault.seal(record) } as T;
+  }
+
+  async openText<T extends StoredText>(record: T): Promise<T> {
+    if (!record.encrypted) return record;
+    const { encrypted, ...rest } = record;
+    return { ...rest, ...(await vault.open(encrypted)) } as T;
+  }
+
+  private async sealAttachment(attachment: Attachment, encrypt = vault.enabled): Promise<Attachment> {
+    const { sealed, ...plain } = attachment;
+    if (!encrypt) return plain;
+    return { ...plain, ...(await vault.sealBlob(attachment.blob)) };
+  }
+
+  private async unsealAttachment(attachment: Attachment): Promise<Attachment> {
+    if (!attachment.sealed) return attachment;
+    const { sealed, ...plain } = attachment;
+    return { ...plain, blob: await vault.openBlob(attachment.blob, sealed, attachment.mimeType) };
+  }
+
+  private async sealReflection(reflection: Reflection, encrypt = vault.enabled): Promise<Reflection> {
+    const { encrypted, ...plain } = reflection;
+    if (!encrypt) return plain;
+    return { ...plain, insight: { summary: '', suggestions: [] }, encrypted: await vault.sealData(reflection.insight) };
+  }
+
+  async openReflection(reflection: Reflection): Promise<Reflection> {
+    if (!reflection.encrypted) return reflection;
+    const { encrypted, ...rest } = reflection;
+    return { ...rest, insight: await vault.openData(encrypted) };
+  }
+
+  private async openAll<T extends StoredText>(records: T[]): Promise<T[]> {
+    const opened = await Promise.all(records.map(record => this.openText(record).catch(() => null)));
+    return opened.filter((record): record is Awaited<T> => record !== null);
+  }
+
+  private async loadKeyRings() {
+    vault.setRings(await this.getAll<KeyRing>('keyring'));
+  }
+
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    const entry = await this.get<{ key: string; value: T }>('meta', key);
+    return entry?.value;
+  }
+
+  async setMeta<T>(key: string, value: T): Promise<void> {
+    return this.put('meta', { key, value });
+  }
+
+  // Replaces any pending change for the record. Notes keep the base of the first
+  // pending change, since that is what the server last acknowledged.
+  private queue(
+    transaction: IDBTransaction,
+    store: SyncStoreName,
+    id: string,
+    op: 'put' | 'delete',
+    record?: Note | Habit | Journal | KeyRing,
+    stored?: Note,
+    rebase?: Rebase
+  ) {
+    const outbox = transaction.objectStore('outbox');
+    const key = outboxKey(store, id);
+    const lookup = outbox.get(key);
+    lookup.onsuccess = () => {
+      const pending: OutboxEntry | undefined = lookup.result;
+      const now = Date.now();
+      const entry: OutboxEntry = { key, changeId: crypto.randomUUID(), store, id, op, record, queuedAt: now, attempts: 0, nextAttemptAt: now };
+      if (store === 'notes') {
+        if (rebase) {
+          entry.baseRevision = rebase.revision;
+          entry.base = rebase.base;
+        } else if (pending) {
+          entry.baseRevision = pending.baseRevision;
+          entry.base = pending.base;
+        } else if (stored) {
+          entry.baseRevision = stored.revision;
+          entry.base = toBase(stored);
+        } else {
+          entry.baseRevision = 0;
+        }
+      }
+      outbox.put(entry);
+    };
+  }
+
+  private dequeue(transaction: IDBTransaction, entry: OutboxEntry) {
+    const outbox = transaction.objectStore('outbox');
+    const lookup = outbox.get(entry.key);
+    lookup.onsuccess = () => {
+      if (lookup.result?.changeId === entry.changeId) outbox.delete(entry.key);
+    };
+  }
+
+  // With the vault on, a plaintext note from a device that hasn't turned it on yet is sealed
+  // before it is stored. While the journal is locked that can't happen; the next unlock
+  // seals it (see hasUnsealedData).
+  private async sealIncoming(change: SyncChange): Promise<{ change: SyncChange; sealedHere: boolean }> {
+    if (!vault.enabled || vault.locked || !carriesPlaintext(change)) return { change, sealedHere: false };
+    return { change: { ...change, record: await this.sealText(change.record as Note) }, sealedHere: true };
+  }
+
+  // A note sealed on arrival is queued again, so the server and other devices get the sealed
+  // form in place of the plaintext.
+  private applyChange(transaction: IDBTransaction, change: SyncChange, sealedHere = false) {
+    const store = transaction.objectStore(change.store);
+    if (change.op === 'delete') {
+      store.delete(change.id);
+      if (change.store === 'notes') {
+        transaction.objectStore('searchIndex').delete(change.id);
+        deleteByNote(transaction, 'attachments', change.id);
+      }
+    } else if (change.record) {
+      const record = { ...change.record, synced: !sealedHere };
+      store.put(record);
+      if (sealedHere) {
+        const note = record as Note;
+        this.queue(transaction, 'notes', change.id, 'put', note, undefined, { revision: note.revision, base: toBase(note) });
+      }
+      if (change.store === 'notes') {
+        transaction.objectStore('noteHistory').put(toRevision(change.record as Note, 'remote'));
+        this.indexNote(transaction, change.record as Note);
+      }
+    }
+  }
+
+  private indexNote(transaction: IDBTransaction, note: Note) {
+    if (vault.enabled || note.encrypted) return;
+    transaction.objectStore('searchIndex').put({ noteId: note.id, tokens: tokenizeNote(note) });
+  }
+
+  private notifyLocalChange() {
+    this.changeListeners.forEach(listener => listener());
+  }
+
+  private async get<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+    if (!this.db) await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(storeName, 'readonly');
+      const request = transaction.objectStore(storeName).get(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
   }
 
   private async getAll<T>(storeName: string): Promise<T[]> {
@@ -82,6 +851,17 @@ export class LocalDatabase {
       request.onerror = () => reject(request.error);
     });
   }
+
+  private async write(storeNames: string[], work: (transaction: IDBTransaction) => void): Promise<void> {
+    if (!this.db) await this.init();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(storeNames, 'readwrite');
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      work(transaction);
+    });
+  }
 }
 
 export const dbService = new LocalDatabase();
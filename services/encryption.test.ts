@@ -0,0 +1,151 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { dbService } from './db';
+import { vault } from './crypto';
+import { enableEncryption, unlockJournal } from './encryption';
+import { DEFAULT_JOURNAL_ID } from './journals';
+import { Attachment, Note, OutboxEntry } from '../types';
+
+const PASSPHRASE = 'correct horse battery';
+
+const note = (changes: Partial<Note> = {}): Note => ({
+  id: 'n1',
+  title: 'Title',
+  content: 'Text',
+  tags: ['work', 'ideas'],
+  mood: 4,
+  emotions: ['calm'],
+  journalId: DEFAULT_JOURNAL_ID,
+  createdAt: 1,
+  updatedAt: 1,
+  revision: 0,
+  synced: false,
+  ...changes
+});
+
+// The record as IndexedDB holds it, without opening it through the database
+const readStored = (store: string, key: string) => new Promise<any>((resolve, reject) => {
+  const open = indexedDB.open('ZenMindDB');
+  open.onerror = () => reject(open.error);
+  open.onsuccess = () => {
+    const req = open.result.transaction(store, 'readonly').objectStore(store).get(key);
+    req.onsuccess = () => {
+      open.result.close();
+      resolve(req.result);
+    };
+    req.onerror = () => reject(req.error);
+  };
+});
+
+const writeStored = (store: string, record: unknown) => new Promise<void>((resolve, reject) => {
+  const open = indexedDB.open('ZenMindDB');
+  open.onerror = () => reject(open.error);
+  open.onsuccess = () => {
+    const transaction = open.result.transaction(store, 'readwrite');
+    transaction.objectStore(store).put(record);
+    transaction.oncomplete = () => {
+      open.result.close();
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  };
+});
+
+describe('encryption', () => {
+  beforeAll(async () => {
+    await dbService.init();
+    await dbService.saveNote(note());
+    await enableEncryption(PASSPHRASE);
+  });
+
+  it('seals tags, mood and emotions with the title and text', async () => {
+    const stored = await readStored('notes', 'n1');
+    expect(stored).toMatchObject({ title: '', content: '', tags: [] });
+    expect(stored).not.toHaveProperty('mood');
+    expect(stored).not.toHaveProperty('emotions');
+    expect(stored.encrypted).toBeDefined();
+    expect(await dbService.getAllNotes()).toEqual([
+      expect.objectContaining({ title: 'Title', content: 'Text', tags: ['work', 'ideas'], mood: 4, emotions: ['calm'] })
+    ]);
+  });
+
+  it('seals the tags and mood of drafts', async () => {
+    await dbService.saveDraft({ id: 'n2', title: 'Draft', content: '', tags: 'travel, home', mood: 2, updatedAt: 1 });
+    const stored = await readStored('drafts', 'n2');
+    expect(stored).toMatchObject({ title: '', tags: '' });
+    expect(stored).not.toHaveProperty('mood');
+    expect(await dbService.getDraft('n2')).toMatchObject({ title: 'Draft', tags: 'travel, home', mood: 2 });
+  });
+
+  it('seals attachments and opens them again', async () => {
+    const attachment: Attachment = { id: 'a1', noteId: 'n1', kind: 'photo', mimeType: 'image/jpeg', size: 3, createdAt: 1, blob: new Blob(['abc'], { type: 'image/jpeg' }) };
+    await dbService.saveAttachment(attachment);
+    const stored = await readStored('attachments', 'a1');
+    expect(stored.sealed).toBeDefined();
+    expect(await stored.blob.text()).not.toBe('abc');
+    const opened = await dbService.openAttachment('a1');
+    expect(opened?.type).toBe('image/jpeg');
+    expect(await opened?.text()).toBe('abc');
+  });
+
+  it('seals plaintext metadata left by an earlier version on unlock', async () => {
+    const legacy = { ...note({ id: 'n3', revision: 1 }), title: '', content: '', encrypted: await vault.seal({ title: 'Old', content: 'Entry' }) };
+    await writeStored('notes', legacy);
+    await writeStored('attachments', { id: 'a2', noteId: 'n3', kind: 'audio', mimeType: 'audio/webm', size: 3, createdAt: 1, blob: new Blob(['xyz']) });
+    expect(await dbService.hasUnsealedData()).toBe(true);
+
+    vault.lock();
+    await unlockJournal(PASSPHRASE);
+    expect(await dbService.hasUnsealedData()).toBe(false);
+    const stored = await readStored('notes', 'n3');
+    expect(stored).toMatchObject({ title: '', tags: [] });
+    expect(stored).not.toHaveProperty('mood');
+    expect((await readStored('attachments', 'a2')).sealed).toBeDefined();
+    expect(await (await dbService.openAttachment('a2'))?.text()).toBe('xyz');
+    const opened = (await dbService.getAllNotes()).find(n => n.id === 'n3');
+    expect(opened).toMatchObject({ title: 'Old', content: 'Entry', tags: ['work', 'ideas'], mood: 4, emotions: ['calm'] });
+  });
+
+  it('seals a plaintext note pulled from a device without encryption', async () => {
+    const pulled = note({ id: 'n4', title: 'From the laptop', revision: 3, synced: true });
+    await dbService.applyRemoteChanges([{ changeId: 'c1', store: 'notes', id: 'n4', op: 'put', record: pulled }], '1');
+
+    const stored = await readStored('notes', 'n4');
+    expect(stored).toMatchObject({ title: '', content: '', tags: [], revision: 3 });
+    expect(stored.encrypted).toBeDefined();
+    expect(await dbService.hasUnsealedData()).toBe(false);
+    expect((await dbService.getAllNotes()).find(n => n.id === 'n4')).toMatchObject({ title: 'From the laptop', tags: ['work', 'ideas'] });
+
+    // The sealed form goes back to the server in place of the plaintext
+    const queued = (await dbService.getOutbox()).find(entry => entry.key === 'notes:n4');
+    expect(queued).toMatchObject({ baseRevision: 3, record: { title: '', encrypted: expect.anything() } });
+  });
+
+  it('counts a note stored in plaintext while locked as unsealed', async () => {
+    vault.lock();
+    await dbService.applyRemoteChanges([{ changeId: 'c2', store: 'notes', id: 'n5', op: 'put', record: note({ id: 'n5', revision: 1 }) }], '2');
+    expect((await readStored('notes', 'n5')).encrypted).toBeUndefined();
+    expect(await dbService.hasUnsealedData()).toBe(true);
+
+    await unlockJournal(PASSPHRASE);
+    expect((await readStored('notes', 'n5')).encrypted).toBeDefined();
+    expect(await dbService.hasUnsealedData()).toBe(false);
+  });
+
+  it('seals queued plaintext changes before they are pushed', async () => {
+    const entry: OutboxEntry = {
+      key: 'notes:n6', changeId: 'old', store: 'notes', id: 'n6', op: 'put', record: note({ id: 'n6', title: 'Queued' }),
+      queuedAt: 1, attempts: 0, nextAttemptAt: 1, baseRevision: 0
+    };
+    await writeStored('outbox', entry);
+
+    vault.lock();
+    expect(await dbService.sealOutbox([entry])).toEqual([]);
+    await unlockJournal(PASSPHRASE);
+
+    const [sealed] = await dbService.sealOutbox([entry]);
+    expect(sealed.changeId).not.toBe('old');
+    expect(sealed.record).toMatchObject({ title: '', tags: [] });
+    expect(await readStored('outbox', 'notes:n6')).toEqual(sealed);
+  });
+});
@@ -0,0 +1,58 @@
+import { dbService } from './db';
+import { MIN_PASSPHRASE_LENGTH, VaultError, vault } from './crypto';
+
+// Turning encryption on, off, and changing the passphrase. All of these re-save the
+// journal through dbService, so the outbox and the sync server end up with the new form.
+
+const AUTO_LOCK_KEY = 'autoLockMinutes';
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 60, 0]; // 0 = never
+
+const checkStrength = (passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new VaultError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`, 'passphrase');
+  }
+};
+
+export const enableEncryption = async (passphrase: string) => {
+  checkStrength(passphrase);
+  const ring = await vault.createRing(passphrase);
+  await dbService.saveKeyRings([ring]);
+  await dbService.reencryptAll(true);
+};
+
+// Entries sealed by an earlier version kept their tags, mood and emotions in plaintext, and
+// attachments weren't sealed; the first unlock seals them too.
+export const unlockJournal = async (passphrase: string) => {
+  await vault.unlock(passphrase);
+  if (!(await dbService.hasUnsealedData())) return;
+  // The journal is open either way; the next unlock tries again
+  await dbService.reencryptAll(true).catch(err => console.warn('Could not seal the remaining journal data', err));
+};
+
+// With `rekey`, a new data key replaces the old ones and every entry is re-encrypted;
+// otherwise the existing keys are only rewrapped, which is instant.
+export const changePassphrase = async (current: string, next: string, rekey: boolean) => {
+  await vault.verify(current);
+  checkStrength(next);
+  if (!rekey) {
+    await dbService.saveKeyRings(await vault.rewrap(next));
+    return;
+  }
+  const retired = vault.getRings().filter(ring => vault.hasKey(ring.id)).map(ring => ring.id);
+  const ring = await vault.createRing(next);
+  await dbService.saveKeyRings([ring]);
+  await dbService.reencryptAll(true);
+  await dbService.saveKeyRings([], retired);
+};
+
+export const disableEncryption = async (passphrase: string) => {
+  await vault.verify(passphrase);
+  await dbService.reencryptAll(false);
+  await dbService.saveKeyRings([], vault.getRings().map(ring => ring.id));
+};
+
+export const getAutoLockMinutes = async () =>
+  (await dbService.getMeta<number>(AUTO_LOCK_KEY)) ?? DEFAULT_AUTO_LOCK_MINUTES;
+
+export const setAutoLockMinutes = (minutes: number) => dbService.setMeta(AUTO_LOCK_KEY, minutes);
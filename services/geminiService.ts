@@ -1,41 +1,137 @@
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { AIConfig, Note } from "../types";
+import { InsightProvider, parseInsight } from "./insightProvider";
+import { WRITING_PROMPT_COUNT, buildChatInstructions, buildInsightPrompt, buildWritingPromptRequest } from "./insightContext";
+import { AIError } from "./aiErrors";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Note } from "../types";
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+const EMBEDDING_DIMENSIONS = 768;
+const TOKEN_BUDGET = 16000;
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
 
-export const generateDailyInsight = async (notes: Note[]) => {
-  if (!process.env.API_KEY) throw new Error("API Key missing");
-  
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-3-flash-preview';
-  
-  const context = notes
-    .slice(0, 5)
-    .map(n => `Title: ${n.title}\nContent: ${n.content}`)
-    .join("\n---\n");
+// The key entered in Settings wins; a key baked in at build time (GEMINI_API_KEY) is only a fallback.
+const createClient = (config: AIConfig) => {
+  const apiKey = config.apiKey || process.env.API_KEY;
+  if (!apiKey) throw new AIError('Gemini needs an API key.', 'key');
+  return new GoogleGenAI({ apiKey });
+};
+
+// Blocked prompts and answers come back as a normal response without text
+const checkBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new AIError("Gemini's safety filter blocked the response.", 'safety');
+  }
+};
+
+export const createGeminiProvider = (config: AIConfig): InsightProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  requiresNetwork: true,
+  embeddingModel: EMBEDDING_MODEL,
+
+  async generateInsight(context, signal) {
+    const ai = createClient(config);
+    const response = await ai.models.generateContent({
+      model: config.model || DEFAULT_GEMINI_MODEL,
+      contents: buildInsightPrompt(context, TOKEN_BUDGET),
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            summary: { type: Type.STRING, description: "A brief summary of mood/themes" },
+            suggestions: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "List of 3 actionable items"
+            },
+            moodTrend: {
+              type: Type.OBJECT,
+              properties: {
+                direction: { type: Type.STRING, enum: ["improving", "declining", "steady", "mixed"] },
+                description: { type: Type.STRING, description: "How the mood changed over the period" }
+              },
+              required: ["direction", "description"]
+            },
+            habitCorrelations: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  habit: { type: Type.STRING },
+                  effect: { type: Type.STRING, enum: ["positive", "negative", "unclear"] },
+                  observation: { type: Type.STRING, description: "How the habit relates to mood in the entries" }
+                },
+                required: ["habit", "effect", "observation"]
+              }
+            }
+          },
+          required: ["summary", "suggestions", "moodTrend", "habitCorrelations"]
+        }
+      }
+    });
 
-  const prompt = `Based on these recent journal entries, provide a helpful summary of the user's mood and 3 actionable self-care or productivity suggestions.
-  Entries:
-  ${context}`;
+    checkBlocked(response);
+    return parseInsight(response.text ?? '');
+  },
 
+  async streamAnswer({ turns, sources }, onText, signal) {
+    const ai = createClient(config);
+    const stream = await ai.models.generateContentStream({
+      model: config.model || DEFAULT_GEMINI_MODEL,
+      contents: turns.map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.text }] })),
+      config: { systemInstruction: buildChatInstructions(sources), abortSignal: signal }
+    });
+    let text = '';
+    for await (const chunk of stream) {
+      checkBlocked(chunk);
+      text += chunk.text ?? '';
+      onText(text);
+    }
+    return text;
+  },
+
+  async embed(texts, purpose, signal) {
+    const ai = createClient(config);
+    const response = await ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts,
+      config: {
+        taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+        outputDimensionality: EMBEDDING_DIMENSIONS,
+        abortSignal: signal
+      }
+    });
+    return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+  }
+});
+
+// Today's writing prompts drawn from recent entries (see services/prompts.ts)
+export const generateWritingPrompts = async (config: AIConfig, notes: Note[], signal?: AbortSignal): Promise<string[]> => {
+  const ai = createClient(config);
   const response = await ai.models.generateContent({
-    model,
-    contents: prompt,
+    model: config.model || DEFAULT_GEMINI_MODEL,
+    contents: buildWritingPromptRequest(notes),
     config: {
+      abortSignal: signal,
       responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          summary: { type: Type.STRING, description: "A brief summary of mood/themes" },
-          suggestions: { 
-            type: Type.ARRAY, 
-            items: { type: Type.STRING },
-            description: "List of 3 actionable items" 
-          }
-        },
-        required: ["summary", "suggestions"]
-      }
+      responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } }
     }
   });
 
-  return JSON.parse(response.text.trim());
+  checkBlocked(response);
+  let data: unknown;
+  try {
+    data = JSON.parse(response.text ?? '');
+  } catch (err) {
+    throw new AIError('The model returned invalid JSON.', 'malformed', { cause: err });
+  }
+  const prompts = Array.isArray(data)
+    ? data.filter((p): p is string => typeof p === 'string' && p.trim() !== '').map(p => p.trim())
+    : [];
+  if (prompts.length === 0) throw new AIError('The model returned no prompts.', 'malformed');
+  return prompts.slice(0, WRITING_PROMPT_COUNT);
 };
@@ -0,0 +1,132 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { addDays, computeJournalStreak, computeStreaks, daysBetween, getPeriods, toDayKey, toggleCompletion, toggleSkip } from './habitEngine';
+import { Habit, HabitSchedule, Note } from '../types';
+
+const habit = (schedule: HabitSchedule, completedDays: string[], skippedDays: string[] = []): Habit =>
+  ({ id: 'h1', name: 'Habit', schedule, completedDays, skippedDays, streak: 0 });
+
+const range = (from: string, to: string) =>
+  Array.from({ length: daysBetween(from, to) + 1 }, (_, i) => addDays(from, i));
+
+// Each zone with the days its clocks change in 2024. Auckland is ahead of UTC, so a local
+// midnight falls on the previous UTC day there; New York is behind.
+const ZONES = [
+  { zone: 'America/New_York', januaryOffset: 300, springForward: '2024-03-10', fallBack: '2024-11-03' },
+  { zone: 'Pacific/Auckland', januaryOffset: -780, springForward: '2024-09-29', fallBack: '2024-04-07' }
+];
+
+describe.each(ZONES)('in $zone', ({ zone, januaryOffset, springForward, fallBack }) => {
+  const previousZone = process.env.TZ;
+  beforeAll(() => {
+    process.env.TZ = zone;
+  });
+  afterAll(() => {
+    process.env.TZ = previousZone;
+  });
+
+  it('runs in the zone', () => {
+    expect(new Date(2024, 0, 1).getTimezoneOffset()).toBe(januaryOffset);
+  });
+
+  it.each([springForward, fallBack])('keeps local times on %s on their own day', (day) => {
+    const [y, m, d] = day.split('-').map(Number);
+    expect(toDayKey(new Date(y, m - 1, d, 0, 0))).toBe(day);
+    expect(toDayKey(new Date(y, m - 1, d, 12, 0))).toBe(day);
+    expect(toDayKey(new Date(y, m - 1, d, 23, 59))).toBe(day);
+    expect(toDayKey(new Date(new Date(y, m - 1, d, 23, 59).getTime() + 60 * 1000))).toBe(addDays(day, 1));
+  });
+
+  it.each([springForward, fallBack])('counts a daily streak straight through %s', (day) => {
+    const days = range(addDays(day, -3), addDays(day, 3));
+    expect(computeStreaks(habit({ type: 'daily' }, days), days[days.length - 1])).toEqual({ current: 7, longest: 7, unit: 'day' });
+  });
+
+  it('breaks a daily streak on a missed day and keeps the longest', () => {
+    const before = range(addDays(springForward, -5), addDays(springForward, -1));
+    const after = range(addDays(springForward, 1), addDays(springForward, 2));
+    const streaks = computeStreaks(habit({ type: 'daily' }, [...before, ...after]), addDays(springForward, 2));
+    expect(streaks).toEqual({ current: 2, longest: 5, unit: 'day' });
+  });
+
+  it('does not break a streak before today is checked in', () => {
+    const days = range(addDays(fallBack, -2), fallBack);
+    expect(computeStreaks(habit({ type: 'daily' }, days), addDays(fallBack, 1)).current).toBe(3);
+  });
+
+  it('lets skipped days pass without breaking or extending the streak', () => {
+    const skipped = [springForward];
+    const days = range(addDays(springForward, -2), addDays(springForward, 2)).filter(d => !skipped.includes(d));
+    const streaks = computeStreaks(habit({ type: 'daily' }, days, skipped), addDays(springForward, 2));
+    expect(streaks.current).toBe(4);
+  });
+
+  it('only expects weekday habits on their days', () => {
+    // Mondays, Wednesdays and Fridays of the two weeks around the change
+    const weekdays: HabitSchedule = { type: 'weekdays', days: [1, 3, 5] };
+    const days = range(addDays(springForward, -7), addDays(springForward, 7))
+      .filter(d => [1, 3, 5].includes(new Date(`${d}T12:00:00Z`).getUTCDay()));
+    const today = addDays(springForward, 7);
+    expect(computeStreaks(habit(weekdays, days), today)).toEqual({ current: days.length, longest: days.length, unit: 'day' });
+
+    const missed = days.filter((_, i) => i !== 2);
+    expect(computeStreaks(habit(weekdays, missed), today).current).toBe(days.length - 3);
+  });
+
+  it('judges a weekly target by whole weeks across the change', () => {
+    const schedule: HabitSchedule = { type: 'timesPerWeek', count: 2 };
+    const weekStart = (day: string) => addDays(day, -((new Date(`${day}T12:00:00Z`).getUTCDay() + 6) % 7));
+    const changeWeek = weekStart(fallBack);
+    const days = [-14, -7, 0, 7].flatMap(offset => [addDays(changeWeek, offset), addDays(changeWeek, offset + 3)]);
+    const today = addDays(changeWeek, 9);
+    const periods = getPeriods(habit(schedule, days), today);
+    expect(periods.map(p => p.status)).toEqual(['done', 'done', 'done', 'done']);
+    expect(periods.every(p => daysBetween(p.start, p.end) === 7)).toBe(true);
+    expect(computeStreaks(habit(schedule, days), today)).toEqual({ current: 4, longest: 4, unit: 'week' });
+
+    // Once in the week of the change is not enough
+    const short = days.filter(d => d !== addDays(changeWeek, 3));
+    expect(computeStreaks(habit(schedule, short), today)).toEqual({ current: 1, longest: 2, unit: 'week' });
+
+    // A skipped day lowers that week's target
+    expect(computeStreaks(habit(schedule, short, [addDays(changeWeek, 4)]), today).current).toBe(4);
+  });
+
+  it('counts every-N-days habits in whole windows across the change', () => {
+    const schedule: HabitSchedule = { type: 'everyNDays', interval: 3, startDate: addDays(springForward, -6) };
+    const days = [-6, -3, 0, 3, 6].map(offset => addDays(springForward, offset));
+    expect(computeStreaks(habit(schedule, days), addDays(springForward, 7))).toEqual({ current: 5, longest: 5, unit: 'interval' });
+
+    // Checking in late within a window still counts; missing a whole window breaks the run
+    const late = [-6, -2, 1, 6].map(offset => addDays(springForward, offset));
+    expect(computeStreaks(habit(schedule, late), addDays(springForward, 7))).toEqual({ current: 1, longest: 3, unit: 'interval' });
+  });
+
+  it('counts journal days by local date', () => {
+    const [y, m, d] = springForward.split('-').map(Number);
+    const note = (date: Date) => ({ createdAt: date.getTime() }) as Note;
+    const notes = [
+      note(new Date(y, m - 1, d - 1, 23, 55)),
+      note(new Date(y, m - 1, d, 0, 5)),
+      note(new Date(y, m - 1, d, 23, 55)),
+      note(new Date(y, m - 1, d + 1, 0, 5))
+    ];
+    expect(computeJournalStreak(notes, addDays(springForward, 1))).toEqual({ current: 3, longest: 3, unit: 'day' });
+  });
+});
+
+describe('toggling a check-in', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts the cached streak in weeks starting on the chosen day', () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date(2024, 2, 16, 12) }); // Saturday
+    const weekly = habit({ type: 'timesPerWeek', count: 1 }, ['2024-03-09']);
+    // Saturday and Sunday fall in one week from Monday, but in two from Sunday
+    expect(toggleCompletion(weekly, '2024-03-10').streak).toBe(1);
+    expect(toggleCompletion(weekly, '2024-03-10', 0).streak).toBe(2);
+    const checked = habit({ type: 'timesPerWeek', count: 1 }, ['2024-03-09', '2024-03-10']);
+    expect(toggleSkip(checked, '2024-03-16').streak).toBe(1);
+    expect(toggleSkip(checked, '2024-03-16', 0).streak).toBe(2);
+  });
+});
@@ -0,0 +1,262 @@
+import { Habit, HabitSchedule, Note } from '../types';
+
+// All habit math works on local calendar days ("YYYY-MM-DD"), never on timestamps. A day
+// key is converted to a UTC midnight only for arithmetic, so DST shifts and the user's
+// UTC offset can't move a check-in onto a neighbouring day.
+
+export type PeriodStatus = 'done' | 'missed' | 'skipped' | 'rest' | 'pending';
+export type StreakUnit = 'day' | 'week' | 'interval';
+
+export interface HabitPeriod {
+  start: string;
+  end: string; // exclusive
+  status: PeriodStatus;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  unit: StreakUnit;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SCHEDULE: HabitSchedule = { type: 'daily' };
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const todayKey = () => toDayKey(new Date());
+
+const toUTC = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+const fromUTC = (time: number) => {
+  const date = new Date(time);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+export const addDays = (day: string, amount: number) => fromUTC(toUTC(day) + amount * DAY_MS);
+
+export const daysBetween = (from: string, to: string) => Math.round((toUTC(to) - toUTC(from)) / DAY_MS);
+
+export const weekdayOf = (day: string) => new Date(toUTC(day)).getUTCDay();
+
+export const startOfWeek = (day: string, weekStartsOn = 1) => addDays(day, -((weekdayOf(day) - weekStartsOn + 7) % 7));
+
+export const streakUnit = (schedule: HabitSchedule): StreakUnit => {
+  if (schedule.type === 'timesPerWeek') return 'week';
+  if (schedule.type === 'everyNDays') return 'interval';
+  return 'day';
+};
+
+export const describeSchedule = (schedule: HabitSchedule) => {
+  switch (schedule.type) {
+    case 'daily':
+      return 'Every day';
+    case 'weekdays':
+      return [...schedule.days].sort().map(d => WEEKDAY_LABELS[d]).join(', ');
+    case 'timesPerWeek':
+      return `${schedule.count}× per week`;
+    case 'everyNDays':
+      return `Every ${schedule.interval} days`;
+  }
+};
+
+// Whether a check-in is expected on this particular day. Weekly targets can be met on any day.
+export const isDueOn = (schedule: HabitSchedule, day: string) => {
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.days.includes(weekdayOf(day));
+    case 'everyNDays':
+      return ((daysBetween(schedule.startDate, day) % schedule.interval) + schedule.interval) % schedule.interval === 0;
+    default:
+      return true;
+  }
+};
+
+const periodStart = (schedule: HabitSchedule, day: string, weekStartsOn: number) => {
+  if (schedule.type === 'timesPerWeek') return startOfWeek(day, weekStartsOn);
+  if (schedule.type === 'everyNDays') {
+    const offset = ((daysBetween(schedule.startDate, day) % schedule.interval) + schedule.interval) % schedule.interval;
+    return addDays(day, -offset);
+  }
+  return day;
+};
+
+const periodLength = (schedule: HabitSchedule) => {
+  if (schedule.type === 'timesPerWeek') return 7;
+  if (schedule.type === 'everyNDays') return schedule.interval;
+  return 1;
+};
+
+// Splits the habit's history, from its first check-in or skip up to today, into the periods
+// its schedule is judged by: single days, weeks, or N-day windows.
+export const getPeriods = (habit: Habit, today = todayKey(), weekStartsOn = 1): HabitPeriod[] => {
+  const schedule = habit.schedule ?? DEFAULT_SCHEDULE;
+  const completed = new Set(habit.completedDays);
+  const skipped = new Set(habit.skippedDays ?? []);
+  const history = [...completed, ...skipped].filter(day => day <= today).sort();
+  if (history.length === 0) return [];
+
+  const length = periodLength(schedule);
+  const lastStart = periodStart(schedule, today, weekStartsOn);
+  const periods: HabitPeriod[] = [];
+
+  for (let start = periodStart(schedule, history[0], weekStartsOn); start <= lastStart; start = addDays(start, length)) {
+    const end = addDays(start, length);
+    const days = Array.from({ length }, (_, i) => addDays(start, i));
+    const isCurrent = start === lastStart;
+    let status: PeriodStatus;
+
+    if (schedule.type === 'timesPerWeek') {
+      const done = days.filter(d => completed.has(d)).length;
+      const required = Math.max(0, schedule.count - days.filter(d => skipped.has(d)).length);
+      if (required === 0) status = done > 0 ? 'done' : 'skipped';
+      else if (done >= required) status = 'done';
+      else status = isCurrent ? 'pending' : 'missed';
+    } else if (days.some(d => completed.has(d))) {
+      status = 'done';
+    } else if (days.some(d => skipped.has(d))) {
+      status = 'skipped';
+    } else if (schedule.type === 'weekdays' && !isDueOn(schedule, start)) {
+      status = 'rest';
+    } else {
+      status = isCurrent ? 'pending' : 'missed';
+    }
+
+    periods.push({ start, end, status });
+  }
+  return periods;
+};
+
+// Rest days and skips neither break nor extend a streak. The current period only counts
+// once it is done, so the streak doesn't drop to zero every morning before the check-in.
+export const computeStreaks = (habit: Habit, today = todayKey(), weekStartsOn = 1): StreakSummary => {
+  const periods = getPeriods(habit, today, weekStartsOn);
+  const unit = streakUnit(habit.schedule ?? DEFAULT_SCHEDULE);
+
+  let longest = 0;
+  let run = 0;
+  for (const period of periods) {
+    if (period.status === 'done') {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (period.status === 'missed') {
+      run = 0;
+    }
+  }
+
+  let current = 0;
+  for (let i = periods.length - 1; i >= 0; i--) {
+    const { status } = periods[i];
+    if (status === 'missed') break;
+    if (status === 'done') current++;
+  }
+
+  return { current, longest, unit };
+};
+
+// Journaling judged like a daily habit: a day counts once at least one entry was written on it
+export const computeJournalStreak = (notes: Note[], today = todayKey(), weekStartsOn = 1): StreakSummary => {
+  const completedDays = [...new Set(notes.map(note => toDayKey(new Date(note.createdAt))))].sort();
+  return computeStreaks({ id: 'journal', name: 'Journal', completedDays, streak: 0 }, today, weekStartsOn);
+};
+
+export const formatStreak = ({ current, unit }: StreakSummary) => {
+  if (unit === 'interval') return `${current} in a row`;
+  return `${current} ${unit} streak`;
+};
+
+// Toggles a check-in for a day and keeps the denormalized `streak` field in step.
+export const toggleCompletion = (habit: Habit, day = todayKey(), weekStartsOn = 1): Habit => {
+  const completedDays = habit.completedDays.includes(day)
+    ? habit.completedDays.filter(d => d !== day)
+    : [...habit.completedDays, day].sort();
+  const skippedDays = (habit.skippedDays ?? []).filter(d => d !== day);
+  const next = { ...habit, completedDays, skippedDays };
+  return { ...next, streak: computeStreaks(next, todayKey(), weekStartsOn).current };
+};
+
+export const toggleSkip = (habit: Habit, day = todayKey(), weekStartsOn = 1): Habit => {
+  const skipped = habit.skippedDays ?? [];
+  const skippedDays = skipped.includes(day) ? skipped.filter(d => d !== day) : [...skipped, day].sort();
+  const completedDays = habit.completedDays.filter(d => d !== day);
+  const next = { ...habit, completedDays, skippedDays };
+  return { ...next, streak: computeStreaks(next, todayKey(), weekStartsOn).current };
+};
+
+export type DayStatus = 'done' | 'skipped' | 'missed' | 'rest' | 'future' | 'untracked';
+
+export interface RangeStats {
+  start: string;
+  end: string; // inclusive
+  done: number;
+  expected: number;
+  rate: number | null; // null when nothing was expected, e.g. before the habit's first check-in
+}
+
+const firstTrackedDay = (habit: Habit) => {
+  const days = [...habit.completedDays, ...(habit.skippedDays ?? [])].sort();
+  const startDate = habit.schedule?.type === 'everyNDays' ? habit.schedule.startDate : undefined;
+  return [days[0], startDate].filter(Boolean).sort()[0] as string | undefined;
+};
+
+// Per-day status for calendars and heatmaps. Days before the first check-in are untracked
+// rather than missed, so a new habit doesn't start out looking like a failure.
+export const getDayStatus = (habit: Habit, day: string, today = todayKey()): DayStatus => {
+  if (day > today) return 'future';
+  if (habit.completedDays.includes(day)) return 'done';
+  if ((habit.skippedDays ?? []).includes(day)) return 'skipped';
+  const first = firstTrackedDay(habit);
+  if (!first || day < first) return 'untracked';
+  const schedule = habit.schedule ?? DEFAULT_SCHEDULE;
+  if (!isDueOn(schedule, day)) return 'rest';
+  // A weekly target has no fixed days, so an empty day is only a gap, not a miss
+  return schedule.type === 'timesPerWeek' || day === today ? 'rest' : 'missed';
+};
+
+// Completion rate over an inclusive range of days, clipped to the tracked history.
+export const getRangeStats = (habit: Habit, start: string, end: string, today = todayKey()): RangeStats => {
+  const schedule = habit.schedule ?? DEFAULT_SCHEDULE;
+  const first = firstTrackedDay(habit);
+  const from = first && first > start ? first : start;
+  const to = end < today ? end : today;
+  if (!first || from > to) return { start, end, done: 0, expected: 0, rate: null };
+
+  const completed = new Set(habit.completedDays);
+  const skipped = new Set(habit.skippedDays ?? []);
+  const days = Array.from({ length: daysBetween(from, to) + 1 }, (_, i) => addDays(from, i));
+  const done = days.filter(d => completed.has(d)).length;
+
+  let expected: number;
+  if (schedule.type === 'timesPerWeek') {
+    const trackedDays = days.filter(d => !skipped.has(d)).length;
+    expected = Math.max(1, Math.round((schedule.count * trackedDays) / 7));
+  } else {
+    expected = days.filter(d => isDueOn(schedule, d) && !skipped.has(d)).length;
+  }
+
+  return { start, end, done, expected, rate: expected > 0 ? Math.min(1, done / expected) : null };
+};
+
+export const getWeeklyStats = (habit: Habit, weeks: number, today = todayKey(), weekStartsOn = 1): RangeStats[] => {
+  const current = startOfWeek(today, weekStartsOn);
+  return Array.from({ length: weeks }, (_, i) => {
+    const start = addDays(current, -7 * (weeks - 1 - i));
+    return getRangeStats(habit, start, addDays(start, 6), today);
+  });
+};
+
+export const getMonthlyStats = (habit: Habit, months: number, today = todayKey()): RangeStats[] => {
+  const [year, month] = today.split('-').map(Number);
+  return Array.from({ length: months }, (_, i) => {
+    const first = new Date(Date.UTC(year, month - 1 - (months - 1 - i), 1));
+    const last = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0));
+    return getRangeStats(habit, fromUTC(first.getTime()), fromUTC(last.getTime()), today);
+  });
+};
@@ -0,0 +1,234 @@
+import { Habit, InsightPeriod, Note } from '../types';
+import { ChatSource } from './insightProvider';
+import { getRangeStats, startOfWeek, toDayKey, todayKey } from './habitEngine';
+
+// What an insight is about: the entries and habit check-ins of one period, and the
+// prompts that describe them to a model. Long periods are fitted into a token budget by keeping
+// the newest entries verbatim and condensing older ones per day, then per week, then
+// per month, each level built from the one below it.
+
+export interface DateRange {
+  label: string; // Used in prompts and summaries, e.g. "this week"
+  start: string; // Inclusive local day keys
+  end: string;
+}
+
+export interface HabitSummary {
+  name: string;
+  done: number;
+  expected: number;
+  doneDays: string[];
+}
+
+export interface InsightContext {
+  range: DateRange;
+  notes: Note[]; // Newest first
+  habits: HabitSummary[];
+  weekStartsOn: number;
+}
+
+export const INSIGHT_PERIODS: { id: InsightPeriod; label: string }[] = [
+  { id: 'today', label: 'Today' },
+  { id: 'week', label: 'This week' },
+  { id: 'month', label: 'This month' }
+];
+
+export const DEFAULT_TOKEN_BUDGET = 4000;
+const CHARS_PER_TOKEN = 4;
+const SUMMARY_CHARS = { day: 300, week: 400, month: 500 };
+const ENTRY_SEPARATOR = '\n---\n';
+
+export const INSIGHT_INSTRUCTIONS = `You are reviewing someone's journal and habit tracker for the period below. Summarize their mood and recurring themes, describe how their mood changed over the period, relate habit check-ins to mood where the entries allow it, and give 3 actionable self-care or productivity suggestions.
+Respond with JSON only, shaped as {"summary": string, "suggestions": string[], "moodTrend": {"direction": "improving" | "declining" | "steady" | "mixed", "description": string}, "habitCorrelations": [{"habit": string, "effect": "positive" | "negative" | "unclear", "observation": string}]}. Leave habitCorrelations empty when there is not enough data.`;
+
+export const periodRange = (period: InsightPeriod, today = todayKey(), weekStartsOn = 1): DateRange => {
+  switch (period) {
+    case 'today': return { label: 'today', start: today, end: today };
+    case 'week': return { label: 'this week', start: startOfWeek(today, weekStartsOn), end: today };
+    case 'month': return { label: 'this month', start: `${today.slice(0, 8)}01`, end: today };
+  }
+};
+
+export const dayOf = (note: Note) => toDayKey(new Date(note.createdAt));
+
+export const notesBetween = (notes: Note[], start: string, end: string) =>
+  notes.filter(note => {
+    const day = dayOf(note);
+    return day >= start && day <= end;
+  });
+
+export const buildInsightContext = (
+  range: DateRange,
+  notes: Note[],
+  habits: Habit[],
+  today = todayKey(),
+  weekStartsOn = 1
+): InsightContext => ({
+  range,
+  notes: notesBetween(notes, range.start, range.end).sort((a, b) => b.createdAt - a.createdAt),
+  habits: habits
+    .map(habit => {
+      const stats = getRangeStats(habit, range.start, range.end, today);
+      const doneDays = habit.completedDays.filter(day => day >= range.start && day <= range.end).sort();
+      return { name: habit.name, done: stats.done, expected: stats.expected, doneDays };
+    })
+    .filter(habit => habit.expected > 0 || habit.done > 0),
+  weekStartsOn
+});
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Keeps whole leading sentences up to `maxChars`, cutting the first one if it alone is too long.
+export const condense = (text: string, maxChars: number) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= maxChars) return clean;
+  let out = '';
+  for (const sentence of clean.split(/(?<=[.!?])\s+/)) {
+    if (out.length + sentence.length + 1 > maxChars) break;
+    out = out ? `${out} ${sentence}` : sentence;
+  }
+  return out || `${clean.slice(0, Math.max(0, maxChars - 1)).trim()}…`;
+};
+
+const formatMood = (note: Note) => {
+  const emotions = note.emotions?.length ? note.emotions.join(', ') : '';
+  if (note.mood === undefined) return emotions ? `Feeling: ${emotions}` : '';
+  return `Mood: ${note.mood}/5${emotions ? ` (${emotions})` : ''}`;
+};
+
+const formatEntry = (note: Note) =>
+  [`[${dayOf(note)}] ${note.title}`, formatMood(note), note.content, note.tags.length > 0 ? `Tags: ${note.tags.map(t => `#${t}`).join(' ')}` : '']
+    .filter(Boolean)
+    .join('\n');
+
+const describeHabits = (habits: HabitSummary[]) => {
+  if (habits.length === 0) return 'No habits were tracked in this period.';
+  const lines = habits.map(h => {
+    const days = h.doneDays.length > 0 ? `, done on ${h.doneDays.map(d => d.slice(5)).join(', ')}` : '';
+    return `- ${h.name}: ${h.done}/${h.expected}${days}`;
+  });
+  return `Habits (check-ins / expected in this period):\n${lines.join('\n')}`;
+};
+
+interface Summary {
+  key: string;
+  label: string;
+  count: number;
+  tags: string[];
+  text: string;
+}
+
+type Level = keyof typeof SUMMARY_CHARS;
+
+const parentKey = (day: string, level: Level, weekStartsOn: number) =>
+  level === 'day' ? day : level === 'week' ? startOfWeek(day, weekStartsOn) : day.slice(0, 7);
+
+const levelLabel = (key: string, level: Level) =>
+  level === 'day' ? key : level === 'week' ? `Week of ${key}` : `Month ${key}`;
+
+// Groups summaries (oldest first) under the next level up, giving each child an equal share of the space.
+const rollUp = (children: Summary[], level: Level, weekStartsOn: number): Summary[] => {
+  const groups = new Map<string, Summary[]>();
+  children.forEach(child => {
+    const key = parentKey(child.key, level, weekStartsOn);
+    groups.set(key, [...(groups.get(key) ?? []), child]);
+  });
+  return [...groups].map(([key, group]) => {
+    const share = Math.floor(SUMMARY_CHARS[level] / group.length);
+    return {
+      key,
+      label: levelLabel(key, level),
+      count: group.reduce((sum, c) => sum + c.count, 0),
+      tags: [...new Set(group.flatMap(c => c.tags))],
+      text: condense(group.map(c => condense(c.text, share)).join(' '), SUMMARY_CHARS[level])
+    };
+  });
+};
+
+const formatSummary = (s: Summary) => {
+  const tags = s.tags.length > 0 ? `, ${s.tags.slice(0, 5).map(t => `#${t}`).join(' ')}` : '';
+  return `${s.label} (${s.count} ${s.count === 1 ? 'entry' : 'entries'}${tags}): ${s.text}`;
+};
+
+const summarizeOlder = (notes: Note[], budget: number, weekStartsOn: number) => {
+  const entries: Summary[] = [...notes].reverse().map(note => ({
+    key: dayOf(note),
+    label: dayOf(note),
+    count: 1,
+    tags: note.tags,
+    text: `${note.title}${/[.!?]$/.test(note.title) || !note.title ? '' : '.'} ${note.content}`
+  }));
+
+  let summaries = entries;
+  for (const level of ['day', 'week', 'month'] as Level[]) {
+    summaries = rollUp(summaries, level, weekStartsOn);
+    const lines = summaries.map(formatSummary);
+    if (estimateTokens(lines.join('\n')) <= budget) return lines;
+  }
+
+  // Still too long: drop the oldest months
+  const lines = summaries.map(formatSummary);
+  let omitted = 0;
+  while (lines.length > 1 && estimateTokens(lines.join('\n')) > budget) {
+    lines.shift();
+    omitted++;
+  }
+  return omitted > 0 ? [`(${omitted} earlier ${omitted === 1 ? 'month' : 'months'} omitted)`, ...lines] : lines;
+};
+
+export const buildInsightPrompt = (context: InsightContext, budget = DEFAULT_TOKEN_BUDGET) => {
+  const { range, notes, habits, weekStartsOn } = context;
+  const header = [
+    INSIGHT_INSTRUCTIONS,
+    `Period: ${range.label} (${range.start} to ${range.end}).`,
+    describeHabits(habits)
+  ].join('\n\n');
+  if (notes.length === 0) return `${header}\n\nThere are no journal entries in this period.`;
+
+  const room = budget - estimateTokens(header);
+  const entries = notes.map(formatEntry);
+  if (estimateTokens(entries.join(ENTRY_SEPARATOR)) <= room) {
+    return `${header}\n\nEntries, newest first:\n${entries.join(ENTRY_SEPARATOR)}`;
+  }
+
+  // The newest entries keep their full text in up to half of the room
+  const verbatim: string[] = [];
+  let used = 0;
+  for (const entry of entries) {
+    const tokens = estimateTokens(entry) + 2;
+    if (used + tokens > room / 2) break;
+    verbatim.push(entry);
+    used += tokens;
+  }
+  if (verbatim.length === 0) {
+    verbatim.push(condense(entries[0], Math.floor((room / 2) * CHARS_PER_TOKEN)));
+    used = estimateTokens(verbatim[0]);
+  }
+
+  const older = summarizeOlder(notes.slice(verbatim.length), room - used, weekStartsOn);
+  const sections = [`Recent entries, newest first:\n${verbatim.join(ENTRY_SEPARATOR)}`];
+  if (older.length > 0) sections.push(`Earlier entries, condensed, oldest first:\n${older.join('\n')}`);
+  return `${header}\n\n${sections.join('\n\n')}`;
+};
+
+const SOURCE_CHARS = 1200;
+
+export const CHAT_INSTRUCTIONS = `You answer questions about the user's own journal, speaking to them directly. Use only the journal entries below; if they don't contain the answer, say so. Cite the entries you rely on with their bracketed number, e.g. [2], and mention dates where they matter. Keep answers short and kind.`;
+
+export const buildChatInstructions = (sources: ChatSource[]) => {
+  if (sources.length === 0) return `${CHAT_INSTRUCTIONS}\n\nNo journal entries matched this question.`;
+  const entries = sources.map(({ index, note }) =>
+    `[${index}] ${dayOf(note)} (id ${note.id})${note.title ? ` ${note.title}` : ''}\n${condense(note.content, SOURCE_CHARS)}`
+  );
+  return `${CHAT_INSTRUCTIONS}\n\nJournal entries:\n${entries.join(ENTRY_SEPARATOR)}`;
+};
+
+const PROMPT_SOURCE_CHARS = 600;
+export const WRITING_PROMPT_COUNT = 3;
+
+export const WRITING_PROMPT_INSTRUCTIONS = `Suggest ${WRITING_PROMPT_COUNT} journaling prompts for today based on the user's recent entries below. Each prompt is one open, gentle question of at most 20 words that invites them to reflect further on a theme from those entries. Don't quote the entries, diagnose or give advice. Respond with a JSON array of strings.`;
+
+export const buildWritingPromptRequest = (notes: Note[]) => {
+  const entries = notes.map(note => `[${dayOf(note)}] ${note.title}\n${condense(note.content, PROMPT_SOURCE_CHARS)}`);
+  return `${WRITING_PROMPT_INSTRUCTIONS}\n\nRecent entries, newest first:\n${entries.join(ENTRY_SEPARATOR)}`;
+};
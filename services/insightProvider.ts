@@ -0,0 +1,83 @@
+import { AIInsight, HabitCorrelation, MoodTrend, Note } from '../types';
+import { InsightContext } from './insightContext';
+import { AIError } from './aiErrors';
+
+// Every insight backend implements this. Remote providers build their prompts with
+// services/insightContext.ts, share the response validation below and report failures
+// as AIError (services/aiErrors.ts).
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+// An entry retrieved for a chat question, cited in answers as [index]
+export interface ChatSource {
+  index: number;
+  note: Note;
+}
+
+export interface ChatRequest {
+  turns: ChatTurn[]; // Oldest first, ending with the question
+  sources: ChatSource[];
+}
+
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface InsightProvider {
+  id: string;
+  label: string;
+  requiresNetwork: boolean;
+  generateInsight(context: InsightContext, signal?: AbortSignal): Promise<AIInsight>;
+  // Streams the answer to the last turn; `onText` receives the whole answer so far.
+  streamAnswer(request: ChatRequest, onText: (text: string) => void, signal?: AbortSignal): Promise<string>;
+  // Providers that can embed text name the model, so cached vectors from another one are ignored.
+  embeddingModel?: string;
+  embed?(texts: string[], purpose: EmbeddingPurpose, signal?: AbortSignal): Promise<number[][]>;
+}
+
+const MOOD_DIRECTIONS: MoodTrend['direction'][] = ['improving', 'declining', 'steady', 'mixed'];
+const EFFECTS: HabitCorrelation['effect'][] = ['positive', 'negative', 'unclear'];
+
+const parseMoodTrend = (value: any): MoodTrend | undefined => {
+  if (!value || !MOOD_DIRECTIONS.includes(value.direction) || typeof value.description !== 'string') return undefined;
+  return { direction: value.direction, description: value.description };
+};
+
+const parseCorrelations = (value: any): HabitCorrelation[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(c => c && typeof c.habit === 'string' && typeof c.observation === 'string')
+    .map(c => ({ habit: c.habit, effect: EFFECTS.includes(c.effect) ? c.effect : 'unclear', observation: c.observation }));
+};
+
+// Checks a decoded reply against the AIInsight shape. The summary and suggestions are
+// required; a missing or invalid mood trend or correlation is dropped rather than fatal.
+export const validateInsight = (data: any): AIInsight => {
+  if (!data || typeof data !== 'object') throw new AIError('The model did not return an object.', 'malformed');
+  if (typeof data.summary !== 'string' || !data.summary.trim()) {
+    throw new AIError('The model returned no summary.', 'malformed');
+  }
+  if (!Array.isArray(data.suggestions)) throw new AIError('The model returned no suggestions.', 'malformed');
+  const suggestions = data.suggestions.filter((s: unknown): s is string => typeof s === 'string' && s.trim() !== '');
+  return {
+    summary: data.summary.trim(),
+    suggestions,
+    moodTrend: parseMoodTrend(data.moodTrend),
+    habitCorrelations: parseCorrelations(data.habitCorrelations)
+  };
+};
+
+// Models sometimes wrap the JSON in a code fence or add a sentence around it.
+export const parseInsight = (text: string): AIInsight => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) throw new AIError('The model did not return JSON.', 'malformed');
+  let data: unknown;
+  try {
+    data = JSON.parse(text.slice(start, end + 1));
+  } catch (err) {
+    throw new AIError('The model returned invalid JSON.', 'malformed', { cause: err });
+  }
+  return validateInsight(data);
+};
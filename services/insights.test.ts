@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateInsight } from './insights';
+import { InsightContext } from './insightContext';
+import { parseInsight, validateInsight } from './insightProvider';
+import { AIError, errorForStatus, toAIError } from './aiErrors';
+import { MOCK_INSIGHT, createMockProvider } from './mockProvider';
+
+const context: InsightContext = {
+  range: { label: 'today', start: '2024-05-01', end: '2024-05-01' },
+  notes: [],
+  habits: [],
+  weekStartsOn: 1
+};
+
+// Runs the backoff waits instantly
+const settle = async <T>(promise: Promise<T>) => {
+  const result = promise.catch(err => err);
+  await vi.runAllTimersAsync();
+  return result;
+};
+
+describe('generateInsight', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the provider answer', async () => {
+    const provider = createMockProvider();
+    expect(await generateInsight(context, provider, true)).toEqual({ insight: MOCK_INSIGHT, provider, fellBack: false });
+  });
+
+  it('retries a dropped connection and a server error', async () => {
+    const provider = createMockProvider();
+    const call = vi.spyOn(provider, 'generateInsight')
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(errorForStatus(503));
+    const result = await settle(generateInsight(context, provider, true));
+    expect(result).toMatchObject({ insight: MOCK_INSIGHT, fellBack: false });
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after three attempts', async () => {
+    const provider = createMockProvider({ error: errorForStatus(429) });
+    const call = vi.spyOn(provider, 'generateInsight');
+    const error = await settle(generateInsight(context, provider, true));
+    expect(error).toBeInstanceOf(AIError);
+    expect(error.reason).toBe('quota');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as the server asks', async () => {
+    const provider = createMockProvider();
+    const call = vi.spyOn(provider, 'generateInsight').mockRejectedValueOnce(errorForStatus(429, '', '5'));
+    const result = generateInsight(context, provider, true);
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(call).toHaveBeenCalledTimes(2);
+    expect((await result).insight).toEqual(MOCK_INSIGHT);
+  });
+
+  it('does not retry a daily quota or a rejected key', async () => {
+    for (const error of [errorForStatus(429, '', '3600'), errorForStatus(401)]) {
+      const provider = createMockProvider({ error });
+      const call = vi.spyOn(provider, 'generateInsight');
+      expect(await settle(generateInsight(context, provider, true))).toBe(error);
+      expect(call).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('passes a cancellation through without retrying', async () => {
+    const provider = createMockProvider({ delayMs: 100 });
+    const call = vi.spyOn(provider, 'generateInsight');
+    const controller = new AbortController();
+    const result = settle(generateInsight(context, provider, true, controller.signal));
+    controller.abort();
+    expect((await result).name).toBe('AbortError');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers on the device when a network provider is offline', async () => {
+    const provider = createMockProvider({ requiresNetwork: true });
+    const call = vi.spyOn(provider, 'generateInsight');
+    const result = await generateInsight(context, provider, false);
+    expect(result.fellBack).toBe(true);
+    expect(result.provider.id).toBe('local');
+    expect(call).not.toHaveBeenCalled();
+  });
+});
+
+describe('toAIError', () => {
+  it.each([
+    [401, '', 'key'],
+    [403, '', 'key'],
+    [400, 'API key not valid', 'key'],
+    [429, '', 'quota'],
+    [400, 'Blocked by content filter', 'safety'],
+    [400, 'Bad request', 'server'],
+    [500, '', 'server']
+  ])('sorts status %i "%s" as %s', (status, detail, reason) => {
+    expect(errorForStatus(status, detail).reason).toBe(reason);
+  });
+
+  it('sorts errors thrown without a status', () => {
+    expect(toAIError(Object.assign(new Error('quota exceeded'), { status: 429 })).reason).toBe('quota');
+    expect(toAIError(new TypeError('Failed to fetch')).reason).toBe('network');
+    expect(toAIError(new SyntaxError('Unexpected token')).reason).toBe('malformed');
+    expect(toAIError(new Error('boom')).reason).toBe('server');
+  });
+
+  it('reads Retry-After in seconds', () => {
+    expect(errorForStatus(429, '', '30').options.retryAfterMs).toBe(30000);
+  });
+});
+
+describe('parseInsight', () => {
+  it('reads JSON wrapped in a code fence', () => {
+    const reply = 'Here you go:\n```json\n{"summary": " Calm week ", "suggestions": ["Sleep", "", 3]}\n```';
+    expect(parseInsight(reply)).toEqual({ summary: 'Calm week', suggestions: ['Sleep'], moodTrend: undefined, habitCorrelations: [] });
+  });
+
+  it('keeps valid optional parts and drops invalid ones', () => {
+    const insight = validateInsight({
+      summary: 'Better days',
+      suggestions: [],
+      moodTrend: { direction: 'sideways', description: 'Up and down' },
+      habitCorrelations: [{ habit: 'Run', effect: 'huge', observation: 'Calmer after runs' }, { habit: 'Read' }]
+    });
+    expect(insight.moodTrend).toBeUndefined();
+    expect(insight.habitCorrelations).toEqual([{ habit: 'Run', effect: 'unclear', observation: 'Calmer after runs' }]);
+  });
+
+  it.each([
+    ['no JSON at all', 'I cannot help with that.'],
+    ['invalid JSON', '{"summary": "x",}'],
+    ['no summary', '{"summary": " ", "suggestions": []}'],
+    ['no suggestions', '{"summary": "x"}']
+  ])('rejects a reply with %s as malformed', (_, reply) => {
+    expect(() => parseInsight(reply)).toThrow(expect.objectContaining({ reason: 'malformed' }));
+  });
+});
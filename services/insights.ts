@@ -0,0 +1,75 @@
+import { dbService } from './db';
+import { AIConfig, AIInsight, AIProviderId } from '../types';
+import { InsightProvider } from './insightProvider';
+import { InsightContext } from './insightContext';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAIProvider } from './openAIProvider';
+import { createLocalProvider } from './localInsights';
+import { withRetry } from './aiErrors';
+
+// Picks the insight provider from the user's settings. The config holds an API key, so it
+// stays on this device: it is not synced and not part of backups.
+
+const CONFIG_KEY = 'aiConfig';
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  provider: 'gemini',
+  apiKey: '',
+  endpoint: '',
+  model: '',
+  embeddingModel: '',
+  // Off until the user turns them on, so no entries are sent to a provider unasked
+  autoDaily: false,
+  autoWeekly: false,
+  writingPrompts: false
+};
+
+export const AI_PROVIDERS: { id: AIProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini', description: "Google's Gemini API with your own key" },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'OpenAI, or a local Ollama / llama.cpp server' },
+  { id: 'local', label: 'On-device', description: 'Simple rule-based reflections that work offline' }
+];
+
+export const getAIConfig = async (): Promise<AIConfig> => ({
+  ...DEFAULT_AI_CONFIG,
+  ...(await dbService.getMeta<AIConfig>(CONFIG_KEY))
+});
+
+export const saveAIConfig = async (changes: Partial<AIConfig>): Promise<AIConfig> => {
+  const config = { ...(await getAIConfig()), ...changes };
+  config.apiKey = config.apiKey.trim();
+  config.endpoint = config.endpoint.trim();
+  config.model = config.model.trim();
+  config.embeddingModel = config.embeddingModel.trim();
+  await dbService.setMeta(CONFIG_KEY, config);
+  return config;
+};
+
+export const createProvider = (config: AIConfig): InsightProvider => {
+  switch (config.provider) {
+    case 'gemini': return createGeminiProvider(config);
+    case 'openai': return createOpenAIProvider(config);
+    case 'local': return createLocalProvider();
+  }
+};
+
+export interface InsightResult {
+  insight: AIInsight;
+  provider: InsightProvider;
+  fellBack: boolean; // The chosen provider needed the network, so the on-device one answered instead
+}
+
+// Transient failures are retried; anything else is thrown as an AIError.
+export const generateInsight = async (
+  context: InsightContext,
+  provider: InsightProvider,
+  isOnline = navigator.onLine,
+  signal?: AbortSignal
+): Promise<InsightResult> => {
+  if (provider.requiresNetwork && !isOnline) {
+    const local = createLocalProvider();
+    return { insight: await local.generateInsight(context), provider: local, fellBack: true };
+  }
+  const insight = await withRetry(() => provider.generateInsight(context, signal), { signal });
+  return { insight, provider, fellBack: false };
+};
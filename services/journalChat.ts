@@ -0,0 +1,178 @@
+import { dbService } from './db';
+import { ChatCitation, ChatMessage, Note, NoteEmbedding } from '../types';
+import { ChatSource, ChatTurn, InsightProvider } from './insightProvider';
+import { createLocalProvider } from './localInsights';
+import { dayOf } from './insightContext';
+import { tokenize } from './search';
+import { withRetry } from './aiErrors';
+
+// "Ask my journal": each question retrieves the most relevant entries, by keywords and,
+// when the provider can embed text, by meaning, and the provider answers from those
+// entries only, citing them as [n]. Note embeddings are cached in IndexedDB per revision.
+
+const TOP_K = 6;
+const HISTORY_TURNS = 6;
+const EMBED_BATCH = 32;
+const EMBED_CHARS = 2000;
+const SEMANTIC_WEIGHT = 0.7;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'or', 'but', 'a', 'an', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'about', 'from', 'by',
+  'is', 'am', 'are', 'was', 'were', 'be', 'been', 'do', 'did', 'does', 'have', 'has', 'had',
+  'my', 'me', 'we', 'you', 'your', 'it', 'its', 'this', 'that', 'these', 'those', 'what', 'when', 'where',
+  'why', 'how', 'who', 'which', 'can', 'could', 'would', 'should', 'will', 'any', 'all', 'there', 'than',
+  'so', 'if', 'then', 'ever', 'last', 'time', 'times'
+]);
+
+const noteText = (note: Note) =>
+  `${note.title}\n${note.content}${note.tags.length > 0 ? `\n${note.tags.map(t => `#${t}`).join(' ')}` : ''}`.slice(0, EMBED_CHARS);
+
+// Words sharing their first five letters count as the same, so "stressed" finds "stressful".
+const sameWord = (a: string, b: string) => a === b || (a.length >= 5 && b.length >= 5 && a.slice(0, 5) === b.slice(0, 5));
+
+// BM25-style scores normalized to 0..1, keyed by note ID.
+export const keywordScores = (notes: Note[], query: string): Map<string, number> => {
+  const terms = tokenize(query).filter(term => !STOP_WORDS.has(term));
+  const scores = new Map<string, number>();
+  if (terms.length === 0 || notes.length === 0) return scores;
+
+  const docs = notes.map(note => ({ id: note.id, tokens: tokenize(`${note.title} ${note.content} ${note.tags.join(' ')}`) }));
+  const averageLength = docs.reduce((sum, doc) => sum + doc.tokens.length, 0) / docs.length || 1;
+  terms.forEach(term => {
+    const matching = docs.filter(doc => doc.tokens.some(token => sameWord(token, term)));
+    const idf = Math.log(1 + (docs.length - matching.length + 0.5) / (matching.length + 0.5));
+    matching.forEach(doc => {
+      const lengthNorm = 0.25 + 0.75 * (doc.tokens.length / averageLength);
+      scores.set(doc.id, (scores.get(doc.id) ?? 0) + idf * (2.2 / (1 + 1.2 * lengthNorm)));
+    });
+  });
+  const best = Math.max(...scores.values());
+  scores.forEach((score, id) => scores.set(id, score / best));
+  return scores;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Brings the cache up to date with the journal and returns a vector per note.
+const syncEmbeddings = async (notes: Note[], provider: InsightProvider, signal?: AbortSignal) => {
+  const model = provider.embeddingModel!;
+  const cached = await dbService.getEmbeddings();
+  const current = new Map(cached.filter(e => e.model === model).map(e => [e.noteId, e]));
+  const stale = notes.filter(note => current.get(note.id)?.revision !== note.revision);
+
+  const fresh: NoteEmbedding[] = [];
+  for (let i = 0; i < stale.length; i += EMBED_BATCH) {
+    const batch = stale.slice(i, i + EMBED_BATCH);
+    const vectors = await provider.embed!(batch.map(noteText), 'document', signal);
+    batch.forEach((note, j) => fresh.push({ noteId: note.id, model, revision: note.revision, vector: vectors[j] ?? [] }));
+  }
+  const ids = new Set(notes.map(note => note.id));
+  const removed = cached.filter(e => !ids.has(e.noteId)).map(e => e.noteId);
+  if (fresh.length > 0 || removed.length > 0) await dbService.saveEmbeddings(fresh, removed);
+
+  fresh.forEach(e => current.set(e.noteId, e));
+  return new Map([...current].map(([id, e]) => [id, e.vector]));
+};
+
+// The entries most related to the query, best first. Falls back to keywords alone when
+// embedding fails, and to the newest entries when nothing matches at all.
+export const retrieveNotes = async (
+  query: string,
+  notes: Note[],
+  provider: InsightProvider,
+  signal?: AbortSignal,
+  limit = TOP_K
+): Promise<Note[]> => {
+  const keywords = keywordScores(notes, query);
+  let semantic = new Map<string, number>();
+  if (provider.embed && provider.embeddingModel && notes.length > 0) {
+    try {
+      const [vectors, [queryVector]] = await Promise.all([
+        syncEmbeddings(notes, provider, signal),
+        provider.embed([query], 'query', signal)
+      ]);
+      semantic = new Map([...vectors].map(([id, vector]) => [id, cosineSimilarity(queryVector, vector)]));
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn('Embedding failed, using keyword search only', err);
+    }
+  }
+
+  const scored = notes.map(note => ({
+    note,
+    score: semantic.size > 0
+      ? SEMANTIC_WEIGHT * (semantic.get(note.id) ?? 0) + (1 - SEMANTIC_WEIGHT) * (keywords.get(note.id) ?? 0)
+      : keywords.get(note.id) ?? 0
+  }));
+  if (scored.every(s => s.score === 0)) {
+    return [...notes].sort((a, b) => b.createdAt - a.createdAt).slice(0, limit);
+  }
+  return scored
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || b.note.createdAt - a.note.createdAt)
+    .slice(0, limit)
+    .map(s => s.note);
+};
+
+// Only the markers that point at a retrieved entry, in the order they first appear.
+export const parseCitations = (text: string, sources: ChatSource[]): ChatCitation[] => {
+  const cited = [...text.matchAll(/\[(\d+)\]/g)].map(match => Number(match[1]));
+  return [...new Set(cited)]
+    .map(index => sources.find(source => source.index === index))
+    .filter((source): source is ChatSource => !!source)
+    .map(({ index, note }) => ({ index, noteId: note.id, day: dayOf(note), title: note.title }));
+};
+
+interface AskOptions {
+  question: string;
+  history: ChatMessage[];
+  notes: Note[];
+  provider: InsightProvider;
+  onText: (text: string) => void;
+  signal?: AbortSignal;
+  isOnline?: boolean;
+}
+
+export const askJournal = async ({
+  question,
+  history,
+  notes,
+  provider,
+  onText,
+  signal,
+  isOnline = navigator.onLine
+}: AskOptions): Promise<{ text: string; citations: ChatCitation[] }> => {
+  const answering = provider.requiresNetwork && !isOnline ? createLocalProvider() : provider;
+
+  // A follow-up like "and the week before?" is retrieved together with the question it follows
+  const previous = [...history].reverse().find(message => message.role === 'user');
+  const query = previous ? `${question} ${previous.text}` : question;
+  const retrieved = await retrieveNotes(query, notes, answering, signal);
+  const sources = [...retrieved]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((note, i) => ({ index: i + 1, note }));
+
+  const turns: ChatTurn[] = [
+    // Earlier [n] markers pointed at that turn's sources, so they are dropped
+    ...history
+      .filter(message => !message.pending && !message.failed)
+      .slice(-HISTORY_TURNS)
+      .map(({ role, text }) => ({ role, text: text.replace(/\s?\[\d+\]/g, '') })),
+    { role: 'user', text: question }
+  ];
+  // A failed request is retried only until the answer starts showing
+  let started = false;
+  const text = await withRetry(() => answering.streamAnswer({ turns, sources }, partial => {
+    started = true;
+    onText(partial);
+  }, signal), { signal, canRetry: () => !started });
+  return { text, citations: parseCitations(text, sources) };
+};
@@ -0,0 +1,47 @@
+import { Journal, JournalColor, Note } from '../types';
+
+// Journals keep entries apart, e.g. work logs, personal writing and project diaries.
+// Every note has a journalId; notes from before journals existed were moved into the
+// default journal by the v11 migration, which can be renamed but not deleted.
+
+export const DEFAULT_JOURNAL_ID = 'default';
+
+export const DEFAULT_JOURNAL: Journal = {
+  id: DEFAULT_JOURNAL_ID,
+  name: 'Journal',
+  color: 'indigo',
+  icon: '📓',
+  createdAt: 0,
+  updatedAt: 0
+};
+
+// Full class names, so Tailwind picks them up
+export const JOURNAL_COLORS: { id: JournalColor; dot: string; text: string; soft: string }[] = [
+  { id: 'indigo', dot: 'bg-indigo-500', text: 'text-indigo-600', soft: 'bg-indigo-50' },
+  { id: 'rose', dot: 'bg-rose-500', text: 'text-rose-600', soft: 'bg-rose-50' },
+  { id: 'amber', dot: 'bg-amber-500', text: 'text-amber-600', soft: 'bg-amber-50' },
+  { id: 'emerald', dot: 'bg-emerald-500', text: 'text-emerald-600', soft: 'bg-emerald-50' },
+  { id: 'sky', dot: 'bg-sky-500', text: 'text-sky-600', soft: 'bg-sky-50' },
+  { id: 'violet', dot: 'bg-violet-500', text: 'text-violet-600', soft: 'bg-violet-50' },
+  { id: 'slate', dot: 'bg-slate-500', text: 'text-slate-600', soft: 'bg-slate-100' }
+];
+
+export const JOURNAL_ICONS = ['📓', '💼', '🌱', '🎨', '✈️', '💭', '📚', '🏃', '🧠', '❤️'];
+
+export const journalColor = (color: JournalColor) => JOURNAL_COLORS.find(c => c.id === color) ?? JOURNAL_COLORS[0];
+
+export const createJournal = (): Journal => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), name: '', color: 'emerald', icon: '💼', createdAt: now, updatedAt: now };
+};
+
+// The default journal first, the others in the order they were made
+export const sortJournals = (journals: Journal[]) =>
+  [...journals].sort((a, b) => (a.id === DEFAULT_JOURNAL_ID ? -1 : b.id === DEFAULT_JOURNAL_ID ? 1 : a.createdAt - b.createdAt));
+
+// A note whose journal is unknown here (deleted, or not yet synced to this device) shows in the default one
+export const journalIdOf = (note: Pick<Note, 'journalId'>, journals: Journal[]) =>
+  journals.some(j => j.id === note.journalId) ? note.journalId : DEFAULT_JOURNAL_ID;
+
+export const notesInJournal = (notes: Note[], journalId: string, journals: Journal[]) =>
+  notes.filter(note => journalIdOf(note, journals) === journalId);
@@ -0,0 +1,141 @@
+import { AIInsight, HabitCorrelation, MoodTrend, Note } from '../types';
+import { InsightProvider } from './insightProvider';
+import { HabitSummary, InsightContext, condense, dayOf } from './insightContext';
+import { NEGATIVE, POSITIVE, moodScore, moodToScore } from './mood';
+
+// A deterministic, rule-based reflection that never leaves the device. It scores the
+// period's entries against small word lists, picks suggestions for the themes that come
+// up, and compares the mood of days with and without each habit.
+
+interface Theme {
+  label: string;
+  words: string[];
+  suggestion: string;
+}
+
+const THEMES: Theme[] = [
+  { label: 'sleep', words: ['sleep', 'slept', 'insomnia', 'nap', 'bed', 'tired', 'exhausted'], suggestion: 'Protect your sleep: set a wind-down time tonight and keep screens out of bed.' },
+  { label: 'work', words: ['work', 'job', 'meeting', 'deadline', 'boss', 'project', 'office'], suggestion: 'Pick the single most important work task for tomorrow and block time for it.' },
+  { label: 'stress', words: ['stress', 'stressed', 'anxious', 'anxiety', 'overwhelmed', 'worried', 'pressure'], suggestion: 'Try five minutes of slow breathing or a short walk when the pressure builds.' },
+  { label: 'relationships', words: ['friend', 'family', 'partner', 'mom', 'dad', 'kids', 'lonely', 'together'], suggestion: 'Reach out to someone you care about with a short message or call today.' },
+  { label: 'exercise', words: ['run', 'gym', 'walk', 'yoga', 'workout', 'exercise', 'swim', 'hike'], suggestion: 'Keep moving: schedule your next workout or walk so it actually happens.' },
+  { label: 'food', words: ['eat', 'ate', 'food', 'cook', 'dinner', 'lunch', 'breakfast', 'snack'], suggestion: 'Plan one nourishing meal ahead of time so the easy option is also the good one.' },
+  { label: 'gratitude', words: ['grateful', 'thankful', 'gratitude', 'appreciate', 'blessed'], suggestion: 'Keep the gratitude going: write down three good things before bed.' }
+];
+
+const FALLBACK_SUGGESTIONS = [
+  'Write a few lines each day, even on quiet days; patterns only show up over time.',
+  'Take a ten-minute break outside today and notice how you feel afterwards.',
+  'End the day by noting one thing that went well and one thing to try tomorrow.'
+];
+
+const words = (note: Note) => `${note.title} ${note.content} ${note.tags.join(' ')}`.toLowerCase().match(/[a-z']+/g) ?? [];
+
+const count = (tokens: string[], list: string[]) => tokens.filter(t => list.includes(t)).length;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const MOOD_SHIFT = 0.2;
+const HABIT_EFFECT = 0.25;
+const MIN_DAYS = 2;
+
+// Moods the user set win over the word lists for their day
+const dailyMoods = (notes: Note[]) => {
+  const byDay = new Map<string, Note[]>();
+  notes.forEach(note => byDay.set(dayOf(note), [...(byDay.get(dayOf(note)) ?? []), note]));
+  return new Map([...byDay].sort(([a], [b]) => a.localeCompare(b)).map(([day, dayNotes]) => {
+    const rated = dayNotes.filter(note => note.mood !== undefined).map(note => moodToScore(note.mood!));
+    return [day, rated.length > 0 ? average(rated) : moodScore(dayNotes.flatMap(words))];
+  }));
+};
+
+const moodTrendOf = (moods: Map<string, number>, label: string): MoodTrend => {
+  const values = [...moods.values()];
+  if (values.length < MIN_DAYS) {
+    return { direction: 'steady', description: `There is only one day of entries ${label}, so no trend yet.` };
+  }
+  const half = Math.floor(values.length / 2);
+  const shift = average(values.slice(values.length - half)) - average(values.slice(0, half));
+  const spread = Math.max(...values) - Math.min(...values);
+  if (shift > MOOD_SHIFT) return { direction: 'improving', description: `Your entries ${label} grow more positive towards the end.` };
+  if (shift < -MOOD_SHIFT) return { direction: 'declining', description: `Your entries ${label} turn heavier towards the end.` };
+  if (spread > 1) return { direction: 'mixed', description: `Your mood ${label} swings between good and difficult days.` };
+  return { direction: 'steady', description: `Your mood stays fairly even ${label}.` };
+};
+
+// Compares the mood of days with entries on which each habit was or wasn't done.
+const habitCorrelationsOf = (moods: Map<string, number>, habits: HabitSummary[]): HabitCorrelation[] =>
+  habits.flatMap((habit): HabitCorrelation[] => {
+    const done = new Set(habit.doneDays);
+    const withHabit = [...moods].filter(([day]) => done.has(day)).map(([, mood]) => mood);
+    const without = [...moods].filter(([day]) => !done.has(day)).map(([, mood]) => mood);
+    if (withHabit.length < MIN_DAYS || without.length < MIN_DAYS) return [];
+    const difference = average(withHabit) - average(without);
+    if (difference > HABIT_EFFECT) {
+      return [{ habit: habit.name, effect: 'positive', observation: `Days with ${habit.name} read more positive than days without it.` }];
+    }
+    if (difference < -HABIT_EFFECT) {
+      return [{ habit: habit.name, effect: 'negative', observation: `Days with ${habit.name} read heavier than days without it.` }];
+    }
+    return [{ habit: habit.name, effect: 'unclear', observation: `Your mood looks about the same with or without ${habit.name}.` }];
+  });
+
+export const analyzeContext = ({ range, notes, habits }: InsightContext): AIInsight => {
+  if (notes.length === 0) {
+    return {
+      summary: `There are no entries ${range.label} to reflect on yet. Write about your day and come back for a reflection.`,
+      suggestions: FALLBACK_SUGGESTIONS,
+      habitCorrelations: []
+    };
+  }
+
+  const tokens = notes.flatMap(words);
+  const score = moodScore(tokens);
+  const mood = count(tokens, POSITIVE) + count(tokens, NEGATIVE) === 0 ? 'fairly neutral'
+    : score > MOOD_SHIFT ? 'mostly positive'
+    : score < -MOOD_SHIFT ? 'on the heavier side' : 'mixed';
+
+  const themes = THEMES
+    .map(theme => ({ theme, hits: count(tokens, theme.words) }))
+    .filter(t => t.hits > 0)
+    .sort((a, b) => b.hits - a.hits || THEMES.indexOf(a.theme) - THEMES.indexOf(b.theme))
+    .map(t => t.theme);
+
+  const entries = notes.length === 1 ? 'your entry' : `your ${notes.length} entries`;
+  const topics = themes.slice(0, 3).map(t => t.label);
+  const summary = topics.length > 0
+    ? `Across ${entries} ${range.label} your mood reads as ${mood}, with ${topics.join(', ').replace(/, ([^,]*)$/, ' and $1')} coming up most.`
+    : `Across ${entries} ${range.label} your mood reads as ${mood}.`;
+
+  const suggestions = themes.map(t => t.suggestion);
+  for (const fallback of FALLBACK_SUGGESTIONS) {
+    if (suggestions.length >= 3) break;
+    suggestions.push(fallback);
+  }
+
+  const moods = dailyMoods(notes);
+  return {
+    summary,
+    suggestions: suggestions.slice(0, 3),
+    moodTrend: moodTrendOf(moods, range.label),
+    habitCorrelations: habitCorrelationsOf(moods, habits)
+  };
+};
+
+export const createLocalProvider = (): InsightProvider => ({
+  id: 'local',
+  label: 'On-device',
+  requiresNetwork: false,
+  generateInsight: async (context) => analyzeContext(context),
+
+  // Without a model the best answer is the retrieved entries themselves.
+  async streamAnswer({ sources }, onText) {
+    const text = sources.length === 0
+      ? "I couldn't find entries about that. Try other words, or choose an AI provider in Settings for written answers."
+      : `These entries look most related to your question:\n${sources
+        .map(({ index, note }) => `[${index}] ${dayOf(note)}: ${condense(`${note.title}${note.title ? '. ' : ''}${note.content}`, 160)}`)
+        .join('\n')}`;
+    onText(text);
+    return text;
+  }
+});
@@ -0,0 +1,179 @@
+// The Markdown subset entries are written in: headings, bullet, numbered and check lists,
+// quotes, code, rules, and inline bold, italic, code and links. Parsing produces plain
+// data that components/MarkdownView.tsx renders, so no HTML from an entry reaches the page.
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Inline[] };
+
+export interface ListItem {
+  text: string;
+  checked?: boolean; // Set for checklist items only
+  line: number; // Index of the item's line in the source, for toggling checkboxes
+}
+
+export type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'rule' }
+  | { type: 'paragraph'; text: string };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^(?:-{3,}|\*{3,}|_{3,})\s*$/;
+const FENCE = /^```/;
+
+export const parseMarkdown = (source: string): Block[] => {
+  const lines = source.split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      i++;
+      continue;
+    }
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() });
+      i++;
+      continue;
+    }
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: ListItem[] = [];
+      for (let match = item; match && /\d/.test(match[1]) === ordered; match = lines[++i]?.match(LIST_ITEM) ?? null) {
+        items.push({ text: match[3], checked: match[2] === undefined ? undefined : match[2] !== ' ', line: i });
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(lines[i].match(QUOTE)![1]);
+      blocks.push({ type: 'quote', text: quoted.join('\n') });
+      continue;
+    }
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim() && !isBlockStart(lines[i]); i++) paragraph.push(lines[i]);
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+  return blocks;
+};
+
+const isBlockStart = (line: string) =>
+  HEADING.test(line) || LIST_ITEM.test(line) || QUOTE.test(line) || RULE.test(line) || FENCE.test(line);
+
+// Only links that can't run script; anything else stays plain text
+export const safeHref = (href: string) => (/^(https?:|mailto:)/i.test(href.trim()) ? href.trim() : null);
+
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]+[^\s<.,;:!?)\]'"])/;
+
+export const parseInline = (text: string): Inline[] => {
+  const result: Inline[] = [];
+  let rest = text;
+  while (rest) {
+    const match = rest.match(INLINE);
+    if (!match) {
+      result.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index! > 0) result.push({ type: 'text', text: rest.slice(0, match.index) });
+    const [whole, code, strong, strongAlt, em, emAlt, linkText, linkHref, url] = match;
+    if (code !== undefined) {
+      result.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      result.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      result.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else if (linkText !== undefined) {
+      const href = safeHref(linkHref);
+      result.push(href ? { type: 'link', href, children: parseInline(linkText) } : { type: 'text', text: whole });
+    } else {
+      result.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    }
+    rest = rest.slice(match.index! + whole.length);
+  }
+  return result;
+};
+
+// Flips the checkbox of the checklist item on `line`
+export const toggleChecklistItem = (source: string, line: number) => {
+  const lines = source.split('\n');
+  lines[line] = lines[line]?.replace(/^(\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/, (_, prefix: string, mark: string) => `${prefix}[${mark === ' ' ? 'x' : ' '}]`);
+  return lines.join('\n');
+};
+
+export type MarkdownFormat = 'heading' | 'bold' | 'italic' | 'list' | 'checklist' | 'link';
+
+export interface TextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, string>> = { heading: '## ', list: '- ', checklist: '- [ ] ' };
+
+// Applies a toolbar button to the selected text: wraps it, or prefixes the selected lines.
+export const applyFormat = ({ value, selectionStart, selectionEnd }: TextEdit, format: MarkdownFormat): TextEdit => {
+  const selected = value.slice(selectionStart, selectionEnd);
+  const prefix = LINE_PREFIXES[format];
+  if (prefix) {
+    const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+    const block = value.slice(lineStart, selectionEnd);
+    const prefixed = block.split('\n').map(line => (line.startsWith(prefix) ? line.slice(prefix.length) : prefix + line)).join('\n');
+    return {
+      value: value.slice(0, lineStart) + prefixed + value.slice(selectionEnd),
+      selectionStart: lineStart,
+      selectionEnd: lineStart + prefixed.length
+    };
+  }
+  if (format === 'link') {
+    const text = selected || 'link';
+    const inserted = `[${text}](https://)`;
+    const urlStart = selectionStart + text.length + 3;
+    return { value: value.slice(0, selectionStart) + inserted + value.slice(selectionEnd), selectionStart: urlStart, selectionEnd: urlStart + 8 };
+  }
+  const marker = format === 'bold' ? '**' : '_';
+  return {
+    value: value.slice(0, selectionStart) + marker + selected + marker + value.slice(selectionEnd),
+    selectionStart: selectionStart + marker.length,
+    selectionEnd: selectionEnd + marker.length
+  };
+};
+
+// Enter inside a list starts the next item; on an empty item it ends the list instead.
+// Returns null when Enter should behave normally.
+export const continueList = ({ value, selectionStart, selectionEnd }: TextEdit): TextEdit | null => {
+  if (selectionStart !== selectionEnd) return null;
+  const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+  const line = value.slice(lineStart, selectionStart);
+  const match = line.match(/^(\s*)([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/);
+  if (!match) return null;
+  if (line.length === match[0].length) {
+    return { value: value.slice(0, lineStart) + value.slice(selectionStart), selectionStart: lineStart, selectionEnd: lineStart };
+  }
+  const number = match[2].match(/^(\d+)(.)$/);
+  const marker = number ? `${Number(number[1]) + 1}${number[2]}` : match[2];
+  const next = `\n${match[1]}${marker} ${match[3] ? '[ ] ' : ''}`;
+  const cursor = selectionStart + next.length;
+  return { value: value.slice(0, selectionStart) + next + value.slice(selectionEnd), selectionStart: cursor, selectionEnd: cursor };
+};
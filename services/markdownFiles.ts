@@ -0,0 +1,192 @@
+import { Note } from '../types';
+import { normalizeTag } from './search';
+import { toDayKey } from './habitEngine';
+import { normalizeEmotions, normalizeMood } from './mood';
+
+// Notes as Markdown files with YAML front matter, the layout shared by our own export,
+// Obsidian vaults and most other journaling tools. Only the small YAML subset those
+// tools write is understood: scalars, quoted strings and flat lists.
+
+export type FrontMatter = Record<string, string | string[]>;
+
+// A note read from another app, before it is given an id and merged
+export interface ParsedEntry {
+  id?: string;
+  title: string;
+  content: string;
+  tags: string[];
+  mood?: number;
+  emotions?: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const HASHTAG = /(^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+const WIKILINK = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+
+const parseScalar = (value: string) => {
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  return value;
+};
+
+export const parseFrontMatter = (text: string): { data: FrontMatter; body: string } => {
+  const match = text.match(FRONT_MATTER);
+  if (!match) return { data: {}, body: text };
+
+  const data: FrontMatter = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(parseScalar(item[1].trim()));
+      continue;
+    }
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) continue;
+    const [, key, raw] = pair;
+    const value = raw.trim();
+    listKey = null;
+    if (value === '') {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = value.slice(1, -1).split(',').map(v => parseScalar(v.trim())).filter(Boolean);
+    } else {
+      data[key] = parseScalar(value);
+    }
+  }
+  return { data, body: text.slice(match[0].length) };
+};
+
+// "YYYY-MM-DD" and "YYYY-MM-DD HH:mm" are local times; anything else goes through Date.parse
+export const parseDate = (value: string | string[] | undefined): number | null => {
+  if (typeof value !== 'string') return null;
+  const local = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (local) {
+    const [, y, m, d, h = '0', min = '0', s = '0'] = local;
+    return new Date(Number(y), Number(m) - 1, Number(d), Number(h), Number(min), Number(s)).getTime();
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+};
+
+const quote = (value: string) => JSON.stringify(value);
+
+const formatUuid = (hex: string) => `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+
+export const noteToMarkdown = (note: Note) => [
+  '---',
+  `id: ${note.id}`,
+  `title: ${quote(note.title)}`,
+  `created: ${new Date(note.createdAt).toISOString()}`,
+  `updated: ${new Date(note.updatedAt).toISOString()}`,
+  `tags: [${note.tags.join(', ')}]`,
+  ...(note.mood !== undefined ? [`mood: ${note.mood}`] : []),
+  ...(note.emotions?.length ? [`emotions: [${note.emotions.join(', ')}]`] : []),
+  '---',
+  '',
+  note.content,
+  ''
+].join('\n');
+
+const slugify = (text: string) =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+
+// Unique, date-prefixed file names so an export sorts chronologically in any file browser
+export const markdownFileNames = (notes: Note[]) => {
+  const used = new Set<string>();
+  return notes.map(note => {
+    const stem = `${toDayKey(new Date(note.createdAt))}-${slugify(note.title) || 'entry'}`;
+    let name = `${stem}.md`;
+    for (let i = 2; used.has(name); i++) name = `${stem}-${i}.md`;
+    used.add(name);
+    return name;
+  });
+};
+
+const fileStem = (path: string) => (path.split('/').pop() ?? path).replace(/\.(md|markdown|txt)$/i, '');
+
+const tagList = (value: string | string[] | undefined) => {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : value.split(/[,\s]+/)).map(normalizeTag).filter(Boolean);
+};
+
+// Reads a Markdown entry. The title comes from front matter, a leading "# Heading", or the
+// file name; the date from front matter, a YYYY-MM-DD in the file name (Obsidian daily
+// notes), or the file's modification time. Inline #tags count as tags and [[wikilinks]]
+// become plain text.
+export const parseMarkdownEntry = (path: string, text: string, lastModified: number): ParsedEntry => {
+  const { data, body } = parseFrontMatter(text.replace(/^\uFEFF/, ''));
+  // Files with an id come from our own export and are taken verbatim
+  const native = typeof data.id === 'string';
+  let content = native ? body.replace(/^\r?\n/, '').replace(/\r?\n$/, '') : body.replace(WIKILINK, (_, target: string, alias?: string) => alias ?? target).trim();
+
+  let title = typeof data.title === 'string' ? data.title : '';
+  const heading = content.match(/^#\s+(.+)\r?\n*/);
+  if (!title && heading) {
+    title = heading[1].trim();
+    content = content.slice(heading[0].length);
+  }
+  const stem = fileStem(path);
+  if (!title) title = stem;
+
+  const nameDate = stem.match(/\d{4}-\d{2}-\d{2}/);
+  const createdAt = parseDate(data.created) ?? parseDate(data.date) ?? parseDate(data.creationDate)
+    ?? parseDate(nameDate?.[0]) ?? lastModified;
+  const updatedAt = parseDate(data.updated) ?? parseDate(data.modified) ?? parseDate(data.modifiedDate) ?? Math.max(createdAt, lastModified);
+
+  const inlineTags = native ? [] : Array.from(content.matchAll(HASHTAG), m => normalizeTag(m[2]));
+  const tags = Array.from(new Set([...tagList(data.tags), ...inlineTags])).filter(Boolean);
+
+  return {
+    id: native ? data.id as string : undefined,
+    title,
+    content,
+    tags,
+    mood: normalizeMood(data.mood),
+    emotions: normalizeEmotions(data.emotions),
+    createdAt,
+    updatedAt
+  };
+};
+
+interface DayOneEntry {
+  uuid?: string;
+  text?: string;
+  creationDate?: string;
+  modifiedDate?: string;
+  tags?: string[];
+}
+
+export const isDayOneJournal = (value: any): value is { entries: DayOneEntry[] } =>
+  Array.isArray(value?.entries) && value.entries.every((e: any) => typeof e?.creationDate === 'string');
+
+// Day One's JSON export (Journal.json). Its uuids are 32 hex digits without dashes.
+export const parseDayOneJournal = (journal: { entries: DayOneEntry[] }): ParsedEntry[] =>
+  journal.entries.map(entry => {
+    const createdAt = parseDate(entry.creationDate) ?? Date.now();
+    const parsed = parseMarkdownEntry('', entry.text ?? '', createdAt);
+    const hex = entry.uuid?.toLowerCase().replace(/[^0-9a-f]/g, '');
+    return {
+      ...parsed,
+      id: hex?.length === 32 ? formatUuid(hex) : undefined,
+      title: parsed.title || toDayKey(new Date(createdAt)),
+      tags: Array.from(new Set([...parsed.tags, ...tagList(entry.tags)])),
+      createdAt,
+      updatedAt: parseDate(entry.modifiedDate) ?? createdAt
+    };
+  });
+
+// Stable ids for files without one, so importing the same vault twice merges instead of duplicating
+export const idForPath = async (path: string) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(path)));
+  return formatUuid(Array.from(digest.slice(0, 16), b => b.toString(16).padStart(2, '0')).join(''));
+};
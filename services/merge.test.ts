@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { mergeNotes } from './merge';
+import { Note, NoteBase } from '../types';
+
+const note = (changes: Partial<Note> = {}): Note => ({
+  id: 'n1',
+  title: 'Title',
+  content: 'one\ntwo\nthree',
+  tags: ['work'],
+  journalId: 'default',
+  createdAt: 1,
+  updatedAt: 1,
+  revision: 1,
+  synced: true,
+  ...changes
+});
+
+const base = (changes: Partial<Note> = {}): NoteBase => {
+  const { title, content, tags, mood, emotions, journalId } = note(changes);
+  return { title, content, tags, mood, emotions, journalId };
+};
+
+describe('mergeNotes', () => {
+  it('takes text changed on one side', () => {
+    const merged = mergeNotes(base(), note({ content: 'one\ntwo\nthree\nfour' }), note({ title: 'Renamed' }));
+    expect(merged).toEqual({ title: 'Renamed', content: 'one\ntwo\nthree\nfour', tags: ['work'], journalId: 'default', conflict: false });
+  });
+
+  it('reports text changed differently on both sides', () => {
+    expect(mergeNotes(base(), note({ content: 'one\nTWO\nthree' }), note({ content: 'one\n2\nthree' })).conflict).toBe(true);
+    expect(mergeNotes(base(), note({ title: 'Mine' }), note({ title: 'Theirs' })).conflict).toBe(true);
+  });
+
+  it('keeps tags added on the other device', () => {
+    const merged = mergeNotes(base(), note({ content: 'edited here' }), note({ tags: ['work', 'travel'] }));
+    expect(merged.tags).toEqual(['work', 'travel']);
+  });
+
+  it('combines tags added on both sides and drops ones removed on either', () => {
+    const merged = mergeNotes(
+      base({ tags: ['work', 'ideas'] }),
+      note({ tags: ['work', 'ideas', 'home'] }),
+      note({ tags: ['ideas', 'travel'] })
+    );
+    expect(merged.tags).toEqual(['ideas', 'home', 'travel']);
+  });
+
+  it('keeps the tags of both sides when the base has none recorded', () => {
+    const merged = mergeNotes({ title: 'Title', content: 'one\ntwo\nthree' }, note({ tags: ['a'] }), note({ tags: ['b'] }));
+    expect(merged.tags).toEqual(['a', 'b']);
+  });
+
+  it('takes a mood changed on one side', () => {
+    expect(mergeNotes(base({ mood: 3 }), note({ mood: 3, content: 'edited here' }), note({ mood: 4 })).mood).toBe(4);
+    expect(mergeNotes(base({ mood: 3 }), note({ mood: 2 }), note({ mood: 3 })).mood).toBe(2);
+    expect(mergeNotes(base(), note(), note({ mood: 5 })).mood).toBe(5);
+  });
+
+  it('keeps the local mood when both sides changed it', () => {
+    expect(mergeNotes(base({ mood: 3 }), note({ mood: 1 }), note({ mood: 5 })).mood).toBe(1);
+  });
+
+  it('merges emotions like tags', () => {
+    const merged = mergeNotes(
+      base({ emotions: ['calm', 'tired'] }),
+      note({ emotions: ['calm', 'tired', 'grateful'] }),
+      note({ emotions: ['calm'] })
+    );
+    expect(merged.emotions).toEqual(['calm', 'grateful']);
+    expect(mergeNotes(base(), note(), note()).emotions).toBeUndefined();
+  });
+
+  it('keeps an entry moved to another journal on either side', () => {
+    expect(mergeNotes(base(), note({ content: 'edited here' }), note({ journalId: 'work' })).journalId).toBe('work');
+    expect(mergeNotes(base(), note({ journalId: 'travel' }), note({ title: 'Renamed' })).journalId).toBe('travel');
+    expect(mergeNotes(base(), note({ journalId: 'travel' }), note({ journalId: 'work' })).journalId).toBe('travel');
+  });
+
+  it('keeps a move on the other device against a base from before journals', () => {
+    const { journalId, ...legacy } = base();
+    expect(mergeNotes(legacy, note({ content: 'edited here' }), note({ journalId: 'work' })).journalId).toBe('work');
+    expect(mergeNotes(legacy, note({ journalId: 'travel' }), note({ title: 'Renamed' })).journalId).toBe('travel');
+  });
+});
@@ -0,0 +1,135 @@
+import { DEFAULT_JOURNAL_ID } from './journals';
+import { Note, NoteBase } from '../types';
+
+export interface MergeResult {
+  merged: string;
+  conflict: boolean;
+}
+
+export const CONFLICT_MARKERS = {
+  local: '<<<<<<< This device',
+  separator: '=======',
+  remote: '>>>>>>> Other device'
+};
+
+// Longest common subsequence of two line arrays, as a map from index in `a` to index in `b`.
+const matchLines = (a: string[], b: string[]): Map<number, number> => {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches.set(i++, j++);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+// Line-based three-way merge (diff3). Hunks changed on only one side are taken from that
+// side; hunks changed differently on both sides are wrapped in conflict markers.
+export const mergeText = (base: string, local: string, remote: string): MergeResult => {
+  if (local === remote || remote === base) return { merged: local, conflict: false };
+  if (local === base) return { merged: remote, conflict: false };
+
+  const o = base.split('\n');
+  const a = local.split('\n');
+  const b = remote.split('\n');
+  const toLocal = matchLines(o, a);
+  const toRemote = matchLines(o, b);
+
+  const merged: string[] = [];
+  let conflict = false;
+  let io = 0;
+  let ia = 0;
+  let ib = 0;
+
+  while (true) {
+    // The next base line that survived unchanged on both sides anchors the end of this hunk
+    let stable = io;
+    while (stable < o.length && !(toLocal.has(stable) && toRemote.has(stable))) stable++;
+
+    const ea = stable < o.length ? toLocal.get(stable)! : a.length;
+    const eb = stable < o.length ? toRemote.get(stable)! : b.length;
+    const baseHunk = o.slice(io, stable);
+    const localHunk = a.slice(ia, ea);
+    const remoteHunk = b.slice(ib, eb);
+
+    if (sameLines(localHunk, baseHunk)) {
+      merged.push(...remoteHunk);
+    } else if (sameLines(remoteHunk, baseHunk) || sameLines(localHunk, remoteHunk)) {
+      merged.push(...localHunk);
+    } else {
+      conflict = true;
+      merged.push(CONFLICT_MARKERS.local, ...localHunk, CONFLICT_MARKERS.separator, ...remoteHunk, CONFLICT_MARKERS.remote);
+    }
+
+    if (stable >= o.length) break;
+    merged.push(o[stable]);
+    io = stable + 1;
+    ia = ea + 1;
+    ib = eb + 1;
+  }
+
+  return { merged: merged.join('\n'), conflict };
+};
+
+// Tags added on either side are kept and tags removed on either side stay removed. Without
+// a base nothing is known to be removed, so both sides' tags are kept.
+const mergeSet = (base: string[] | undefined, local: string[], remote: string[]) => {
+  const removed = new Set((base ?? []).filter(item => !local.includes(item) || !remote.includes(item)));
+  return Array.from(new Set([...local, ...remote])).filter(item => !removed.has(item));
+};
+
+// A scalar field takes the remote value unless it was changed locally
+const mergeValue = <T>(base: T | undefined, local: T, remote: T) => local === base ? remote : local;
+
+type NoteMetadata = Pick<Note, 'tags' | 'mood' | 'emotions' | 'journalId'>;
+
+// The fields besides the text, merged without conflicts. Notes and bases saved before
+// journals existed have no journalId and belong to the default journal.
+export const mergeMetadata = (base: NoteBase | null, local: Note, remote: Note): NoteMetadata => ({
+  tags: mergeSet(base?.tags, local.tags, remote.tags),
+  mood: mergeValue(base?.mood, local.mood, remote.mood),
+  emotions: local.emotions || remote.emotions ? mergeSet(base?.emotions, local.emotions ?? [], remote.emotions ?? []) : undefined,
+  journalId: mergeValue(
+    base ? base.journalId ?? DEFAULT_JOURNAL_ID : undefined,
+    local.journalId ?? DEFAULT_JOURNAL_ID,
+    remote.journalId ?? DEFAULT_JOURNAL_ID
+  )
+});
+
+// What a base records of a note: its text and the metadata merged alongside it
+export const toBase = ({ title, content, tags, mood, emotions, journalId, encrypted }: Note): NoteBase =>
+  ({ title, content, tags, mood, emotions, journalId, encrypted });
+
+export const mergeNotes = (
+  base: NoteBase | null,
+  local: Note,
+  remote: Note
+): Pick<Note, 'title' | 'content'> & NoteMetadata & { conflict: boolean } => {
+  const baseTitle = base?.title ?? '';
+  let titleConflict = false;
+  let title = local.title;
+  if (local.title !== remote.title) {
+    if (local.title === baseTitle) title = remote.title;
+    else if (remote.title !== baseTitle) titleConflict = true;
+  }
+
+  const content = mergeText(base?.content ?? '', local.content, remote.content);
+  return { title, content: content.merged, ...mergeMetadata(base, local, remote), conflict: titleConflict || content.conflict };
+};
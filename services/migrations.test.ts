@@ -0,0 +1,193 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { LocalDatabase } from './db';
+import { MigrationError, SCHEMA_VERSION, migrations, runMigrations } from './migrations';
+import { DEFAULT_JOURNAL, DEFAULT_JOURNAL_ID } from './journals';
+
+const DB_NAME = 'ZenMindDB';
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+// Opens the database at `version`, running the steps up to it like the app release that shipped them
+const openAt = (version: number, seed?: (db: IDBDatabase, transaction: IDBTransaction) => void) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, version);
+    req.onupgradeneeded = (event: any) => {
+      const transaction: IDBTransaction = event.target.transaction;
+      migrations
+        .filter(m => m.version > event.oldVersion && m.version <= version)
+        .forEach(m => m.migrate(event.target.result, transaction));
+      seed?.(event.target.result, transaction);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const readAll = async (db: IDBDatabase, store: string) =>
+  request(db.transaction(store, 'readonly').objectStore(store).getAll());
+
+// Records as the first release wrote them
+const V1_NOTES = [
+  { id: 'n1', title: 'First day', content: 'Walked by the river', createdAt: 1000, synced: false },
+  { id: 'n2', title: 'Second day', content: 'Rain all afternoon', createdAt: 2000, synced: true }
+];
+const V1_HABITS = [{ id: 'h1', name: 'Read', completedDays: ['2024-01-01'], streak: 1 }];
+
+const seedV1 = async () => {
+  const db = await openAt(1, (_, transaction) => {
+    V1_NOTES.forEach(note => transaction.objectStore('notes').put(note));
+    V1_HABITS.forEach(habit => transaction.objectStore('habits').put(habit));
+  });
+  db.close();
+};
+
+const upgrade = async () => {
+  const db = await openAt(SCHEMA_VERSION);
+  expect(db.version).toBe(SCHEMA_VERSION);
+  return db;
+};
+
+beforeEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
+
+describe('migrations', () => {
+  it('are numbered consecutively from 1', () => {
+    expect(migrations.map(m => m.version)).toEqual(migrations.map((_, i) => i + 1));
+  });
+
+  it('upgrades a v1 database to the current schema', async () => {
+    await seedV1();
+    const db = await upgrade();
+    expect([...db.objectStoreNames].sort()).toEqual([
+      'attachments', 'conflicts', 'drafts', 'embeddings', 'habits', 'journals', 'keyring',
+      'meta', 'noteHistory', 'notes', 'outbox', 'reflections', 'searchIndex', 'templates'
+    ]);
+    db.close();
+  });
+
+  it('adds revisions, tags and the default journal to existing notes', async () => {
+    await seedV1();
+    const db = await upgrade();
+    const notes = (await readAll(db, 'notes')).sort((a, b) => a.createdAt - b.createdAt);
+    expect(notes).toEqual(V1_NOTES.map(note => ({
+      ...note,
+      updatedAt: note.createdAt,
+      revision: 1,
+      tags: [],
+      journalId: DEFAULT_JOURNAL_ID
+    })));
+    db.close();
+  });
+
+  it('keeps habits as they were', async () => {
+    await seedV1();
+    const db = await upgrade();
+    expect(await readAll(db, 'habits')).toEqual(V1_HABITS);
+    db.close();
+  });
+
+  it('seeds each note history with its current text', async () => {
+    await seedV1();
+    const db = await upgrade();
+    const history = await readAll(db, 'noteHistory');
+    expect(history).toHaveLength(V1_NOTES.length);
+    V1_NOTES.forEach(note => {
+      expect(history).toContainEqual(expect.objectContaining({
+        noteId: note.id,
+        revision: 1,
+        title: note.title,
+        content: note.content,
+        updatedAt: note.createdAt,
+        source: 'local'
+      }));
+    });
+    db.close();
+  });
+
+  it('builds the search index for existing notes', async () => {
+    await seedV1();
+    const db = await upgrade();
+    const index = db.transaction('searchIndex', 'readonly').objectStore('searchIndex');
+    expect(await request(index.get('n1'))).toEqual({ noteId: 'n1', tokens: ['first', 'day', 'walked', 'by', 'the', 'river'] });
+    expect(await request(index.index('tokens').getAllKeys('day'))).toEqual(['n1', 'n2']);
+    expect(await request(index.index('tokens').getAllKeys('rain'))).toEqual(['n2']);
+    db.close();
+  });
+
+  it('creates the default journal and files existing reflections under it', async () => {
+    const db10 = await openAt(10, (_, transaction) => {
+      transaction.objectStore('reflections').put({ id: 'manual:1', kind: 'manual', createdAt: 1 });
+    });
+    db10.close();
+    const db = await upgrade();
+    expect(await readAll(db, 'journals')).toEqual([DEFAULT_JOURNAL]);
+    expect(await readAll(db, 'reflections')).toEqual([{ id: 'manual:1', kind: 'manual', createdAt: 1, journalId: DEFAULT_JOURNAL_ID }]);
+    db.close();
+  });
+
+  it('leaves a note journal that is already set', async () => {
+    const db10 = await openAt(10, (_, transaction) => {
+      transaction.objectStore('notes').put({ id: 'n3', title: '', content: '', tags: [], createdAt: 1, updatedAt: 1, revision: 1, synced: false, journalId: 'work' });
+    });
+    db10.close();
+    const db = await upgrade();
+    expect(await readAll(db, 'notes')).toEqual([expect.objectContaining({ id: 'n3', journalId: 'work' })]);
+    db.close();
+  });
+
+  it('aborts the upgrade and reports the failing step', async () => {
+    await seedV1();
+    const failing = await new Promise<unknown>((resolve) => {
+      const req = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      req.onupgradeneeded = (event: any) => {
+        const transaction: IDBTransaction = event.target.transaction;
+        // Creating a store twice throws inside step 2
+        event.target.result.createObjectStore('outbox', { keyPath: 'key' });
+        try {
+          runMigrations(event.target.result, transaction, event.oldVersion);
+        } catch (err) {
+          resolve(err);
+        }
+      };
+      req.onsuccess = () => req.result.close();
+      req.onerror = () => undefined;
+    });
+    expect(failing).toBeInstanceOf(MigrationError);
+    expect((failing as MigrationError).version).toBe(2);
+
+    const db = await openAt(1);
+    expect([...db.objectStoreNames].sort()).toEqual(['habits', 'notes']);
+    expect(await readAll(db, 'notes')).toEqual(V1_NOTES);
+    db.close();
+  });
+});
+
+describe('LocalDatabase.init', () => {
+  it('upgrades an older database when the app opens it', async () => {
+    await seedV1();
+    const local = new LocalDatabase();
+    await local.init();
+    const notes = await local.getAllNotes();
+    expect(notes.map(note => note.journalId)).toEqual([DEFAULT_JOURNAL_ID, DEFAULT_JOURNAL_ID]);
+    expect(await local.searchNotes('riv')).toEqual(new Set(['n1']));
+  });
+
+  it('refuses a database written by a newer version', async () => {
+    const newer = await openAt(SCHEMA_VERSION + 1);
+    newer.close();
+    const local = new LocalDatabase();
+    const error = await local.init().catch(err => err);
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.cause?.name).toBe('VersionError');
+
+    // Nothing was downgraded
+    const db = await request(indexedDB.open(DB_NAME));
+    expect(db.version).toBe(SCHEMA_VERSION + 1);
+    db.close();
+  });
+});
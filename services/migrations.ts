@@ -0,0 +1,187 @@
+// Versioned IndexedDB schema for ZenMindDB.
+//
+// Every schema change is a new step appended to `migrations`; released steps are never
+// edited. On open, IndexedDB reports the version stored on disk and each step above it
+// runs in order inside the single `versionchange` transaction, so an upgrade either
+// completes entirely or leaves the previous schema untouched.
+
+import { tokenizeNote } from './search';
+import { DEFAULT_JOURNAL, DEFAULT_JOURNAL_ID } from './journals';
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string, public version?: number, public cause?: unknown) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+type Transform = (record: any) => any;
+
+const pendingTransforms = new WeakMap<IDBTransaction, Map<string, Transform[]>>();
+
+// Rewrites every record in a store. Returning undefined from `transform` deletes the record.
+// Transforms registered by several steps of one upgrade share a single cursor and run in
+// step order on each record, so a later step sees the output of the earlier ones.
+export const transformRecords = <T>(
+  transaction: IDBTransaction,
+  storeName: string,
+  transform: (record: T) => T | undefined
+) => {
+  let byStore = pendingTransforms.get(transaction);
+  if (!byStore) {
+    byStore = new Map();
+    pendingTransforms.set(transaction, byStore);
+  }
+  const queued = byStore.get(storeName);
+  if (queued) {
+    queued.push(transform);
+    return;
+  }
+
+  const transforms: Transform[] = [transform];
+  byStore.set(storeName, transforms);
+  transaction.objectStore(storeName).openCursor().onsuccess = (e: any) => {
+    const cursor: IDBCursorWithValue | null = e.target.result;
+    if (!cursor) return;
+    let next = cursor.value;
+    for (const apply of transforms) {
+      if (next === undefined) break;
+      next = apply(next);
+    }
+    if (next === undefined) {
+      cursor.delete();
+    } else {
+      cursor.update(next);
+    }
+    cursor.continue();
+  };
+};
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Notes and habits',
+    migrate: (db) => {
+      db.createObjectStore('notes', { keyPath: 'id' });
+      db.createObjectStore('habits', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 2,
+    description: 'Sync outbox and key/value metadata',
+    migrate: (db) => {
+      db.createObjectStore('outbox', { keyPath: 'key' });
+      db.createObjectStore('meta', { keyPath: 'key' });
+    }
+  },
+  {
+    version: 3,
+    description: 'Note revisions, revision history and sync conflicts',
+    migrate: (db, transaction) => {
+      const history = db.createObjectStore('noteHistory', { keyPath: 'id' });
+      history.createIndex('noteId', 'noteId');
+      db.createObjectStore('conflicts', { keyPath: 'noteId' });
+
+      // Existing notes become revision 1 and seed their history with the current text
+      transformRecords<any>(transaction, 'notes', (note) => {
+        const migrated = { updatedAt: note.createdAt, revision: 1, ...note };
+        history.put({
+          id: crypto.randomUUID(),
+          noteId: migrated.id,
+          revision: migrated.revision,
+          title: migrated.title,
+          content: migrated.content,
+          updatedAt: migrated.updatedAt,
+          source: 'local'
+        });
+        return migrated;
+      });
+    }
+  },
+  {
+    version: 4,
+    description: 'Unsaved drafts',
+    migrate: (db) => {
+      db.createObjectStore('drafts', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 5,
+    description: 'Note tags and full-text search index',
+    migrate: (db, transaction) => {
+      const searchIndex = db.createObjectStore('searchIndex', { keyPath: 'noteId' });
+      searchIndex.createIndex('tokens', 'tokens', { multiEntry: true });
+
+      transformRecords<any>(transaction, 'notes', (note) => {
+        searchIndex.put({ noteId: note.id, tokens: tokenizeNote(note) });
+        return { tags: [], ...note };
+      });
+    }
+  },
+  {
+    version: 6,
+    description: 'Encryption key rings',
+    migrate: (db) => {
+      db.createObjectStore('keyring', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 7,
+    description: 'Insight history',
+    migrate: (db) => {
+      db.createObjectStore('reflections', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 8,
+    description: 'Note embeddings for journal chat',
+    migrate: (db) => {
+      db.createObjectStore('embeddings', { keyPath: 'noteId' });
+    }
+  },
+  {
+    version: 9,
+    description: 'Photo and voice attachments',
+    migrate: (db) => {
+      db.createObjectStore('attachments', { keyPath: 'id' }).createIndex('noteId', 'noteId');
+    }
+  },
+  {
+    version: 10,
+    description: 'Entry templates',
+    migrate: (db) => {
+      db.createObjectStore('templates', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 11,
+    description: 'Journals',
+    migrate: (db, transaction) => {
+      db.createObjectStore('journals', { keyPath: 'id' }).put(DEFAULT_JOURNAL);
+      // journalId stays outside the encrypted text, so sealed notes can be moved without the key
+      transformRecords<any>(transaction, 'notes', (note) => ({ journalId: DEFAULT_JOURNAL_ID, ...note }));
+      transformRecords<any>(transaction, 'reflections', (reflection) => ({ journalId: DEFAULT_JOURNAL_ID, ...reflection }));
+    }
+  }
+];
+
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export const runMigrations = (db: IDBDatabase, transaction: IDBTransaction, fromVersion: number) => {
+  migrations
+    .filter(migration => migration.version > fromVersion)
+    .forEach(migration => {
+      try {
+        migration.migrate(db, transaction);
+      } catch (err) {
+        transaction.abort();
+        throw new MigrationError(`Migration to v${migration.version} (${migration.description}) failed`, migration.version, err);
+      }
+    });
+};
@@ -0,0 +1,52 @@
+import { AIInsight } from '../types';
+import { InsightProvider } from './insightProvider';
+
+// A provider with a canned answer, for tests and for working on the UI without a model.
+
+export const MOCK_INSIGHT: AIInsight = {
+  summary: 'This is a sample reflection from the mock provider.',
+  suggestions: ['Drink a glass of water.', 'Take a short walk.', 'Write one line about tomorrow.']
+};
+
+export const MOCK_ANSWER = 'This is a sample answer from the mock provider, based on entry [1].';
+
+interface MockOptions {
+  insight?: AIInsight;
+  answer?: string;
+  delayMs?: number;
+  error?: Error;
+  requiresNetwork?: boolean;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createMockProvider = ({
+  insight = MOCK_INSIGHT,
+  answer = MOCK_ANSWER,
+  delayMs = 0,
+  error,
+  requiresNetwork = false
+}: MockOptions = {}): InsightProvider => ({
+  id: 'mock',
+  label: 'Mock',
+  requiresNetwork,
+  async generateInsight(_context, signal) {
+    if (delayMs > 0) await wait(delayMs);
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    if (error) throw error;
+    return insight;
+  },
+  // Streams the answer a word at a time, spreading the delay over the words
+  async streamAnswer(_request, onText, signal) {
+    const words = answer.split(' ');
+    let text = '';
+    for (const word of words) {
+      if (delayMs > 0) await wait(delayMs / words.length);
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      if (error) throw error;
+      text = text ? `${text} ${word}` : word;
+      onText(text);
+    }
+    return text;
+  }
+});
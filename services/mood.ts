@@ -0,0 +1,156 @@
+import { Habit, Note } from '../types';
+import { addDays, toDayKey } from './habitEngine';
+
+// Mood scores (1 to 5) and emotion tags on entries. Both are chosen by the user; the
+// suggestion below only scores the text against small word lists and never leaves the device.
+
+export interface MoodLevel {
+  value: number;
+  emoji: string;
+  label: string;
+}
+
+export const MOOD_LEVELS: MoodLevel[] = [
+  { value: 1, emoji: '😞', label: 'Awful' },
+  { value: 2, emoji: '🙁', label: 'Bad' },
+  { value: 3, emoji: '😐', label: 'Okay' },
+  { value: 4, emoji: '🙂', label: 'Good' },
+  { value: 5, emoji: '😄', label: 'Great' }
+];
+
+export const POSITIVE = [
+  'happy', 'grateful', 'calm', 'excited', 'proud', 'relaxed', 'good', 'great', 'love', 'joy',
+  'fun', 'peaceful', 'productive', 'energized', 'hopeful', 'thankful', 'content', 'rested'
+];
+export const NEGATIVE = [
+  'sad', 'tired', 'anxious', 'stressed', 'angry', 'worried', 'lonely', 'bad', 'overwhelmed', 'upset',
+  'exhausted', 'frustrated', 'nervous', 'afraid', 'bored', 'sick', 'hurt', 'depressed'
+];
+
+// Each emotion with the words that suggest it
+const EMOTION_WORDS: Record<string, string[]> = {
+  happy: ['happy', 'joy', 'fun', 'glad', 'great', 'wonderful', 'laughed', 'smile'],
+  grateful: ['grateful', 'thankful', 'gratitude', 'appreciate', 'blessed'],
+  calm: ['calm', 'relaxed', 'peaceful', 'rested', 'quiet', 'content'],
+  excited: ['excited', 'thrilled', 'energized', 'eager'],
+  proud: ['proud', 'accomplished', 'productive', 'finished', 'achieved'],
+  loved: ['love', 'loved', 'hug', 'cuddle'],
+  hopeful: ['hopeful', 'hope', 'optimistic'],
+  tired: ['tired', 'exhausted', 'sleepy', 'drained', 'worn'],
+  anxious: ['anxious', 'anxiety', 'worried', 'nervous', 'afraid', 'panic'],
+  stressed: ['stressed', 'stress', 'overwhelmed', 'pressure', 'deadline', 'busy'],
+  sad: ['sad', 'cried', 'crying', 'down', 'depressed', 'hurt', 'miss'],
+  angry: ['angry', 'mad', 'furious', 'annoyed', 'irritated'],
+  frustrated: ['frustrated', 'frustrating', 'stuck', 'upset'],
+  lonely: ['lonely', 'alone', 'isolated'],
+  bored: ['bored', 'boring', 'dull']
+};
+
+export const EMOTIONS = Object.keys(EMOTION_WORDS);
+
+const MAX_SUGGESTED_EMOTIONS = 3;
+
+export const tokensOf = (text: string) => text.toLowerCase().match(/[a-z']+/g) ?? [];
+
+const count = (tokens: string[], list: string[]) => tokens.filter(t => list.includes(t)).length;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// -1 (only negative words) to 1 (only positive ones); 0 when there are none
+export const moodScore = (tokens: string[]) => {
+  const positive = count(tokens, POSITIVE);
+  const negative = count(tokens, NEGATIVE);
+  return positive + negative === 0 ? 0 : (positive - negative) / (positive + negative);
+};
+
+// Maps between the 1 to 5 scale users pick from and the -1 to 1 scale of moodScore
+export const scoreToMood = (score: number) => Math.min(5, Math.max(1, Math.round(3 + score * 2)));
+export const moodToScore = (mood: number) => (mood - 3) / 2;
+
+export const moodLevel = (mood: number | undefined) => MOOD_LEVELS.find(level => level.value === mood);
+
+// Whole numbers from 1 to 5; anything else read from a file or backup is dropped
+export const normalizeMood = (value: unknown): number | undefined => {
+  const mood = typeof value === 'string' ? Number(value) : value;
+  return typeof mood === 'number' && Number.isInteger(mood) && mood >= 1 && mood <= 5 ? mood : undefined;
+};
+
+export const normalizeEmotions = (value: unknown): string[] | undefined => {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+  const emotions = Array.from(new Set(list.filter((e): e is string => typeof e === 'string').map(e => e.trim().toLowerCase()).filter(Boolean)));
+  return emotions.length > 0 ? emotions : undefined;
+};
+
+export interface MoodSuggestion {
+  mood: number;
+  emotions: string[];
+}
+
+// Null when the text has no words that hint at a mood
+export const suggestMood = (text: string): MoodSuggestion | null => {
+  const tokens = tokensOf(text);
+  const emotions = EMOTIONS
+    .map(emotion => ({ emotion, hits: count(tokens, EMOTION_WORDS[emotion]) }))
+    .filter(e => e.hits > 0)
+    .sort((a, b) => b.hits - a.hits || EMOTIONS.indexOf(a.emotion) - EMOTIONS.indexOf(b.emotion))
+    .slice(0, MAX_SUGGESTED_EMOTIONS)
+    .map(e => e.emotion);
+  if (count(tokens, POSITIVE) + count(tokens, NEGATIVE) === 0 && emotions.length === 0) return null;
+  return { mood: scoreToMood(moodScore(tokens)), emotions };
+};
+
+export interface DayMood {
+  day: string;
+  mood: number; // Average on the 1 to 5 scale
+  estimated: boolean; // True when no entry that day has a mood set and it was read from the text
+}
+
+// One mood per day with entries, oldest first. Days with moods set by the user use those
+// only; other days fall back to the suggestion for their text, if there is one.
+export const dailyMoods = (notes: Note[]): DayMood[] => {
+  const byDay = new Map<string, Note[]>();
+  notes.forEach(note => {
+    const day = toDayKey(new Date(note.createdAt));
+    byDay.set(day, [...(byDay.get(day) ?? []), note]);
+  });
+  return [...byDay]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([day, dayNotes]): DayMood[] => {
+      const rated = dayNotes.map(note => note.mood).filter((mood): mood is number => mood !== undefined);
+      if (rated.length > 0) return [{ day, mood: average(rated), estimated: false }];
+      const suggestion = suggestMood(dayNotes.map(note => `${note.title} ${note.content}`).join(' '));
+      return suggestion ? [{ day, mood: suggestion.mood, estimated: true }] : [];
+    });
+};
+
+export interface HabitMood {
+  habit: Habit;
+  withHabit: number | null; // Average mood on days the habit was done
+  without: number | null; // ...and on the other days with a mood
+  daysWith: number;
+  daysWithout: number;
+}
+
+export const habitMoods = (habits: Habit[], moods: DayMood[]): HabitMood[] =>
+  habits.map(habit => {
+    const done = new Set(habit.completedDays);
+    const withHabit = moods.filter(m => done.has(m.day)).map(m => m.mood);
+    const without = moods.filter(m => !done.has(m.day)).map(m => m.mood);
+    return {
+      habit,
+      withHabit: withHabit.length > 0 ? average(withHabit) : null,
+      without: without.length > 0 ? average(without) : null,
+      daysWith: withHabit.length,
+      daysWithout: without.length
+    };
+  });
+
+export const emotionCounts = (notes: Note[]) => {
+  const counts = new Map<string, number>();
+  notes.forEach(note => note.emotions?.forEach(emotion => counts.set(emotion, (counts.get(emotion) ?? 0) + 1)));
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+// The `length` days ending today, oldest first
+export const lastDays = (today: string, length: number) =>
+  Array.from({ length }, (_, i) => addDays(today, i - length + 1));
@@ -0,0 +1,105 @@
+import { AIConfig } from '../types';
+import { InsightProvider, parseInsight } from './insightProvider';
+import { buildChatInstructions, buildInsightPrompt } from './insightContext';
+import { AIError, errorForStatus } from './aiErrors';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a local
+// Ollama / llama.cpp server, which needs no key and keeps entries on this machine.
+
+export const DEFAULT_OPENAI_ENDPOINT = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.2';
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = 'nomic-embed-text';
+export const DEFAULT_REMOTE_EMBEDDING_MODEL = 'text-embedding-3-small';
+// Small enough for the default context window of a local model, with room for the answer
+const TOKEN_BUDGET = 3000;
+const SYSTEM_PROMPT = 'You are a supportive journaling companion.';
+
+export const isLocalEndpoint = (endpoint: string) => {
+  try {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(endpoint).hostname);
+  } catch {
+    return false;
+  }
+};
+
+// Yields the `data:` payloads of a server-sent event stream.
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.slice(5).trim();
+    }
+  }
+}
+
+export const createOpenAIProvider = (config: AIConfig): InsightProvider => {
+  const endpoint = (config.endpoint || DEFAULT_OPENAI_ENDPOINT).replace(/\/+$/, '');
+  const local = isLocalEndpoint(endpoint);
+  const embeddingModel = config.embeddingModel || (local ? DEFAULT_LOCAL_EMBEDDING_MODEL : DEFAULT_REMOTE_EMBEDDING_MODEL);
+
+  const post = async (path: string, body: object, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+    const res = await fetch(`${endpoint}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    if (!res.ok) throw errorForStatus(res.status, await res.text().catch(() => ''), res.headers.get('Retry-After'));
+    return res;
+  };
+
+  const checkFiltered = (finishReason: unknown) => {
+    if (finishReason === 'content_filter') throw new AIError("The model's content filter blocked the response.", 'safety');
+  };
+
+  return {
+    id: 'openai',
+    label: local ? 'Local model' : 'OpenAI-compatible',
+    requiresNetwork: !local,
+    embeddingModel,
+
+    async generateInsight(context, signal) {
+      const res = await post('/chat/completions', {
+        model: config.model || DEFAULT_OPENAI_MODEL,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: buildInsightPrompt(context, TOKEN_BUDGET) }
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.7
+      }, signal);
+      const data = await res.json();
+      checkFiltered(data.choices?.[0]?.finish_reason);
+      return parseInsight(data.choices?.[0]?.message?.content ?? '');
+    },
+
+    async streamAnswer({ turns, sources }, onText, signal) {
+      const res = await post('/chat/completions', {
+        model: config.model || DEFAULT_OPENAI_MODEL,
+        messages: [
+          { role: 'system', content: buildChatInstructions(sources) },
+          ...turns.map(turn => ({ role: turn.role, content: turn.text }))
+        ],
+        stream: true
+      }, signal);
+      let text = '';
+      for await (const data of readEvents(res.body!)) {
+        if (data === '[DONE]') break;
+        const choice = JSON.parse(data).choices?.[0];
+        checkFiltered(choice?.finish_reason);
+        text += choice?.delta?.content ?? '';
+        onText(text);
+      }
+      return text;
+    },
+
+    async embed(texts, _purpose, signal) {
+      const res = await post('/embeddings', { model: embeddingModel, input: texts }, signal);
+      const data = await res.json();
+      return (data.data ?? []).map((item: { embedding: number[] }) => item.embedding);
+    }
+  };
+};
@@ -0,0 +1,92 @@
+import { AIConfig, EncryptedText, Note } from '../types';
+import { dbService } from './db';
+import { vault } from './crypto';
+import { addDays, daysBetween, todayKey } from './habitEngine';
+import { dayOf } from './insightContext';
+import { generateWritingPrompts } from './geminiService';
+import { withRetry } from './aiErrors';
+
+// Writing prompts for the new-entry form. A fixed list rotates so each day starts on a
+// different prompt; with Gemini and "Writing prompts" on, a few prompts drawn from the last
+// week's entries come first. Those are generated once a day and cached, sealed like
+// entries when encryption is on.
+
+const GENERATED_KEY = 'writingPrompts';
+const RECENT_DAYS = 7;
+const MAX_SOURCE_ENTRIES = 10;
+const ROTATION_EPOCH = '2024-01-01';
+
+export const WRITING_PROMPTS = [
+  'What is taking up most of the space in your mind right now?',
+  'What gave you energy today, and what drained it?',
+  'Describe a small moment from today you would like to remember.',
+  'What are you avoiding, and what would make it easier to start?',
+  'Who made a difference to your day, and did they know it?',
+  'What would you tell a friend who was feeling the way you feel now?',
+  'What did you learn about yourself this week?',
+  'Which of your needs went unmet today?',
+  'What are you looking forward to, however small?',
+  'What is one thing you could let go of?',
+  'When did you feel most like yourself recently?',
+  'What worry turned out better than you expected?',
+  'What does a good day look like for you right now?',
+  'What are you proud of that nobody else noticed?',
+  'Which habit is helping you most at the moment, and why?',
+  'What would make tomorrow 10% better?',
+  'What has been on repeat in your thoughts lately?',
+  'Describe where you are right now using all five senses.',
+  'What boundary would you like to set, or keep?',
+  'What did your body need today, and did it get it?',
+  'Write a short letter to yourself one year from now.',
+  'What surprised you today?',
+  'What are you grateful for that you usually take for granted?',
+  'What question have you been afraid to ask yourself?',
+  'How did you rest this week, and was it enough?',
+  'What would you do differently if you replayed today?',
+  'Which conversation is still on your mind, and why?',
+  'What are three words for how you feel, and where do they come from?'
+];
+
+interface StoredPrompts {
+  day: string;
+  prompts?: string[];
+  encrypted?: EncryptedText;
+}
+
+// Generated prompts first, then the whole fixed list starting at today's offset
+export const dailyPrompts = (generated: string[] = [], today = todayKey()) => {
+  const count = WRITING_PROMPTS.length;
+  const offset = ((daysBetween(ROTATION_EPOCH, today) % count) + count) % count;
+  return [...generated, ...WRITING_PROMPTS.slice(offset), ...WRITING_PROMPTS.slice(0, offset)];
+};
+
+// Drawn from the notes of one journal and cached per journal. Empty when prompts aren't
+// generated or there is nothing recent to draw on; failures are thrown.
+export const getGeneratedPrompts = async (
+  config: AIConfig,
+  notes: Note[],
+  journalId: string,
+  isOnline = navigator.onLine,
+  today = todayKey()
+): Promise<string[]> => {
+  if (config.provider !== 'gemini' || !config.writingPrompts) return [];
+  const key = `${GENERATED_KEY}:${journalId}`;
+  const stored = await dbService.getMeta<StoredPrompts>(key);
+  if (stored?.day === today && !!stored.encrypted === vault.enabled) {
+    return stored.encrypted ? vault.openData<string[]>(stored.encrypted) : stored.prompts ?? [];
+  }
+
+  const since = addDays(today, -RECENT_DAYS);
+  const recent = notes
+    .filter(note => dayOf(note) >= since)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, MAX_SOURCE_ENTRIES);
+  if (!isOnline || recent.length === 0) return [];
+
+  const prompts = await withRetry(() => generateWritingPrompts(config, recent));
+  await dbService.setMeta<StoredPrompts>(
+    key,
+    vault.enabled ? { day: today, encrypted: await vault.sealData(prompts) } : { day: today, prompts }
+  );
+  return prompts;
+};
@@ -0,0 +1,115 @@
+import { dbService } from './db';
+import { InsightPeriod, Journal, Note, Reflection, ReflectionKind } from '../types';
+import { InsightProvider } from './insightProvider';
+import { createProvider, generateInsight } from './insights';
+import { getSettings } from './settings';
+import { DateRange, InsightContext, buildInsightContext, notesBetween } from './insightContext';
+import { addDays, startOfWeek, todayKey } from './habitEngine';
+import { AIError } from './aiErrors';
+import { DEFAULT_JOURNAL_ID, notesInJournal } from './journals';
+
+// Saved insights and the automatic daily and weekly reflections. Scheduled reflections
+// cover the last finished day or week of one journal and are keyed by both, so each is
+// made only once.
+
+interface DueReflection {
+  kind: ReflectionKind;
+  periodKey: string;
+  journalId: string;
+  range: DateRange;
+}
+
+export interface ReflectionResult {
+  reflection: Reflection;
+  fellBack: boolean;
+}
+
+// Reflections made before journals existed belong to the default journal and keep their ids
+const reflectionId = (kind: ReflectionKind, periodKey: string, journalId: string) =>
+  journalId === DEFAULT_JOURNAL_ID ? `${kind}:${periodKey}` : `${kind}:${periodKey}:${journalId}`;
+
+export const createReflection = async (
+  kind: ReflectionKind,
+  periodKey: string | null,
+  journalId: string,
+  context: InsightContext,
+  provider: InsightProvider,
+  isOnline = navigator.onLine,
+  period?: InsightPeriod,
+  signal?: AbortSignal
+): Promise<ReflectionResult> => {
+  const { insight, provider: used, fellBack } = await generateInsight(context, provider, isOnline, signal);
+  const reflection: Reflection = {
+    id: periodKey ? reflectionId(kind, periodKey, journalId) : crypto.randomUUID(),
+    kind,
+    periodKey,
+    journalId,
+    period,
+    createdAt: Date.now(),
+    noteIds: context.notes.map(note => note.id),
+    provider: used.label,
+    insight
+  };
+  await dbService.saveReflection(reflection);
+  return { reflection, fellBack };
+};
+
+export const dueReflections = (
+  notes: Note[],
+  reflections: Reflection[],
+  journals: Journal[],
+  { autoDaily, autoWeekly }: { autoDaily: boolean; autoWeekly: boolean },
+  today = todayKey(),
+  weekStartsOn = 1
+): DueReflection[] => {
+  const made = new Set(reflections.map(r => r.id));
+  const due: DueReflection[] = [];
+
+  const yesterday = addDays(today, -1);
+  const lastWeek = addDays(startOfWeek(today, weekStartsOn), -7);
+  journals.forEach(({ id: journalId }) => {
+    if (autoDaily && !made.has(reflectionId('daily', yesterday, journalId))) {
+      due.push({ kind: 'daily', periodKey: yesterday, journalId, range: { label: 'yesterday', start: yesterday, end: yesterday } });
+    }
+    if (autoWeekly && !made.has(reflectionId('weekly', lastWeek, journalId))) {
+      due.push({ kind: 'weekly', periodKey: lastWeek, journalId, range: { label: 'last week', start: lastWeek, end: addDays(lastWeek, 6) } });
+    }
+  });
+  return due.filter(d => notesBetween(notesInJournal(notes, d.journalId, journals), d.range.start, d.range.end).length > 0);
+};
+
+let running: Promise<Reflection[]> | null = null;
+
+// Called when the app opens. Providers that need the internet are not replaced by the
+// on-device one here; the reflection waits for the next launch while online instead.
+export const runScheduledReflections = (isOnline = navigator.onLine): Promise<Reflection[]> => {
+  if (running) return running;
+  running = (async () => {
+    const { ai, weekStartsOn } = await getSettings();
+    const provider = createProvider(ai);
+    if (provider.requiresNetwork && !isOnline) return [];
+
+    const [notes, habits, journals, reflections] = await Promise.all([
+      dbService.getAllNotes(),
+      dbService.getAllHabits(),
+      dbService.getJournals(),
+      dbService.getReflections()
+    ]);
+    const created: Reflection[] = [];
+    const today = todayKey();
+    for (const due of dueReflections(notes, reflections, journals, ai, today, weekStartsOn)) {
+      try {
+        const context = buildInsightContext(due.range, notesInJournal(notes, due.journalId, journals), habits, today, weekStartsOn);
+        created.push((await createReflection(due.kind, due.periodKey, due.journalId, context, provider, isOnline)).reflection);
+      } catch (err) {
+        console.error(`Could not create the ${due.kind} reflection`, err);
+        // The next one would fail the same way
+        if (err instanceof AIError && (err.reason === 'key' || err.reason === 'quota')) break;
+      }
+    }
+    return created;
+  })().finally(() => {
+    running = null;
+  });
+  return running;
+};
@@ -0,0 +1,119 @@
+import { dbService } from './db';
+import { Habit, ReminderSettings } from '../types';
+
+// Reminders are evaluated by the service worker (sw.js), which reads habits and these
+// settings straight from IndexedDB. It is woken up in three ways, best first:
+//   1. a Web Push message from the configured push server at each reminder time,
+//   2. Periodic Background Sync, available to installed PWAs in Chromium,
+//   3. a timer in this page while the app is open.
+
+export const REMINDER_TAG = 'reminders';
+
+const SETTINGS_KEY = 'reminderSettings';
+const PERIODIC_INTERVAL_MS = 15 * 60 * 1000;
+const FOREGROUND_CHECK_MS = 60 * 1000;
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = { enabled: false, journalTime: null, pushServer: '' };
+
+const getRegistration = async (): Promise<any | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+  return navigator.serviceWorker.ready;
+};
+
+export const getReminderSettings = async (): Promise<ReminderSettings> => ({
+  ...DEFAULT_REMINDER_SETTINGS,
+  ...(await dbService.getMeta<ReminderSettings>(SETTINGS_KEY))
+});
+
+// Saves the settings and (re)registers whatever delivery channels are available.
+export const saveReminderSettings = async (changes: Partial<ReminderSettings>, habits: Habit[]): Promise<ReminderSettings> => {
+  const settings = { ...(await getReminderSettings()), ...changes };
+
+  if (changes.enabled) {
+    const permission = 'Notification' in window ? await Notification.requestPermission() : 'denied';
+    if (permission !== 'granted') settings.enabled = false;
+  }
+  settings.pushServer = settings.pushServer.trim().replace(/\/+$/, '');
+  await dbService.setMeta(SETTINGS_KEY, settings);
+
+  if (settings.enabled) {
+    await registerPeriodicCheck();
+    if (settings.pushServer) await subscribeToPush(settings, habits);
+  } else {
+    await unregisterAll();
+  }
+  return settings;
+};
+
+const registerPeriodicCheck = async () => {
+  const registration = await getRegistration();
+  if (!registration?.periodicSync) return;
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state === 'granted') {
+      await registration.periodicSync.register(REMINDER_TAG, { minInterval: PERIODIC_INTERVAL_MS });
+    }
+  } catch (err) {
+    console.warn('Periodic sync unavailable', err);
+  }
+};
+
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = `${base64}${'='.repeat((4 - (base64.length % 4)) % 4)}`.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+// Push server protocol: GET /vapidPublicKey returns the application server key as text;
+// POST /subscriptions stores the subscription with the reminder schedule, and the server
+// sends `{ "type": "check-reminders" }` at each time so the worker can decide what is still due.
+const subscribeToPush = async (settings: ReminderSettings, habits: Habit[]) => {
+  const registration = await getRegistration();
+  if (!registration?.pushManager) return;
+  try {
+    const key = await (await fetch(`${settings.pushServer}/vapidPublicKey`, { cache: 'no-store' })).text();
+    const subscription = await registration.pushManager.getSubscription()
+      ?? await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(key.trim()) });
+    await fetch(`${settings.pushServer}/subscriptions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store',
+      body: JSON.stringify({
+        subscription,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        times: reminderTimes(settings, habits)
+      })
+    });
+  } catch (err) {
+    console.warn('Push subscription failed', err);
+  }
+};
+
+const unregisterAll = async () => {
+  const registration = await getRegistration();
+  if (!registration) return;
+  await registration.periodicSync?.unregister(REMINDER_TAG).catch(() => undefined);
+  const subscription = await registration.pushManager?.getSubscription();
+  await subscription?.unsubscribe();
+};
+
+export const reminderTimes = (settings: ReminderSettings, habits: Habit[]) => {
+  const times = habits.map(h => h.reminderTime).concat(settings.journalTime ?? undefined);
+  return Array.from(new Set(times.filter((t): t is string => Boolean(t)))).sort();
+};
+
+// Keeps the push server's schedule current after a habit reminder changes.
+export const refreshReminderSchedule = async (habits: Habit[]) => {
+  const settings = await getReminderSettings();
+  if (settings.enabled && settings.pushServer) await subscribeToPush(settings, habits);
+};
+
+// While the app is open, ask the worker to check reminders every minute.
+export const startForegroundReminders = (): (() => void) => {
+  const check = async () => {
+    const registration = await getRegistration();
+    registration?.active?.postMessage({ type: 'check-reminders' });
+  };
+  const timer = setInterval(check, FOREGROUND_CHECK_MS);
+  check();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,93 @@
+import { Route, SharedText } from '../types';
+
+// Keeps the current page in the URL and the browser history, so the back button, deep
+// links, manifest shortcuts and the share target work:
+//
+//   /journal              the current journal's entries
+//   /journal/new          the new-entry form; shared text arrives as ?title=&text=&url=
+//   /journal/:noteId      an entry, open for editing
+//   /habits, /habits/:habitId
+//   /trends, /insights, /settings
+//
+// Every path is answered with index.html, by the dev server and offline by the service
+// worker; anything unknown opens the journal.
+
+type RouteListener = (route: Route) => void;
+
+const parseShared = (params: URLSearchParams): SharedText | undefined => {
+  const shared = { title: params.get('title') ?? '', text: params.get('text') ?? '', url: params.get('url') ?? '' };
+  return shared.title || shared.text || shared.url ? shared : undefined;
+};
+
+export const parseRoute = (pathname: string, search = ''): Route => {
+  const [page, id] = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  switch (page) {
+    case 'habits':
+      return id ? { page: 'habits', habitId: id } : { page: 'habits' };
+    case 'trends':
+    case 'insights':
+    case 'settings':
+      return { page };
+    case 'journal':
+      if (id === 'new') return { page: 'journal', compose: true, shared: parseShared(new URLSearchParams(search)) };
+      return id ? { page: 'journal', noteId: id } : { page: 'journal' };
+    default:
+      return { page: 'journal' };
+  }
+};
+
+// Shared text is consumed when the page opens and never written back
+export const routePath = (route: Route): string => {
+  switch (route.page) {
+    case 'journal':
+      if (route.compose) return '/journal/new';
+      return route.noteId ? `/journal/${encodeURIComponent(route.noteId)}` : '/journal';
+    case 'habits':
+      return route.habitId ? `/habits/${encodeURIComponent(route.habitId)}` : '/habits';
+    default:
+      return `/${route.page}`;
+  }
+};
+
+class Router {
+  private route: Route = { page: 'journal' };
+  private listeners = new Set<RouteListener>();
+
+  get current(): Route {
+    return this.route;
+  }
+
+  // Reads the page from the address bar, and follows back and forward from then on
+  start(): void {
+    this.route = parseRoute(location.pathname, location.search);
+    // `/` and unknown paths show the journal under its own URL
+    if (routePath(this.route) !== location.pathname) history.replaceState(null, '', routePath(this.route));
+    window.addEventListener('popstate', () => {
+      this.route = parseRoute(location.pathname, location.search);
+      this.notify();
+    });
+  }
+
+  navigate(route: Route, replace = false): void {
+    const path = routePath(route);
+    if (replace) {
+      history.replaceState(null, '', path);
+    } else if (path !== location.pathname) {
+      history.pushState(null, '', path);
+    }
+    this.route = route;
+    this.notify();
+  }
+
+  subscribe(listener: RouteListener): () => void {
+    this.listeners.add(listener);
+    listener(this.route);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.route));
+  }
+}
+
+export const router = new Router();
@@ -0,0 +1,82 @@
+import { Note } from '../types';
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface NoteFilter {
+  query: string;
+  tags: string[];
+  from: string; // YYYY-MM-DD, local time, inclusive
+  to: string;
+}
+
+export const EMPTY_FILTER: NoteFilter = { query: '', tags: [], from: '', to: '' };
+
+const SNIPPET_RADIUS = 60;
+
+// Lowercased, accent-folded words of two or more letters or digits, deduplicated.
+export const tokenize = (text: string): string[] => {
+  const words = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length >= 2);
+  return Array.from(new Set(words));
+};
+
+export const tokenizeNote = (note: Pick<Note, 'title' | 'content'>) => tokenize(`${note.title} ${note.content}`);
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+
+export const parseTags = (input: string) => Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)));
+
+export const isFilterActive = (filter: NoteFilter) =>
+  Boolean(filter.query.trim() || filter.tags.length || filter.from || filter.to);
+
+const startOfLocalDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+// Tag and date-range part of a filter; the text query goes through the IndexedDB index instead.
+export const matchesFilter = (note: Note, filter: NoteFilter) => {
+  if (filter.tags.length && !filter.tags.every(tag => note.tags.includes(tag))) return false;
+  if (filter.from && note.createdAt < startOfLocalDay(filter.from)) return false;
+  if (filter.to && note.createdAt >= startOfLocalDay(filter.to) + 24 * 60 * 60 * 1000) return false;
+  return true;
+};
+
+// Text around the first match, split into highlighted and plain parts. Matching works on
+// folded text so "cafe" finds "Café"; folding keeps string offsets for Latin scripts.
+export const buildSnippet = (text: string, query: string, radius = SNIPPET_RADIUS): SnippetPart[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const folded = text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+  const sameLength = folded.length === text.length;
+  const haystack = sameLength ? folded : text.toLowerCase();
+  const pattern = new RegExp(terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'g');
+
+  const first = haystack.search(pattern);
+  if (first === -1) {
+    return [{ text: text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text, match: false }];
+  }
+
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius * 2);
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+
+  let cursor = start;
+  pattern.lastIndex = start;
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(haystack)) && found.index < end) {
+    if (found.index > cursor) parts.push({ text: text.slice(cursor, found.index), match: false });
+    const matchEnd = Math.min(end, found.index + found[0].length);
+    parts.push({ text: text.slice(found.index, matchEnd), match: true });
+    cursor = matchEnd;
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+};
@@ -0,0 +1,74 @@
+// Registers sw.js and reports when a new version has been installed and is waiting.
+// The worker doesn't take over on its own; applyUpdate() tells it to, and the page
+// reloads once it controls the page so the new assets are used throughout.
+
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+type UpdateListener = (available: boolean) => void;
+
+class ServiceWorkerUpdates {
+  private registration: ServiceWorkerRegistration | null = null;
+  private listeners = new Set<UpdateListener>();
+
+  get available(): boolean {
+    return !!this.registration?.waiting && !!navigator.serviceWorker.controller;
+  }
+
+  register(): void {
+    if (!('serviceWorker' in navigator)) return;
+    window.addEventListener('load', async () => {
+      try {
+        this.registration = await navigator.serviceWorker.register('/sw.js');
+      } catch (err) {
+        console.log('SW registration failed: ', err);
+        return;
+      }
+      this.watch(this.registration);
+      this.notify();
+      // Long-lived tabs and installed apps check for a new deploy now and then
+      setInterval(() => this.checkForUpdate(), UPDATE_CHECK_MS);
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') this.checkForUpdate();
+      });
+    });
+  }
+
+  subscribe(listener: UpdateListener): () => void {
+    this.listeners.add(listener);
+    listener(this.available);
+    return () => this.listeners.delete(listener);
+  }
+
+  applyUpdate(): void {
+    const waiting = this.registration?.waiting;
+    if (!waiting) return;
+    let reloading = false;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (reloading) return;
+      reloading = true;
+      window.location.reload();
+    });
+    waiting.postMessage({ type: 'skip-waiting' });
+  }
+
+  private checkForUpdate(): void {
+    if (navigator.onLine) this.registration?.update().catch(() => undefined);
+  }
+
+  // The first install has no controller to replace, so it isn't offered as an update
+  private watch(registration: ServiceWorkerRegistration): void {
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed') this.notify();
+      });
+    });
+  }
+
+  private notify(): void {
+    const available = this.available;
+    this.listeners.forEach(listener => listener(available));
+  }
+}
+
+export const serviceWorkerUpdates = new ServiceWorkerUpdates();
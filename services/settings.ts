@@ -0,0 +1,129 @@
+import { dbService } from './db';
+import { AIConfig, DateFormat, ReminderSettings, Settings } from '../types';
+import { DEFAULT_AI_CONFIG, getAIConfig, saveAIConfig } from './insights';
+import { DEFAULT_REMINDER_SETTINGS, getReminderSettings, saveReminderSettings } from './reminders';
+import { toDayKey } from './habitEngine';
+import { DEFAULT_JOURNAL_ID } from './journals';
+
+// General preferences live in one meta record; AI and reminder settings are delegated to
+// their own services so their storage (and what the service worker reads) doesn't change.
+// Settings are not synced; backups carry the preferences and reminder settings, not the AI config.
+
+const SETTINGS_KEY = 'settings';
+
+type Preferences = Omit<Settings, 'ai' | 'reminders'>;
+
+export type SettingsChanges = Partial<Preferences> & {
+  ai?: Partial<AIConfig>;
+  reminders?: Partial<ReminderSettings>;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  theme: 'system',
+  weekStartsOn: 1,
+  locale: '',
+  dateFormat: 'medium',
+  insightPeriod: 'week',
+  journalId: DEFAULT_JOURNAL_ID,
+  ai: DEFAULT_AI_CONFIG,
+  reminders: DEFAULT_REMINDER_SETTINGS
+};
+
+export const WEEK_START_OPTIONS: { day: number; label: string }[] = [
+  { day: 1, label: 'Monday' },
+  { day: 0, label: 'Sunday' },
+  { day: 6, label: 'Saturday' }
+];
+
+// Shown in Settings as an example date in the chosen locale
+export const DATE_FORMATS: DateFormat[] = ['medium', 'long', 'numeric', 'iso'];
+
+// Offered in Settings; any supported tag stored here works too
+export const LOCALES: { id: string; label: string }[] = [
+  { id: '', label: 'Browser default' },
+  { id: 'en-US', label: 'English (US)' },
+  { id: 'en-GB', label: 'English (UK)' },
+  { id: 'de-DE', label: 'Deutsch' },
+  { id: 'es-ES', label: 'Español' },
+  { id: 'fr-FR', label: 'Français' },
+  { id: 'it-IT', label: 'Italiano' },
+  { id: 'nl-NL', label: 'Nederlands' },
+  { id: 'pt-BR', label: 'Português (Brasil)' },
+  { id: 'ja-JP', label: '日本語' }
+];
+
+const isSupportedLocale = (locale: string) => {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false; // Not a well-formed tag
+  }
+};
+
+const preferencesOf = ({ ai, reminders, ...preferences }: Settings): Preferences => preferences;
+
+export const applySettingsChanges = (settings: Settings, { ai, reminders, ...preferences }: SettingsChanges): Settings => ({
+  ...settings,
+  ...preferences,
+  ai: { ...settings.ai, ...ai },
+  reminders: { ...settings.reminders, ...reminders }
+});
+
+export const getSettings = async (): Promise<Settings> => {
+  const [preferences, ai, reminders] = await Promise.all([
+    dbService.getMeta<Preferences>(SETTINGS_KEY),
+    getAIConfig(),
+    getReminderSettings()
+  ]);
+  return { ...DEFAULT_SETTINGS, ...preferences, ai, reminders };
+};
+
+// Returns what was actually saved: reminders stay off without notification permission,
+// text fields are trimmed and unsupported locales fall back to the browser's.
+export const saveSettings = async ({ ai, reminders, ...preferences }: SettingsChanges): Promise<Settings> => {
+  const settings = { ...(await getSettings()), ...preferences };
+  if (settings.locale && !isSupportedLocale(settings.locale)) settings.locale = '';
+  await dbService.setMeta(SETTINGS_KEY, preferencesOf(settings));
+  if (ai) settings.ai = await saveAIConfig(ai);
+  if (reminders) settings.reminders = await saveReminderSettings(reminders, await dbService.getAllHabits());
+  return settings;
+};
+
+const DATE_OPTIONS: Record<Exclude<DateFormat, 'iso'>, Intl.DateTimeFormatOptions> = {
+  medium: { month: 'short', day: 'numeric', year: 'numeric' },
+  long: { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' },
+  numeric: { month: '2-digit', day: '2-digit', year: 'numeric' }
+};
+const TIME_OPTIONS: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+
+export interface DateFormatter {
+  date: (value: number | Date) => string;
+  dateTime: (value: number | Date) => string;
+  time: (value: number | Date) => string;
+  day: (day: string) => string; // A YYYY-MM-DD day key
+  // Compact labels (a month name, a weekday) in the chosen locale, whatever the date format
+  format: (value: number | Date, options: Intl.DateTimeFormatOptions) => string;
+}
+
+export const createDateFormatter = ({ locale, dateFormat }: Pick<Settings, 'locale' | 'dateFormat'>): DateFormatter => {
+  const tag = locale || undefined;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = (value: number | Date) => {
+    const d = new Date(value);
+    return dateFormat === 'iso' ? toDayKey(d) : d.toLocaleDateString(tag, DATE_OPTIONS[dateFormat]);
+  };
+  const time = (value: number | Date) => {
+    const d = new Date(value);
+    return dateFormat === 'iso' ? `${pad(d.getHours())}:${pad(d.getMinutes())}` : d.toLocaleTimeString(tag, TIME_OPTIONS);
+  };
+  return {
+    date,
+    time,
+    dateTime: (value) => `${date(value)} ${time(value)}`,
+    day: (day) => {
+      const [y, m, d] = day.split('-').map(Number);
+      return date(new Date(y, m - 1, d));
+    },
+    format: (value, options) => new Date(value).toLocaleString(tag, options)
+  };
+};
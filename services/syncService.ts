@@ -0,0 +1,277 @@
+import { dbService, LocalDatabase } from './db';
+import { mergeNotes } from './merge';
+import { VaultError } from './crypto';
+import { Note, NoteBase, OutboxEntry, SyncChange, SyncConfig, SyncStatus } from '../types';
+
+export const SYNC_TAG = 'sync-notes';
+
+const CONFIG_KEY = 'syncConfig';
+const CURSOR_KEY = 'syncCursor';
+const DEVICE_KEY = 'deviceId';
+const PUSH_BATCH_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 15000;
+const DEBOUNCE_MS = 1000;
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+const DEFAULT_CONFIG: SyncConfig = { enabled: false, endpoint: '' };
+
+interface PushResponse {
+  acked: string[];
+  conflicts?: { changeId: string; current: SyncChange }[]; // rejected because the server moved past `baseRevision`
+  rejected?: { changeId: string; reason: string }[]; // malformed, so pushing them again won't help
+}
+
+interface PullResponse {
+  changes: SyncChange[];
+  cursor: string;
+  hasMore: boolean;
+}
+
+// Exponential backoff with jitter, so a fleet of devices coming back online doesn't retry in lockstep.
+export const retryDelay = (attempts: number) => {
+  const ceiling = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+// Background Sync is not part of TypeScript's DOM types
+type SyncRegistration = ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } };
+
+const toChange = ({ changeId, store, id, op, record, baseRevision }: OutboxEntry): SyncChange => ({ changeId, store, id, op, record, baseRevision });
+
+export class SyncEngine {
+  private running: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private status: SyncStatus = { state: 'idle', pending: 0, lastSyncedAt: null, error: null };
+
+  constructor(private db: LocalDatabase) {}
+
+  // Wires the engine to local writes and connectivity changes. Returns a cleanup function.
+  start(): () => void {
+    const stopListening = this.db.onLocalChange(() => this.requestSync());
+    const handleOnline = () => this.sync();
+    window.addEventListener('online', handleOnline);
+    this.sync();
+
+    return () => {
+      stopListening();
+      window.removeEventListener('online', handleOnline);
+      this.clearTimer();
+    };
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.status);
+    return () => this.listeners.delete(listener);
+  }
+
+  async getConfig(): Promise<SyncConfig> {
+    return { ...DEFAULT_CONFIG, ...(await this.db.getMeta<SyncConfig>(CONFIG_KEY)) };
+  }
+
+  async configure(changes: Partial<SyncConfig>): Promise<SyncConfig> {
+    const previous = await this.getConfig();
+    const config = { ...previous, ...changes, endpoint: (changes.endpoint ?? previous.endpoint).trim().replace(/\/+$/, '') };
+    await this.db.setMeta(CONFIG_KEY, config);
+
+    const endpointChanged = config.endpoint !== previous.endpoint;
+    if (endpointChanged) await this.db.setMeta(CURSOR_KEY, undefined);
+    if (config.enabled && (!previous.enabled || endpointChanged)) {
+      await this.db.queueAll();
+    }
+    this.sync();
+    return config;
+  }
+
+  // Debounced sync after a local write. Background sync covers the case where the app closes first.
+  requestSync() {
+    this.registerBackgroundSync();
+    this.clearTimer();
+    this.timer = setTimeout(() => this.sync(), DEBOUNCE_MS);
+  }
+
+  async sync(): Promise<void> {
+    if (this.running) return this.running;
+    this.clearTimer();
+    this.running = this.run().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async run() {
+    const config = await this.getConfig();
+    if (!config.enabled || !config.endpoint) {
+      await this.update({ state: 'idle', error: null });
+      return;
+    }
+    if (!navigator.onLine) {
+      await this.update({ state: 'offline' });
+      return;
+    }
+
+    this.setStatus({ state: 'syncing', error: null });
+    try {
+      const deviceId = await this.getDeviceId();
+      const dropped = await this.push(config, deviceId);
+      await this.pull(config, deviceId);
+      const error = dropped > 0 ? `The server refused ${dropped} change${dropped === 1 ? '' : 's'}, which ${dropped === 1 ? 'was' : 'were'} dropped` : null;
+      await this.update({ state: 'idle', lastSyncedAt: Date.now(), error });
+    } catch (err) {
+      console.error(err);
+      await this.update({ state: 'error', error: err instanceof Error ? err.message : String(err) });
+    }
+    await this.scheduleRetry();
+  }
+
+  // Returns how many changes the server refused outright; they are dropped from the outbox.
+  private async push(config: SyncConfig, deviceId: string): Promise<number> {
+    const now = Date.now();
+    // With encryption on, nothing leaves the device in plaintext
+    const due = await this.db.sealOutbox((await this.db.getOutbox()).filter(entry => entry.nextAttemptAt <= now));
+    let dropped = 0;
+
+    for (let i = 0; i < due.length; i += PUSH_BATCH_SIZE) {
+      const batch = due.slice(i, i + PUSH_BATCH_SIZE);
+      let response: PushResponse;
+      try {
+        response = await this.request<PushResponse>(config, '/push', {
+          method: 'POST',
+          body: JSON.stringify({ deviceId, changes: batch.map(toChange) })
+        });
+      } catch (err) {
+        await this.db.rescheduleOutbox(due.slice(i), retryDelay);
+        throw err;
+      }
+
+      await this.db.acknowledgeChanges(batch, response.acked);
+      const conflicts = new Map((response.conflicts ?? []).map(c => [c.changeId, c.current]));
+      for (const entry of batch) {
+        const current = conflicts.get(entry.changeId);
+        if (current) await this.resolveConflict(entry, current);
+      }
+
+      const refused = new Map((response.rejected ?? []).map(r => [r.changeId, r.reason]));
+      const invalid = batch.filter(entry => refused.has(entry.changeId));
+      if (invalid.length) {
+        invalid.forEach(entry => console.warn(`Sync server refused ${entry.key}: ${refused.get(entry.changeId)}`));
+        await this.db.discardOutbox(invalid);
+        dropped += invalid.length;
+      }
+
+      // Anything the server didn't answer for is tried again later
+      const handled = new Set([...response.acked, ...conflicts.keys(), ...refused.keys()]);
+      const unanswered = batch.filter(entry => !handled.has(entry.changeId));
+      if (unanswered.length) await this.db.rescheduleOutbox(unanswered, retryDelay);
+    }
+    return dropped;
+  }
+
+  // Both sides changed the record since the last sync. Notes are merged three-way against
+  // the last synced text; anything else, and a local delete of an edited note, defers to the server.
+  private async resolveConflict(entry: OutboxEntry, current: SyncChange) {
+    // A newer local edit replaced this change mid-push; it still carries the same base and gets merged next round
+    const pending = (await this.db.getOutbox()).find(e => e.key === entry.key);
+    if (pending?.changeId !== entry.changeId) return;
+
+    if (entry.store !== 'notes' || entry.op === 'delete' || current.op === 'delete' || !current.record) {
+      await this.db.acceptRemote(entry, current);
+      return;
+    }
+
+    // Merging needs the plaintext; while the journal is locked the change waits in the outbox
+    let local: Note, remote: Note, base: NoteBase | null;
+    try {
+      [local, remote, base] = await Promise.all([
+        this.db.openText(entry.record as Note),
+        this.db.openText(current.record as Note),
+        entry.base ? this.db.openText(entry.base) : null
+      ]);
+    } catch (err) {
+      if (!(err instanceof VaultError)) throw err;
+      await this.db.rescheduleOutbox([entry], retryDelay);
+      return;
+    }
+    const { conflict, ...merged } = mergeNotes(base, local, remote);
+    if (conflict) {
+      await this.db.saveConflict(entry, { noteId: entry.id, detectedAt: Date.now(), base, local, remote });
+    } else {
+      await this.db.resolveConflict({ noteId: entry.id, detectedAt: Date.now(), base, local, remote }, merged);
+    }
+  }
+
+  private async pull(config: SyncConfig, deviceId: string) {
+    let cursor = (await this.db.getMeta<string>(CURSOR_KEY)) ?? '';
+    let hasMore = true;
+
+    while (hasMore) {
+      const params = new URLSearchParams({ since: cursor, deviceId });
+      const response = await this.request<PullResponse>(config, `/pull?${params}`);
+      await this.db.applyRemoteChanges(response.changes, response.cursor);
+      cursor = response.cursor;
+      hasMore = response.hasMore;
+    }
+  }
+
+  private async request<T>(config: SyncConfig, path: string, init: RequestInit = {}): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${config.endpoint}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+        cache: 'no-store',
+        signal: controller.signal
+      });
+      if (!response.ok) throw new Error(`Sync server responded with ${response.status}`);
+      return await response.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async getDeviceId(): Promise<string> {
+    const existing = await this.db.getMeta<string>(DEVICE_KEY);
+    if (existing) return existing;
+    const deviceId = crypto.randomUUID();
+    await this.db.setMeta(DEVICE_KEY, deviceId);
+    return deviceId;
+  }
+
+  // Wakes up again when the earliest backed-off outbox entry becomes due.
+  private async scheduleRetry() {
+    const outbox = await this.db.getOutbox();
+    if (outbox.length === 0 || this.timer) return;
+    const nextAttemptAt = Math.min(...outbox.map(entry => entry.nextAttemptAt));
+    this.timer = setTimeout(() => this.sync(), Math.max(DEBOUNCE_MS, nextAttemptAt - Date.now()));
+  }
+
+  private async registerBackgroundSync() {
+    if (!('serviceWorker' in navigator)) return;
+    try {
+      const registration: SyncRegistration = await navigator.serviceWorker.ready;
+      await registration.sync?.register(SYNC_TAG);
+    } catch (err) {
+      console.warn('Background sync unavailable', err);
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private async update(changes: Partial<SyncStatus>) {
+    const pending = (await this.db.getOutbox()).length;
+    this.setStatus({ ...changes, pending });
+  }
+
+  private setStatus(changes: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
+
+export const syncEngine = new SyncEngine(dbService);
@@ -0,0 +1,96 @@
+import { EntryTemplate, TemplateField, TemplateFieldKind } from '../types';
+
+// Entry templates: a few built-in layouts plus the user's own (stored in IndexedDB, see
+// dbService.getTemplates). Filling one in produces ordinary Markdown, so an entry written
+// from a template can be edited, searched and exported like any other.
+
+// Text for text fields, items for lists and checklists, a rating for scales
+export type TemplateValue = string | string[] | number | null;
+export type TemplateValues = Record<string, TemplateValue>;
+
+export const SCALE_MAX = 10;
+
+export const FIELD_KINDS: { id: TemplateFieldKind; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'list', label: 'List' },
+  { id: 'checklist', label: 'Checklist' },
+  { id: 'scale', label: `Rating 1–${SCALE_MAX}` }
+];
+
+const builtIn = (id: string, name: string, tags: string[], fields: TemplateField[]): EntryTemplate => ({
+  id: `builtin:${id}`,
+  name,
+  fields,
+  tags,
+  builtIn: true,
+  createdAt: 0,
+  updatedAt: 0
+});
+
+export const BUILT_IN_TEMPLATES: EntryTemplate[] = [
+  builtIn('gratitude', 'Gratitude', ['gratitude'], [
+    { id: 'grateful', label: "I'm grateful for", kind: 'list', rows: 3, placeholder: 'Something, someone, a moment...' },
+    { id: 'why', label: 'Why it mattered', kind: 'text' }
+  ]),
+  builtIn('morning-pages', 'Morning pages', ['morning-pages'], [
+    { id: 'pages', label: 'Morning pages', kind: 'text', placeholder: "Write whatever comes to mind, without stopping or editing." }
+  ]),
+  builtIn('daily-review', 'Daily review', ['review'], [
+    { id: 'rating', label: 'How was today?', kind: 'scale' },
+    { id: 'wins', label: 'Wins', kind: 'list', rows: 3 },
+    { id: 'better', label: 'What could have gone better', kind: 'text' },
+    { id: 'tomorrow', label: "Tomorrow's focus", kind: 'checklist', rows: 3 }
+  ]),
+  builtIn('thought-record', 'Thought record', ['cbt'], [
+    { id: 'situation', label: 'Situation', kind: 'text', placeholder: 'Where were you, what happened?' },
+    { id: 'thought', label: 'Automatic thought', kind: 'text', placeholder: 'What went through your mind?' },
+    { id: 'emotions', label: 'Emotions and intensity', kind: 'text', placeholder: 'e.g. anxious 80%, ashamed 40%' },
+    { id: 'for', label: 'Evidence for the thought', kind: 'list', rows: 2 },
+    { id: 'against', label: 'Evidence against the thought', kind: 'list', rows: 2 },
+    { id: 'balanced', label: 'Balanced thought', kind: 'text' },
+    { id: 'belief', label: 'How much do I believe it now?', kind: 'scale' }
+  ])
+];
+
+export const createTemplate = (): EntryTemplate => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), name: '', fields: [createField()], tags: [], createdAt: now, updatedAt: now };
+};
+
+export const createField = (kind: TemplateFieldKind = 'text'): TemplateField => ({
+  id: crypto.randomUUID(),
+  label: '',
+  kind,
+  rows: kind === 'list' || kind === 'checklist' ? 3 : undefined
+});
+
+export const emptyValues = (template: EntryTemplate): TemplateValues =>
+  Object.fromEntries(template.fields.map(field => [
+    field.id,
+    field.kind === 'text' ? '' : field.kind === 'scale' ? null : Array.from({ length: field.rows ?? 1 }, () => '')
+  ]));
+
+const fieldMarkdown = (field: TemplateField, value: TemplateValue) => {
+  if (field.kind === 'scale') return typeof value === 'number' ? `${value}/${SCALE_MAX}` : '';
+  if (field.kind === 'text') return typeof value === 'string' ? value.trim() : '';
+  const items = (Array.isArray(value) ? value : []).map(item => item.trim()).filter(Boolean);
+  return items.map(item => (field.kind === 'checklist' ? `- [ ] ${item}` : `- ${item}`)).join('\n');
+};
+
+// One "## Label" section per filled-in field; empty fields are left out
+export const templateToMarkdown = (template: EntryTemplate, values: TemplateValues) =>
+  template.fields
+    .map(field => ({ field, body: fieldMarkdown(field, values[field.id] ?? null) }))
+    .filter(({ body }) => body)
+    .map(({ field, body }) => `## ${field.label.trim() || 'Notes'}\n\n${body}`)
+    .join('\n\n');
+
+// Fields without a label can't be told apart in the entry, so they are dropped on save
+export const cleanTemplate = (template: EntryTemplate): EntryTemplate => ({
+  ...template,
+  name: template.name.trim(),
+  fields: template.fields
+    .map(field => ({ ...field, label: field.label.trim(), placeholder: field.placeholder?.trim() || undefined }))
+    .filter(field => field.label),
+  updatedAt: Date.now()
+});
@@ -1,69 +1,420 @@
 
-const CACHE_NAME = 'zenmind-v1';
-const ASSETS_TO_CACHE = [
-  '/',
-  '/index.html',
-  '/manifest.json',
-  'https://cdn.tailwindcss.com',
-  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap'
-];
+// Builds prepend `self.__BUILD__` with a version and the emitted files (see vite.config.ts).
+// In dev there is nothing to precache and the app itself always comes from the network.
+const BUILD = self.__BUILD__ || { version: 'dev', precache: [] };
+const PRECACHE = `zenmind-precache-${BUILD.version}`;
+
+// Runtime caches, each with its own strategy and a cap on entries. Bump a name to drop its contents.
+const RUNTIME_CACHES = {
+  cdn: { name: 'zenmind-cdn-v1', maxEntries: 60 },
+  fonts: { name: 'zenmind-fonts-v1', maxEntries: 30 }
+};
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh', 'fonts.googleapis.com'];
+const FONT_HOSTS = ['fonts.gstatic.com'];
 
 self.addEventListener('install', (event) => {
+  // `reload` skips the HTTP cache so a new version never precaches stale files
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      return cache.addAll(ASSETS_TO_CACHE);
-    })
+    caches.open(PRECACHE).then((cache) => cache.addAll(BUILD.precache.map((url) => new Request(url, { cache: 'reload' }))))
   );
 });
 
+// A new version waits until the app asks for it (the "reload" prompt), so a page is never
+// switched to assets from another build while it is open.
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'skip-waiting') {
+    self.skipWaiting();
+  }
+});
+
 self.addEventListener('activate', (event) => {
-  event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
-            return caches.delete(cacheName);
-          }
-        })
-      );
-    })
-  );
+  const current = new Set([PRECACHE, ...Object.values(RUNTIME_CACHES).map((cache) => cache.name)]);
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => name.startsWith('zenmind-') && !current.has(name)).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
 });
 
 self.addEventListener('fetch', (event) => {
-  // Check if it's an API request (like Gemini)
-  if (event.request.url.includes('generativelanguage.googleapis.com')) {
-    return; // Let network handle API
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin && url.pathname.startsWith('/attachments/')) {
+    event.respondWith(serveAttachment(decodeURIComponent(url.pathname.slice('/attachments/'.length)), request));
+    return;
   }
+  // AI providers, the sync server and anything else dynamic go straight to the network
+  if (request.method !== 'GET' || request.cache === 'no-store') return;
 
-  event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request).then((fetchResponse) => {
-        return caches.open(CACHE_NAME).then((cache) => {
-          // Cache new static assets
-          if (event.request.method === 'GET' && !event.request.url.includes('chrome-extension')) {
-            cache.put(event.request, fetchResponse.clone());
-          }
-          return fetchResponse;
-        });
-      });
-    }).catch(() => {
-      // Fallback if both cache and network fail (offline)
-      if (event.request.mode === 'navigate') {
-        return caches.match('/index.html');
-      }
-    })
-  );
+  if (url.origin === self.location.origin) {
+    event.respondWith(servePrecached(request).then((response) => response || fetch(request)));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, RUNTIME_CACHES.cdn));
+  } else if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, RUNTIME_CACHES.fonts));
+  }
 });
 
-// Background Sync (Simple Implementation)
+// Navigations get this version's app shell, so the page always matches the precached bundle
+async function servePrecached(request) {
+  const cache = await caches.open(PRECACHE);
+  return cache.match(request.mode === 'navigate' ? '/index.html' : request, { ignoreSearch: true });
+}
+
+async function staleWhileRevalidate(request, runtime) {
+  const cache = await caches.open(runtime.name);
+  const cached = await cache.match(request);
+  const network = fetch(request).then(async (response) => {
+    if (isCacheable(response)) await putRuntime(runtime, request, response.clone());
+    return response;
+  });
+  if (cached) {
+    network.catch(() => undefined);
+    return cached;
+  }
+  return network;
+}
+
+async function cacheFirst(request, runtime) {
+  const cached = await caches.open(runtime.name).then((cache) => cache.match(request));
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (isCacheable(response)) await putRuntime(runtime, request, response.clone());
+  return response;
+}
+
+// Opaque responses (no-cors scripts and styles from CDNs) can't be inspected, so they are kept as well
+function isCacheable(response) {
+  return response.ok || response.type === 'opaque';
+}
+
+// Cache keys come back in insertion order, so the oldest entries are dropped first
+async function putRuntime(runtime, request, response) {
+  const cache = await caches.open(runtime.name);
+  await cache.put(request, response);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - runtime.maxEntries)).map((key) => cache.delete(key)));
+}
+
+// Photos and voice memos live as Blobs in IndexedDB, which already keeps them offline, so
+// they are served from there rather than copied into Cache Storage and counted twice
+// against the quota. Range requests are answered too, as Safari needs them to play audio.
+// With encryption on, attachments are sealed with a key the worker never has (and ones
+// saved earlier must not leak while the journal is locked), so the page decrypts them itself.
+async function serveAttachment(id, request) {
+  const db = await openDatabase();
+  if (!db || !db.objectStoreNames.contains('attachments')) return new Response('Not found', { status: 404 });
+  try {
+    const [attachment, keyRings] = await Promise.all([
+      new Promise((resolve, reject) => {
+        const lookup = db.transaction('attachments', 'readonly').objectStore('attachments').get(id);
+        lookup.onsuccess = () => resolve(lookup.result);
+        lookup.onerror = () => reject(lookup.error);
+      }),
+      countRecords(db, 'keyring')
+    ]);
+    if (!attachment) return new Response('Not found', { status: 404 });
+    if (attachment.sealed || keyRings > 0) return new Response('Encrypted', { status: 403 });
+
+    const { blob, mimeType } = attachment;
+    const headers = { 'Content-Type': mimeType, 'Accept-Ranges': 'bytes', 'Cache-Control': 'no-store' };
+    const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get('Range') || '');
+    if (!range || (!range[1] && !range[2])) {
+      return new Response(blob, { headers: { ...headers, 'Content-Length': String(blob.size) } });
+    }
+    const start = range[1] ? Number(range[1]) : Math.max(0, blob.size - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), blob.size - 1) : blob.size - 1;
+    if (start > end) {
+      return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${blob.size}` } });
+    }
+    return new Response(blob.slice(start, end + 1), {
+      status: 206,
+      headers: { ...headers, 'Content-Length': String(end - start + 1), 'Content-Range': `bytes ${start}-${end}/${blob.size}` }
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Background Sync: drains the outbox that services/db.ts fills on every local write.
+// Throwing from syncNotes() makes the browser retry the sync later with its own backoff.
 self.addEventListener('sync', (event) => {
   if (event.tag === 'sync-notes') {
     event.waitUntil(syncNotes());
   }
 });
 
+const DB_NAME = 'ZenMindDB';
+
 async function syncNotes() {
-  console.log('Syncing notes in background...');
-  // Logic to push unsynced IDB notes to a server if one existed
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const config = await getMeta(db, 'syncConfig');
+    if (!config || !config.enabled || !config.endpoint) return;
+
+    // The worker has no key, so with encryption on a plaintext note waits for the app to seal it
+    const encrypted = (await countRecords(db, 'keyring')) > 0;
+    const entries = (await readAll(db, 'outbox')).filter((entry) =>
+      !encrypted || entry.store !== 'notes' || entry.op !== 'put' || (entry.record && entry.record.encrypted));
+    if (entries.length === 0) return;
+
+    const deviceId = await getMeta(db, 'deviceId');
+    const response = await fetch(`${config.endpoint}/push`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        deviceId,
+        changes: entries.map(({ changeId, store, id, op, record, baseRevision }) => ({ changeId, store, id, op, record, baseRevision }))
+      })
+    });
+    if (!response.ok) throw new Error(`Sync server responded with ${response.status}`);
+
+    const { acked } = await response.json();
+    await acknowledge(db, entries, new Set(acked));
+
+    const clients = await self.clients.matchAll();
+    clients.forEach((client) => client.postMessage({ type: 'sync-complete' }));
+  } finally {
+    db.close();
+  }
+}
+
+// Opens the app's database without upgrading it; if the app never ran there is nothing to sync.
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => {
+      const db = request.result;
+      if (db.objectStoreNames.contains('outbox')) {
+        resolve(db);
+      } else {
+        db.close();
+        resolve(null);
+      }
+    };
+    request.onerror = () => resolve(null);
+    request.onblocked = () => reject(new Error('Database is blocked'));
+  });
+}
+
+function countRecords(db, storeName) {
+  if (!db.objectStoreNames.contains(storeName)) return Promise.resolve(0);
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).count();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getMeta(db, key) {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction('meta', 'readonly').objectStore('meta').get(key);
+    request.onsuccess = () => resolve(request.result && request.result.value);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function readAll(db, storeName) {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Mirrors LocalDatabase.acknowledgeChanges: entries replaced by a newer local change stay queued.
+function acknowledge(db, entries, acked) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(['outbox', 'notes', 'habits', 'journals', 'keyring'], 'readwrite');
+    const outbox = transaction.objectStore('outbox');
+    entries.filter((entry) => acked.has(entry.changeId)).forEach((entry) => {
+      const lookup = outbox.get(entry.key);
+      lookup.onsuccess = () => {
+        if (!lookup.result || lookup.result.changeId !== entry.changeId) return;
+        outbox.delete(entry.key);
+        if (entry.op !== 'put') return;
+        const store = transaction.objectStore(entry.store);
+        const record = store.get(entry.id);
+        record.onsuccess = () => {
+          if (record.result) store.put({ ...record.result, synced: true });
+        };
+      };
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Reminders: services/reminders.ts stores the settings; the worker decides what is due
+// so notifications still arrive when the app is closed.
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'reminders') {
+    event.waitUntil(checkReminders());
+  }
+});
+
+self.addEventListener('push', (event) => {
+  const payload = event.data ? event.data.json() : { type: 'check-reminders' };
+  if (payload.type === 'check-reminders') {
+    event.waitUntil(checkReminders());
+  } else if (payload.title) {
+    event.waitUntil(self.registration.showNotification(payload.title, { body: payload.body, icon: payload.icon }));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'check-reminders') {
+    event.waitUntil(checkReminders());
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const data = event.notification.data || {};
+  event.notification.close();
+
+  if (data.type === 'habit' && event.action === 'done') {
+    event.waitUntil(markHabitDone(data.habitId, data.day));
+    return;
+  }
+
+  // Open the page the reminder is about; an open window is told to go there, see services/router.ts
+  let url = '/journal';
+  if (data.type === 'habit') url = `/habits/${encodeURIComponent(data.habitId)}`;
+  else if (data.type === 'journal') url = '/journal/new';
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length === 0) return self.clients.openWindow(url);
+    windows[0].postMessage({ type: 'navigate', url });
+    return windows[0].focus();
+  })());
+});
+
+const pad = (n) => String(n).padStart(2, '0');
+const localDayKey = (date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const localTime = (date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Mirrors isDueOn in services/habitEngine.ts
+function isHabitDueOn(habit, day) {
+  const schedule = habit.schedule || { type: 'daily' };
+  const [y, m, d] = day.split('-').map(Number);
+  const time = Date.UTC(y, m - 1, d);
+  if (schedule.type === 'weekdays') return schedule.days.includes(new Date(time).getUTCDay());
+  if (schedule.type === 'everyNDays') {
+    const [sy, sm, sd] = schedule.startDate.split('-').map(Number);
+    const elapsed = Math.round((time - Date.UTC(sy, sm - 1, sd)) / 86400000);
+    return ((elapsed % schedule.interval) + schedule.interval) % schedule.interval === 0;
+  }
+  return true;
+}
+
+async function checkReminders() {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const settings = await getMeta(db, 'reminderSettings');
+    if (!settings || !settings.enabled || Notification.permission !== 'granted') return;
+
+    const now = new Date();
+    const today = localDayKey(now);
+    const time = localTime(now);
+    const log = (await getMeta(db, 'reminderLog')) || {};
+    const sent = [];
+
+    const habits = await readAll(db, 'habits');
+    for (const habit of habits) {
+      const id = `habit:${habit.id}`;
+      if (!habit.reminderTime || habit.reminderTime > time || log[id] === today) continue;
+      if (!isHabitDueOn(habit, today)) continue;
+      if (habit.completedDays.includes(today) || (habit.skippedDays || []).includes(today)) continue;
+
+      await self.registration.showNotification(habit.name, {
+        body: "Time for today's check-in.",
+        tag: id,
+        data: { type: 'habit', habitId: habit.id, day: today },
+        actions: [{ action: 'done', title: 'Mark done' }]
+      });
+      sent.push(id);
+    }
+
+    if (settings.journalTime && settings.journalTime <= time && log.journal !== today) {
+      const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+      const notes = await readAll(db, 'notes');
+      if (!notes.some((note) => note.createdAt >= startOfDay)) {
+        await self.registration.showNotification('ZenMind', {
+          body: 'Take a moment to write in your journal.',
+          tag: 'journal',
+          data: { type: 'journal' }
+        });
+      }
+      sent.push('journal');
+    }
+
+    if (sent.length > 0) {
+      sent.forEach((id) => (log[id] = today));
+      await putRecords(db, 'meta', [{ key: 'reminderLog', value: log }]);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// Checks the habit off for the notified day and queues the change exactly like
+// LocalDatabase.saveHabit does. The cached `streak` is recomputed next time the app opens.
+async function markHabitDone(habitId, day) {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const habits = await readAll(db, 'habits');
+    const habit = habits.find((h) => h.id === habitId);
+    if (!habit || habit.completedDays.includes(day)) return;
+
+    const record = {
+      ...habit,
+      completedDays: [...habit.completedDays, day].sort(),
+      skippedDays: (habit.skippedDays || []).filter((d) => d !== day),
+      synced: false
+    };
+    const now = Date.now();
+    // One transaction, so the check-in is never stored without its outbox entry
+    await new Promise((resolve, reject) => {
+      const transaction = db.transaction(['habits', 'outbox'], 'readwrite');
+      transaction.objectStore('habits').put(record);
+      transaction.objectStore('outbox').put({
+        key: `habits:${habit.id}`,
+        changeId: crypto.randomUUID(),
+        store: 'habits',
+        id: habit.id,
+        op: 'put',
+        record,
+        queuedAt: now,
+        attempts: 0,
+        nextAttemptAt: now
+      });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+
+  if (self.registration.sync) await self.registration.sync.register('sync-notes').catch(() => undefined);
+  const clients = await self.clients.matchAll();
+  clients.forEach((client) => client.postMessage({ type: 'data-changed' }));
+}
+
+function putRecords(db, storeName, records) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    records.forEach((record) => store.put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
 }
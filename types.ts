@@ -1,22 +1,284 @@
-
 export interface Note {
   id: string;
   title: string;
   content: string;
+  tags: string[];
+  journalId: string; // See services/journals.ts
+  mood?: number; // 1 (awful) to 5 (great), see services/mood.ts
+  emotions?: string[];
   createdAt: number;
+  updatedAt: number;
+  revision: number;
   synced: boolean;
+  encrypted?: EncryptedText; // At rest and in sync only; the fields of StoredText are then stored empty
+}
+
+// AES-GCM ciphertext of a note's StoredText fields, a reflection or an embedding, see services/crypto.ts
+export interface EncryptedText {
+  keyId: string;
+  iv: string; // base64
+  data: string; // base64
+}
+
+export type JournalColor = 'indigo' | 'rose' | 'amber' | 'emerald' | 'sky' | 'violet' | 'slate';
+
+// A separate notebook, e.g. work logs or a project diary. Every note belongs to exactly one.
+export interface Journal {
+  id: string;
+  name: string;
+  color: JournalColor;
+  icon: string; // An emoji
+  createdAt: number;
+  updatedAt: number;
+  synced?: boolean;
+}
+
+export interface KeyRing {
+  id: string;
+  salt: string; // base64 PBKDF2 salt
+  iterations: number;
+  wrappedKey: string; // base64 AES-KW wrapped data key
+  createdAt: number;
+  synced?: boolean;
+}
+
+// The fields sealed when encryption is on. Drafts keep their tags as the raw input string.
+export type StoredText = Pick<Note, 'title' | 'content' | 'encrypted' | 'mood' | 'emotions'> & { tags?: string[] | string };
+
+// The last synced version of a note, the common ancestor for a three-way merge. Bases
+// recorded before metadata was merged only carry the text.
+export type NoteBase = StoredText & Partial<Pick<Note, 'tags' | 'mood' | 'emotions' | 'journalId'>>;
+
+export interface NoteDraft {
+  id: string;
+  title: string;
+  content: string;
+  tags?: string; // raw comma-separated input
+  mood?: number;
+  emotions?: string[];
+  updatedAt: number;
+  encrypted?: EncryptedText;
+}
+
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  revision: number;
+  title: string;
+  content: string;
+  updatedAt: number;
+  source: 'local' | 'remote' | 'merge' | 'restore' | 'import';
+  encrypted?: EncryptedText;
+}
+
+export interface NoteConflict {
+  noteId: string;
+  detectedAt: number;
+  base: NoteBase | null;
+  local: Note;
+  remote: Note;
 }
 
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] } // 0 = Sunday
+  | { type: 'timesPerWeek'; count: number }
+  | { type: 'everyNDays'; interval: number; startDate: string };
+
 export interface Habit {
   id: string;
   name: string;
-  completedDays: string[]; // ISO Dates
-  streak: number;
+  completedDays: string[]; // Local calendar days, YYYY-MM-DD
+  skippedDays?: string[]; // Excused days that neither break nor extend a streak
+  schedule?: HabitSchedule; // Defaults to daily
+  reminderTime?: string; // HH:MM local time, shown only on days the habit is due
+  streak: number; // Current streak when last saved; see services/habitEngine.ts
+  synced?: boolean;
+}
+
+export type AttachmentKind = 'photo' | 'audio';
+
+// A photo or voice memo on an entry, kept as a Blob. With encryption on the blob is sealed
+// with the journal's key: the service worker, which holds no key, answers 403 for it, so it
+// stays unreadable while locked and the page decrypts it once unlocked. Attachments stay on
+// this device: they are not synced or included in backups.
+export interface Attachment {
+  id: string;
+  noteId: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  size: number; // Bytes
+  duration?: number; // Seconds, voice memos only
+  createdAt: number;
+  blob: Blob; // AES-GCM ciphertext when `sealed` is set
+  sealed?: Pick<EncryptedText, 'keyId' | 'iv'>;
+}
+
+export type TemplateFieldKind = 'text' | 'list' | 'checklist' | 'scale';
+
+export interface TemplateField {
+  id: string;
+  label: string; // Becomes a heading in the entry
+  kind: TemplateFieldKind; // Free text, bullet list, checklist, or a 1–10 rating
+  placeholder?: string;
+  rows?: number; // Starting number of items for lists and checklists
+}
+
+// A reusable entry layout. Filled-in fields are turned into Markdown for `Note.content`.
+export interface EntryTemplate {
+  id: string;
+  name: string;
+  fields: TemplateField[];
+  tags: string[]; // Added to entries written with the template
+  builtIn?: boolean; // Shipped with the app; not stored and not editable
+  createdAt: number;
+  updatedAt: number;
 }
 
-export type AppView = 'notes' | 'habits' | 'ai' | 'settings';
+// A page of the app and the state its URL carries, see services/router.ts
+export type Route =
+  | { page: 'journal'; noteId?: string; compose?: boolean; shared?: SharedText }
+  | { page: 'habits'; habitId?: string }
+  | { page: 'trends' }
+  | { page: 'insights' }
+  | { page: 'settings' };
 
+// Text another app sent through the Web Share Target; any part may be empty
+export interface SharedText {
+  title: string;
+  text: string;
+  url: string;
+}
+
+export type MoodDirection = 'improving' | 'declining' | 'steady' | 'mixed';
+
+export interface MoodTrend {
+  direction: MoodDirection;
+  description: string;
+}
+
+export interface HabitCorrelation {
+  habit: string;
+  effect: 'positive' | 'negative' | 'unclear';
+  observation: string;
+}
+
+// Reflections saved before mood trends and habit correlations existed lack those fields.
 export interface AIInsight {
   summary: string;
   suggestions: string[];
+  moodTrend?: MoodTrend;
+  habitCorrelations?: HabitCorrelation[];
+}
+
+export type InsightPeriod = 'today' | 'week' | 'month';
+
+export interface ChatCitation {
+  index: number; // The [n] marker used in the answer
+  noteId: string;
+  day: string; // YYYY-MM-DD the entry was written
+  title: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  citations: ChatCitation[];
+  pending?: boolean; // Still streaming
+  failed?: boolean; // The text is an error message, left out of the conversation sent to the model
+}
+
+// Cached embedding of a note's text, recomputed when the revision or model changes.
+// Like note text, the vector is moved into `encrypted` when encryption is on.
+export interface NoteEmbedding {
+  noteId: string;
+  model: string;
+  revision: number;
+  vector: number[];
+  encrypted?: EncryptedText;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'local';
+
+export interface AIConfig {
+  provider: AIProviderId;
+  apiKey: string; // Gemini key, or bearer token for an OpenAI-compatible server; empty uses the build-time key
+  endpoint: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama
+  model: string; // Empty means the provider's default
+  embeddingModel: string; // OpenAI-compatible only; empty means the default for the endpoint
+  autoDaily: boolean; // Reflect on yesterday's entries when the app opens
+  autoWeekly: boolean; // Reflect on last week's entries when the app opens
+  writingPrompts: boolean; // Gemini only: suggest today's writing prompts from recent entries
+}
+
+export type ReflectionKind = 'manual' | 'daily' | 'weekly';
+
+// A stored insight. Like notes, its text is moved into `encrypted` when encryption is on.
+export interface Reflection {
+  id: string;
+  kind: ReflectionKind;
+  periodKey: string | null; // The day for daily reflections, the first day of the week for weekly ones
+  journalId: string; // Insights only ever cover the entries of one journal
+  period?: InsightPeriod; // What a manual reflection covered
+  createdAt: number;
+  noteIds: string[]; // The entries the insight was based on
+  provider: string;
+  insight: AIInsight;
+  encrypted?: EncryptedText;
+}
+
+export type SyncStoreName = 'notes' | 'habits' | 'journals' | 'keyring';
+
+export interface SyncChange {
+  changeId: string;
+  store: SyncStoreName;
+  id: string;
+  op: 'put' | 'delete';
+  record?: Note | Habit | Journal | KeyRing;
+  baseRevision?: number; // notes only: the server revision this change was made on top of
+}
+
+export interface OutboxEntry extends SyncChange {
+  key: string; // `${store}:${id}`, so a record only ever has one pending change
+  base?: NoteBase;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export interface SyncConfig {
+  enabled: boolean;
+  endpoint: string;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  journalTime: string | null; // HH:MM local time for the daily journaling nudge
+  pushServer: string; // Optional Web Push relay; empty means local checks only
+}
+
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+export type DateFormat = 'medium' | 'long' | 'numeric' | 'iso';
+
+// App-wide preferences. `ai` and `reminders` keep their own records in IndexedDB, since the
+// API key stays out of everything else and the service worker reads the reminder settings,
+// but they are read and changed through Settings like the rest.
+export interface Settings {
+  theme: ThemePreference;
+  weekStartsOn: number; // 0 = Sunday, 1 = Monday, 6 = Saturday
+  locale: string; // BCP 47 tag for dates and times; empty uses the browser's
+  dateFormat: DateFormat;
+  insightPeriod: InsightPeriod; // Selected when the AI tab opens
+  journalId: string; // The journal shown and written to
+  ai: AIConfig;
+  reminders: ReminderSettings;
+}
+
+export interface SyncStatus {
+  state: 'idle' | 'syncing' | 'offline' | 'error';
+  pending: number;
+  lastSyncedAt: number | null;
+  error: string | null;
 }
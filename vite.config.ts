@@ -1,7 +1,39 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js with the build's file list prepended as `self.__BUILD__`, so the worker can
+// precache exactly this deploy. The version is a hash of every emitted file; any change
+// produces a new worker, which the app then offers to activate (see services/serviceWorker.ts).
+// In dev the worker is served as-is and falls back to runtime caching.
+const serviceWorker = (): Plugin => ({
+  name: 'zenmind-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const files = Object.values(bundle)
+      .filter(file => !file.fileName.endsWith('.map'))
+      .sort((a, b) => a.fileName.localeCompare(b.fileName));
+    const hash = createHash('sha256');
+    files.forEach(file => {
+      hash.update(file.fileName);
+      hash.update(file.type === 'chunk' ? file.code : file.source);
+    });
+    const build = {
+      version: hash.digest('hex').slice(0, 12),
+      precache: files.map(file => `/${file.fileName}`)
+    };
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: `self.__BUILD__ = ${JSON.stringify(build)};\n${source}`
+    });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +41,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)